@@ -1,17 +1,24 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
-  generateSimulatedData, 
-  augmentDataWithBiomarker, 
   SimulationConfig, 
   SCENARIO_PRESETS 
 } from './services/simulation';
-import { PatientData, BiomarkerDef, Timepoint, Arm, Measurement } from './types';
-import { BIOMARKERS, TIMEPOINT_ORDER } from './constants';
+import { PatientData, BiomarkerDef, Timepoint, Measurement, CensoredSide } from './types';
+import { BIOMARKERS, DEFAULT_VISIT_SCHEDULE } from './constants';
 import { TrendChart } from './components/TrendChart';
 import { DistributionChart } from './components/DistributionChart';
+import { WaterfallChart } from './components/WaterfallChart';
+import { SpaghettiPlot } from './components/SpaghettiPlot';
 import { BiomarkerOverview } from './components/BiomarkerOverview';
+import { BaselineCharacteristics } from './components/BaselineCharacteristics';
+import { CorrelationExplorer } from './components/CorrelationExplorer';
+import { PatientClustering } from './components/PatientClustering';
 import { TimepointComparison } from './components/TimepointComparison';
+import { ResponderAnalysis } from './components/ResponderAnalysis';
+import { SubgroupForestPlot } from './components/SubgroupForestPlot';
+import { DoseResponseChart } from './components/DoseResponseChart';
+import { CensoringSummary } from './components/CensoringSummary';
 import { AddBiomarkerModal } from './components/AddBiomarkerModal';
 import { PowerCalculator } from './components/PowerCalculator';
 import { SingleCellPower } from './components/SingleCellPower';
@@ -20,7 +27,30 @@ import { AboutModal } from './components/AboutModal';
 import { FeedbackModal } from './components/FeedbackModal';
 import { AdminStatsModal } from './components/AdminStatsModal';
 import { SimulationConfigCard } from './components/SimulationConfigCard';
+import { TrialPowerSimulation } from './components/TrialPowerSimulation';
+import { AnalysisPopulationCard } from './components/AnalysisPopulationCard';
 import { analytics } from './services/analytics';
+import { CohortTask, startCohortTask } from './services/cohortTaskClient';
+import { CohortTaskRequest } from './services/cohortTasks';
+import { ExportMetadata } from './services/export';
+import { buildArmRegistry } from './services/studyArms';
+import { buildVisitSchedule, getBaselineVisit, getFinalVisit, getScheduledVisits, normalizeVisitLabel } from './services/visitSchedule';
+import {
+  DatedSample,
+  studyDayFromDates,
+  summarizeWindowReport,
+  VisitWindowReport,
+  VisitWindowSettings,
+  windowSamples
+} from './services/visitWindowing';
+import { VisitWindowsModal } from './components/VisitWindowsModal';
+import { detectCdiscDomain, parseCdiscCSV, splitCSVLine, summarizeCdiscReport } from './services/cdiscImport';
+import { describeMissingData } from './services/missingData';
+import { applyCensoringRule, CENSORING_RULE_METHODS, CensoringRule, DEFAULT_CENSORING_RULE, hasCensoredData, parseCensoredToken, resolveCensoredLimit } from './services/censoring';
+import { filterByTraits, hasLatentTraits, TRAIT_FILTER_LABELS, TraitFilter } from './services/patientTraits';
+import { normalizeCovariates, parseCovariateValue, resolveCovariateKey } from './services/covariates';
+import { ALL_GROUPS, countGroupMembers, filterByGroup, PatientGrouping } from './services/patientGroups';
+import { AnalysisPopulation, applyPopulation, DEFAULT_POPULATION, describePopulation, getPopulationArms } from './services/analysisPopulation';
 import { 
   LayoutDashboard, 
   Activity, 
@@ -39,52 +69,24 @@ import {
   Shield,
   Dna,
   Map,
-  ArrowRight
+  ArrowRight,
+  X
 } from 'lucide-react';
 
 type AppTab = 'dashboard' | 'power' | 'singlecell' | 'spatial';
 
 // --- Helper Functions for Data Processing ---
 
-const calculateDerivedMetrics = (patients: PatientData[]): PatientData[] => {
-  return patients.map(patient => {
-    const measurementsByBio: Record<string, Measurement[]> = {};
-    patient.measurements.forEach(m => {
-      if (!measurementsByBio[m.biomarkerId]) measurementsByBio[m.biomarkerId] = [];
-      measurementsByBio[m.biomarkerId].push(m);
-    });
-
-    const enrichedMeasurements: Measurement[] = [];
-
-    Object.keys(measurementsByBio).forEach(bioId => {
-      const bioMeasurements = measurementsByBio[bioId];
-      const baseline = bioMeasurements.find(m => m.timepoint === Timepoint.BASELINE);
-      const baselineVal = baseline ? baseline.value : undefined;
-
-      bioMeasurements.forEach(m => {
-        let change = 0;
-        let pct = 0;
-        if (baselineVal !== undefined && baselineVal !== 0) {
-           change = m.value - baselineVal;
-           pct = ((m.value - baselineVal) / baselineVal) * 100;
-        }
-        enrichedMeasurements.push({
-          ...m,
-          changeFromBaseline: m.changeFromBaseline ?? change,
-          percentChange: m.percentChange ?? pct
-        });
-      });
-    });
-
-    return { ...patient, measurements: enrichedMeasurements };
-  });
-};
-
-const parseCSV = (content: string): PatientData[] => {
+// Rows carry either a visit label (timepoint) or an actual study day / collection date,
+// which is assigned to a nominal visit through the configured visit windows.
+// Censored results ("<LLOQ", "BLQ", "<0.5", ">ULOQ") are stored at the limit and flagged.
+// Any other column is a patient covariate (age, sex, BMI, site, ...), typed by its name or a
+// ":numeric" / ":categorical" suffix; the first non-empty value per patient is kept.
+const parseCSV = (content: string, biomarkers: BiomarkerDef[], windowSettings: VisitWindowSettings): { data: PatientData[]; windowReport?: VisitWindowReport } => {
   const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
   if (lines.length < 2) throw new Error("CSV file is empty or missing headers.");
   const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-  const requiredFields = ['patientid', 'arm', 'biomarkerid', 'timepoint', 'value'];
+  const requiredFields = ['patientid', 'arm', 'biomarkerid', 'value'];
   const missing = requiredFields.filter(field => !headers.includes(field));
   if (missing.length > 0) throw new Error(`Missing required CSV headers: ${missing.join(', ')}`);
   const idx = {
@@ -92,32 +94,86 @@ const parseCSV = (content: string): PatientData[] => {
     arm: headers.indexOf('arm'),
     bio: headers.indexOf('biomarkerid'),
     tp: headers.indexOf('timepoint'),
-    val: headers.indexOf('value')
+    val: headers.indexOf('value'),
+    day: headers.indexOf('studyday'),
+    date: headers.indexOf('collectiondate'),
+    refDate: headers.indexOf('firstdosedate')
   };
+  const hasDates = idx.date >= 0 && idx.refDate >= 0;
+  const knownColumns = new Set<number>(Object.values(idx).filter(i => i >= 0));
+  const rawHeaders = lines[0].split(',').map(h => h.trim());
+  const covariateColumns = rawHeaders
+    .map((name, i) => ({ ...resolveCovariateKey(name), i }))
+    .filter(c => c.key !== '' && !knownColumns.has(c.i));
+  if (idx.tp < 0 && idx.day < 0 && !hasDates) {
+    throw new Error("Missing visit information: provide a timepoint, studyDay, or collectionDate + firstDoseDate column.");
+  }
   const patientMap = new Map<string, PatientData>();
+  const datedSamples: DatedSample[] = [];
   for (let i = 1; i < lines.length; i++) {
     const cols = lines[i].split(',').map(c => c.trim());
     if (cols.length < requiredFields.length) continue;
     const pid = cols[idx.pid];
-    const arm = cols[idx.arm] as Arm;
+    const arm = cols[idx.arm];
     const bioId = cols[idx.bio];
-    const tp = cols[idx.tp] as Timepoint;
-    const val = parseFloat(cols[idx.val]);
+    let val = parseFloat(cols[idx.val]);
+    let censored: CensoredSide | undefined;
+    const token = parseCensoredToken(cols[idx.val]);
+    if (token) {
+      const limit = resolveCensoredLimit(token, biomarkers.find(b => b.id === bioId));
+      if (limit === undefined) {
+        throw new Error(`Row ${i + 1}: Value '${cols[idx.val]}' is censored but no ${token.side === 'below' ? 'LLOQ' : 'ULOQ'} is defined for biomarker '${bioId}'.`);
+      }
+      val = limit;
+      censored = token.side;
+    }
     if (isNaN(val)) throw new Error(`Row ${i + 1}: Value '${cols[idx.val]}' is not a valid number.`);
     if (!patientMap.has(pid)) {
       patientMap.set(pid, { patientId: pid, arm, measurements: [] });
     }
-    patientMap.get(pid)!.measurements.push({ biomarkerId: bioId, timepoint: tp, value: val });
+    if (covariateColumns.length > 0) {
+      const patient = patientMap.get(pid)!;
+      const covariates = patient.covariates ?? (patient.covariates = {});
+      covariateColumns.forEach(({ key, type, i }) => {
+        if (covariates[key] === undefined) {
+          const parsed = parseCovariateValue(cols[i], type);
+          if (parsed !== undefined) covariates[key] = parsed;
+        }
+      });
+    }
+    const label = idx.tp >= 0 ? cols[idx.tp] : '';
+    if (label) {
+      const measurement: Measurement = { biomarkerId: bioId, timepoint: normalizeVisitLabel(label), value: val };
+      if (censored) measurement.censored = censored;
+      patientMap.get(pid)!.measurements.push(measurement);
+      continue;
+    }
+    const studyDay = idx.day >= 0 && cols[idx.day] !== '' && cols[idx.day] !== undefined
+      ? parseFloat(cols[idx.day])
+      : hasDates ? studyDayFromDates(cols[idx.date] || '', cols[idx.refDate] || '') : undefined;
+    if (studyDay === undefined || isNaN(studyDay)) {
+      throw new Error(`Row ${i + 1}: No timepoint or valid study day / collection date.`);
+    }
+    datedSamples.push({ patientId: pid, biomarkerId: bioId, studyDay, value: val, censored });
   }
-  return Array.from(patientMap.values());
+  if (datedSamples.length === 0) return { data: Array.from(patientMap.values()) };
+
+  const { measurementsByPatient, report } = windowSamples(datedSamples, windowSettings);
+  measurementsByPatient.forEach((measurements, pid) => {
+    patientMap.get(pid)!.measurements.push(...measurements);
+  });
+  return { data: Array.from(patientMap.values()), windowReport: report };
 };
 
 const Header: React.FC<{ 
   onUpload: (data: PatientData[]) => void; 
+  biomarkers: BiomarkerDef[];
+  windowSettings: VisitWindowSettings;
   activeTab: AppTab;
   setActiveTab: (t: AppTab) => void;
   onOpenFeedback: () => void;
-}> = ({ onUpload, activeTab, setActiveTab, onOpenFeedback }) => {
+  onOpenVisitWindows: () => void;
+}> = ({ onUpload, biomarkers, windowSettings, activeTab, setActiveTab, onOpenFeedback, onOpenVisitWindows }) => {
   const [showInfo, setShowInfo] = useState(false);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -136,28 +192,46 @@ const Header: React.FC<{
       try {
         const content = e.target?.result as string;
         let rawData: PatientData[] = [];
+        let importSummary = '';
+        let importDomain: string | undefined;
         if (isJson) {
           const parsed = JSON.parse(content);
           if (!Array.isArray(parsed)) throw new Error("JSON root must be an array of patients.");
           if (parsed.length > 0 && (!parsed[0].patientId || !parsed[0].measurements)) {
              throw new Error("Invalid JSON structure. Missing patientId or measurements.");
           }
-          rawData = parsed;
+          rawData = parsed.map((p: PatientData) => ({ ...p, covariates: normalizeCovariates(p.covariates, p.patientId) }));
         } else {
-          rawData = parseCSV(content);
-        }
-        if (rawData.length === 0) throw new Error("No data found in file.");
-        const processedData = calculateDerivedMetrics(rawData);
-        onUpload(processedData);
-        analytics.logEvent('DATA_UPLOAD', { fileName, patientCount: processedData.length });
-        
-        if (activeTab !== 'dashboard') {
-          if (confirm(`Successfully processed ${processedData.length} records. Would you like to switch to the Dashboard to view your uploaded biomarker trends?`)) {
-            setActiveTab('dashboard');
+          const firstLine = content.split(/\r?\n/, 1)[0] || '';
+          if (detectCdiscDomain(splitCSVLine(firstLine))) {
+            const { data: cdiscData, report } = parseCdiscCSV(content, biomarkers, windowSettings);
+            rawData = cdiscData;
+            importSummary = summarizeCdiscReport(report);
+            importDomain = report.domain;
+          } else {
+            const { data: csvData, windowReport } = parseCSV(content, biomarkers, windowSettings);
+            rawData = csvData;
+            if (windowReport) importSummary = summarizeWindowReport(windowReport);
           }
-        } else {
-          alert(`Successfully uploaded records for ${processedData.length} patients.`);
         }
+        if (rawData.length === 0) throw new Error("No data found in file.");
+        // Change from baseline is derived off the UI thread; large uploads stay responsive
+        startCohortTask({ type: 'derive', patients: rawData }).result
+          .then(processedData => {
+            if (!processedData) return;
+            onUpload(processedData);
+            analytics.logEvent('DATA_UPLOAD', { fileName, patientCount: processedData.length, domain: importDomain });
+
+            const summarySuffix = importSummary ? `\n\n${importSummary}` : '';
+            if (activeTab !== 'dashboard') {
+              if (confirm(`Successfully processed ${processedData.length} records.${summarySuffix}\n\nWould you like to switch to the Dashboard to view your uploaded biomarker trends?`)) {
+                setActiveTab('dashboard');
+              }
+            } else {
+              alert(`Successfully uploaded records for ${processedData.length} patients.${summarySuffix}`);
+            }
+          })
+          .catch(err => alert(`Upload Failed: ${err instanceof Error ? err.message : 'Unknown error processing file.'}`));
       } catch (err) {
         alert(`Upload Failed: ${err instanceof Error ? err.message : 'Unknown error parsing file.'}`);
       }
@@ -235,6 +309,10 @@ const Header: React.FC<{
             <button className="ml-2 p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 rounded-full transition-all"
               onMouseEnter={() => setShowInfo(true)} onMouseLeave={() => setShowInfo(false)} onClick={() => setShowInfo(!showInfo)}>
               <Info size={20} />
+            </button>
+            <button className="ml-1 p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 rounded-full transition-all"
+              onClick={onOpenVisitWindows} title="Visit Windows">
+              <Calendar size={20} />
             </button>
              <button className="ml-1 p-1.5 text-slate-400 hover:text-amber-500 hover:bg-amber-50 rounded-full transition-all"
               onClick={onOpenFeedback} title="Give Feedback">
@@ -261,7 +339,19 @@ const Header: React.FC<{
                     <span className="w-1.5 h-1.5 rounded-full bg-green-500"></span> CSV Format
                   </p>
                   <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 font-mono text-[10px] text-slate-600 overflow-x-auto whitespace-nowrap">
-                    patientId, arm, biomarkerId, timepoint, value
+                    <div>patientId, arm, biomarkerId, timepoint, value</div>
+                    <div className="text-slate-400">optional: studyDay | collectionDate, firstDoseDate</div>
+                    <div className="text-slate-400">other columns are covariates (age, sex, bmi, site, stratum, name:categorical)</div>
+                    <div className="text-slate-400">value may be censored: &lt;LLOQ, BLQ, &lt;0.5, &gt;ULOQ</div>
+                  </div>
+                </div>
+                <div>
+                  <p className="text-xs font-bold text-slate-700 mb-1.5 flex items-center gap-2">
+                    <span className="w-1.5 h-1.5 rounded-full bg-sky-500"></span> CDISC SDTM LB / ADaM ADLB (CSV)
+                  </p>
+                  <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 font-mono text-[10px] text-slate-600 overflow-x-auto whitespace-nowrap">
+                    <div>USUBJID, LBTESTCD, LBSTRESN, VISIT, LBBLFL, ARM</div>
+                    <div>USUBJID, PARAMCD, AVAL, AVISIT, BASE, CHG, PCHG, TRT01P</div>
                   </div>
                 </div>
                 <div>
@@ -269,7 +359,7 @@ const Header: React.FC<{
                     <span className="w-1.5 h-1.5 rounded-full bg-amber-500"></span> JSON Format
                   </p>
                   <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 font-mono text-[10px] text-slate-600">
-                    <pre>{`[{"patientId": "PT-001", "measurements": [...]}]`}</pre>
+                    <pre>{`[{"patientId": "PT-001", "covariates": {...}, "measurements": [...]}]`}</pre>
                   </div>
                 </div>
               </div>
@@ -316,54 +406,205 @@ const App: React.FC = () => {
   const [biomarkers, setBiomarkers] = useState<BiomarkerDef[]>(BIOMARKERS);
   const [data, setData] = useState<PatientData[]>([]);
   const [selectedBiomarkerId, setSelectedBiomarkerId] = useState<string>(BIOMARKERS[0].id);
-  const [selectedTimepoint, setSelectedTimepoint] = useState<Timepoint>(Timepoint.WEEK_24);
+  const [selectedTimepoint, setSelectedTimepoint] = useState<Timepoint>('Week 24');
   const [isPercentChange, setIsPercentChange] = useState<boolean>(true);
+  const [traitFilter, setTraitFilter] = useState<TraitFilter>('all');
+  // Saved patient grouping (e.g. k-means clusters) and the group the deep dive is restricted to
+  const [patientGrouping, setPatientGrouping] = useState<PatientGrouping | null>(null);
+  const [groupFilter, setGroupFilter] = useState<string>(ALL_GROUPS);
+  const [censoringRule, setCensoringRule] = useState<CensoringRule>(DEFAULT_CENSORING_RULE);
+  const [population, setPopulation] = useState<AnalysisPopulation>(DEFAULT_POPULATION);
   const [loading, setLoading] = useState<boolean>(true);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isAboutModalOpen, setIsAboutModalOpen] = useState(true);
   const [isFeedbackModalOpen, setIsFeedbackModalOpen] = useState(false);
   const [isAdminModalOpen, setIsAdminModalOpen] = useState(false);
+  const [isVisitWindowsModalOpen, setIsVisitWindowsModalOpen] = useState(false);
+  const [windowSettings, setWindowSettings] = useState<VisitWindowSettings>({ visits: DEFAULT_VISIT_SCHEDULE, multiSampleRule: 'closest' });
   const [simulationConfig, setSimulationConfig] = useState<SimulationConfig>(SCENARIO_PRESETS['Standard Efficacy']);
+  // Config the displayed cohort was generated from (null once user data is uploaded)
+  const [generatedFrom, setGeneratedFrom] = useState<SimulationConfig | null>(null);
+  const [simulationProgress, setSimulationProgress] = useState(0);
+  const simulationTaskRef = useRef<CohortTask<PatientData[]> | null>(null);
 
   useEffect(() => {
     analytics.logEvent('TAB_SWITCH', { tab: activeTab });
   }, [activeTab]);
 
-  const loadData = useCallback(() => {
+  // Generation and biomarker additions run in a worker; a new task or an explicit cancel supersedes the pending one
+  const runSimulationTask = useCallback((
+    request: Extract<CohortTaskRequest, { type: 'generate' | 'augment' }>,
+    onResult: (newData: PatientData[]) => void,
+    failureTitle: string
+  ) => {
+    simulationTaskRef.current?.cancel();
     setLoading(true);
-    analytics.logEvent('SIMULATION_RUN', { scenario: simulationConfig.scenarioName });
-    setTimeout(() => {
-      const newData = generateSimulatedData(600, biomarkers, simulationConfig);
-      setData(newData);
-      setLoading(false);
-    }, 600);
-  }, [biomarkers, simulationConfig]);
+    setSimulationProgress(0);
+    const task = startCohortTask(request, (completed, total) => setSimulationProgress(completed / total));
+    simulationTaskRef.current = task;
+    task.result
+      .then(newData => {
+        if (!newData || simulationTaskRef.current !== task) return;
+        onResult(newData);
+        setLoading(false);
+      })
+      .catch(err => {
+        if (simulationTaskRef.current !== task) return;
+        alert(`${failureTitle}: ${err instanceof Error ? err.message : 'Unknown error.'}`);
+        setLoading(false);
+      })
+      .finally(() => {
+        if (simulationTaskRef.current === task) simulationTaskRef.current = null;
+      });
+  }, []);
+
+  const loadData = useCallback(() => {
+    analytics.logEvent('SIMULATION_RUN', { scenario: simulationConfig.scenarioName, seed: simulationConfig.seed, patients: simulationConfig.patientCount });
+    runSimulationTask(
+      { type: 'generate', patientCount: simulationConfig.patientCount, biomarkers, config: simulationConfig },
+      newData => {
+        setData(newData);
+        setGeneratedFrom(simulationConfig);
+        setPatientGrouping(null);
+      },
+      'Simulation Failed'
+    );
+  }, [biomarkers, simulationConfig, runSimulationTask]);
+
+  // Keeps the previous cohort on screen; before the first cohort exists there is nothing to go back to
+  const cancelLoadData = useCallback(() => {
+    simulationTaskRef.current?.cancel();
+    simulationTaskRef.current = null;
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadData();
+    return () => simulationTaskRef.current?.cancel();
+  }, []); 
 
-  useEffect(() => { loadData(); }, []); 
+  const handleUpload = (uploaded: PatientData[]) => {
+    cancelLoadData();
+    setData(uploaded);
+    setGeneratedFrom(null);
+    setPatientGrouping(null);
+  };
+
+  const handleSaveGrouping = (grouping: PatientGrouping) => {
+    setPatientGrouping(grouping);
+    setGroupFilter(ALL_GROUPS);
+    analytics.logEvent('PAGE_VIEW', { action: 'SAVE_GROUPING', name: grouping.name, groups: grouping.groups.length });
+  };
 
+  const handlePopulationChange = (next: AnalysisPopulation) => {
+    if (next.kind !== population.kind) analytics.logEvent('PAGE_VIEW', { action: 'SET_POPULATION', population: next.kind });
+    setPopulation(next);
+  };
+
+  // The biomarker is only registered once its measurements exist; cancelling leaves the study unchanged
   const handleAddBiomarker = (newBio: BiomarkerDef) => {
-    setBiomarkers(prev => [...prev, newBio]);
-    const updatedData = augmentDataWithBiomarker(data, newBio, simulationConfig);
-    setData(updatedData);
-    setSelectedBiomarkerId(newBio.id);
-    analytics.logEvent('PAGE_VIEW', { action: 'ADD_BIOMARKER', name: newBio.name });
+    runSimulationTask(
+      { type: 'augment', patients: data, biomarker: newBio, config: generatedFrom ?? simulationConfig },
+      updatedData => {
+        setBiomarkers(prev => [...prev, newBio]);
+        setData(updatedData);
+        setSelectedBiomarkerId(newBio.id);
+        analytics.logEvent('PAGE_VIEW', { action: 'ADD_BIOMARKER', name: newBio.name });
+      },
+      'Adding Biomarker Failed'
+    );
   };
 
+  // Arms present in the loaded data; simulated arms keep their configured colors and doses
+  const arms = useMemo(() => buildArmRegistry(data, simulationConfig.arms), [data, simulationConfig.arms]);
+  const visits = useMemo(() => buildVisitSchedule(data, simulationConfig.visits), [data, simulationConfig.visits]);
+  const scheduledVisits = useMemo(() => getScheduledVisits(visits), [visits]);
+
+  // A study with different arms (new upload or cohort) starts again from ITT: rules written for the
+  // previous study's arms, covariates and patients would otherwise filter the new data silently
+  const armNames = useMemo(() => arms.map(a => a.name).join('\n'), [arms]);
+  useEffect(() => {
+    setPopulation(DEFAULT_POPULATION);
+  }, [armNames]);
+
+  // Keep the selected visit valid when the schedule changes (new upload or simulation schedule)
+  useEffect(() => {
+    if (!scheduledVisits.some(v => v.label === selectedTimepoint)) {
+      const finalVisit = getFinalVisit(visits);
+      if (finalVisit) setSelectedTimepoint(finalVisit.label);
+    }
+  }, [scheduledVisits, visits, selectedTimepoint]);
+
+  // Results outside LLOQ/ULOQ are resolved once, before any summary or filter
+  const hasCensoring = useMemo(() => hasCensoredData(data), [data]);
+  const censoredData = useMemo(() => applyCensoringRule(data, biomarkers, censoringRule), [data, biomarkers, censoringRule]);
+
+  // The analysis population (ITT, per-protocol or custom) restricts every downstream view and export
+  const baselineVisit = getBaselineVisit(visits).label;
+  const finalVisit = getFinalVisit(visits)?.label;
+  const populationResult = useMemo(
+    () => applyPopulation(censoredData, population, baselineVisit, finalVisit),
+    [censoredData, population, baselineVisit, finalVisit]
+  );
+  const analysisData = populationResult.data;
+  const analysisArms = useMemo(() => getPopulationArms(arms, population), [arms, population]);
+
+  // Latent trait filter for the deep dive; only offered when patients carry simulated traits
+  const showTraitFilter = useMemo(() => hasLatentTraits(data), [data]);
+  const activeTraitFilter: TraitFilter = showTraitFilter ? traitFilter : 'all';
+  const activeGroupFilter = patientGrouping?.groups.includes(groupFilter) ? groupFilter : ALL_GROUPS;
+  const groupCounts = useMemo(() => (patientGrouping ? countGroupMembers(patientGrouping) : {}), [patientGrouping]);
+  const deepDiveData = useMemo(
+    () => filterByGroup(filterByTraits(analysisData, activeTraitFilter), patientGrouping, activeGroupFilter),
+    [analysisData, activeTraitFilter, patientGrouping, activeGroupFilter]
+  );
+
+  // Study-level exports cover the analysis population; deep-dive exports also record its filters
+  const studyExportMeta = useMemo<ExportMetadata>(() => {
+    const meta: ExportMetadata = generatedFrom
+      ? { Source: 'Simulation', Scenario: generatedFrom.scenarioName, Seed: generatedFrom.seed, 'Missing Data': describeMissingData(generatedFrom.missingData), Patients: analysisData.length }
+      : { Source: 'Uploaded data', Patients: analysisData.length };
+    meta['Analysis Population'] = describePopulation(population, biomarkers, finalVisit);
+    if (hasCensoring) meta['Censored Values'] = CENSORING_RULE_METHODS[censoringRule];
+    return meta;
+  }, [generatedFrom, analysisData.length, population, biomarkers, finalVisit, hasCensoring, censoringRule]);
+
+  const exportMeta = useMemo<ExportMetadata>(() => {
+    const meta: ExportMetadata = { ...studyExportMeta, Patients: deepDiveData.length };
+    if (activeTraitFilter !== 'all') meta['Trait Filter'] = TRAIT_FILTER_LABELS[activeTraitFilter];
+    if (patientGrouping && activeGroupFilter !== ALL_GROUPS) meta['Patient Group'] = `${activeGroupFilter} (${patientGrouping.name})`;
+    return meta;
+  }, [studyExportMeta, deepDiveData.length, activeTraitFilter, patientGrouping, activeGroupFilter]);
+
   const activeBiomarker = biomarkers.find(b => b.id === selectedBiomarkerId) || biomarkers[0];
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 font-sans flex flex-col">
-      <Header onUpload={setData} activeTab={activeTab} setActiveTab={setActiveTab} onOpenFeedback={() => setIsFeedbackModalOpen(true)} />
+      <Header 
+        onUpload={handleUpload} 
+        biomarkers={biomarkers} 
+        windowSettings={windowSettings}
+        activeTab={activeTab} 
+        setActiveTab={setActiveTab} 
+        onOpenFeedback={() => setIsFeedbackModalOpen(true)} 
+        onOpenVisitWindows={() => setIsVisitWindowsModalOpen(true)} 
+      />
       <main className="container mx-auto px-6 py-8 max-w-7xl flex-grow">
         {activeTab === 'dashboard' && (
           <>
-            <SimulationConfigCard config={simulationConfig} onConfigChange={setSimulationConfig} onRegenerate={loadData} isLoading={loading} />
+            <SimulationConfigCard config={simulationConfig} biomarkers={biomarkers} onConfigChange={setSimulationConfig} onRegenerate={loadData} onCancel={cancelLoadData} isLoading={loading} progress={simulationProgress} />
+            <TrialPowerSimulation config={simulationConfig} biomarkers={biomarkers} censoringRule={censoringRule} />
+            {!loading && <AnalysisPopulationCard key={armNames} data={censoredData} arms={arms} biomarkers={biomarkers} population={population} result={populationResult} finalVisit={finalVisit} onChange={handlePopulationChange} />}
             <section className="mb-10 animate-in fade-in duration-700">
               <div className="flex items-center gap-2 mb-4">
                 <LayoutDashboard className="text-indigo-600" size={20} />
                 <h2 className="text-xl font-bold text-slate-800">Study Overview</h2>
               </div>
-              {loading ? <div className="h-64 bg-white rounded-xl shadow-sm animate-pulse border border-slate-200"></div> : <BiomarkerOverview data={data} biomarkers={biomarkers} />}
+              {loading ? <div className="h-64 bg-white rounded-xl shadow-sm animate-pulse border border-slate-200"></div> : <BiomarkerOverview data={analysisData} arms={analysisArms} visits={visits} biomarkers={biomarkers} />}
+              {!loading && hasCensoring && <CensoringSummary data={data} biomarkers={biomarkers} rule={censoringRule} onRuleChange={setCensoringRule} />}
+              {!loading && <BaselineCharacteristics data={analysisData} arms={analysisArms} visits={visits} biomarkers={biomarkers} exportMeta={studyExportMeta} />}
+              {!loading && <CorrelationExplorer data={analysisData} arms={analysisArms} visits={visits} biomarkers={biomarkers} />}
+              {!loading && <PatientClustering data={analysisData} arms={analysisArms} visits={visits} biomarkers={biomarkers} savedGrouping={patientGrouping} onSaveGrouping={handleSaveGrouping} />}
             </section>
             <section className="mb-10 animate-in fade-in duration-1000">
               <div className="flex flex-col md:flex-row md:items-center justify-between mb-6 gap-4">
@@ -378,22 +619,53 @@ const App: React.FC = () => {
                   <button onClick={() => setIsAddModalOpen(true)} className="p-1 text-slate-400 hover:text-indigo-600 rounded-full transition-colors"><Plus size={16} /></button>
                   <div className="w-px h-6 bg-slate-200 mx-2"></div>
                   <select value={selectedTimepoint} onChange={(e) => setSelectedTimepoint(e.target.value as Timepoint)} className="bg-transparent text-sm font-medium text-slate-700 focus:outline-none min-w-[100px]">
-                    {TIMEPOINT_ORDER.map(tp => <option key={tp} value={tp}>{tp}</option>)}
+                    {scheduledVisits.map(v => <option key={v.label} value={v.label}>{v.label}</option>)}
                   </select>
                   <div className="w-px h-6 bg-slate-200 mx-2"></div>
                   <button onClick={() => setIsPercentChange(!isPercentChange)} className={`relative w-11 h-6 rounded-full transition-colors ${isPercentChange ? 'bg-indigo-600' : 'bg-slate-300'}`}>
                     <span className={`block w-4 h-4 bg-white rounded-full shadow transform transition-transform mt-1 ml-1 ${isPercentChange ? 'translate-x-5' : 'translate-x-0'}`} />
                   </button>
                   <span className="text-sm font-medium">{isPercentChange ? '% Change' : 'Absolute'}</span>
+                  {showTraitFilter && (
+                    <>
+                      <div className="w-px h-6 bg-slate-200 mx-2"></div>
+                      <div className="flex items-center gap-1.5" title="Filter patients by their simulated latent traits">
+                        <Filter size={14} className={activeTraitFilter !== 'all' ? 'text-indigo-600' : 'text-slate-400'} />
+                        <select value={activeTraitFilter} onChange={(e) => setTraitFilter(e.target.value as TraitFilter)} className="bg-transparent text-sm font-medium text-slate-700 focus:outline-none">
+                          {(Object.keys(TRAIT_FILTER_LABELS) as TraitFilter[]).map(key => <option key={key} value={key}>{TRAIT_FILTER_LABELS[key]}</option>)}
+                        </select>
+                      </div>
+                    </>
+                  )}
+                  {patientGrouping && (
+                    <>
+                      <div className="w-px h-6 bg-slate-200 mx-2"></div>
+                      <div className="flex items-center gap-1.5" title={`Saved grouping: ${patientGrouping.name}`}>
+                        <Layers size={14} className={activeGroupFilter !== ALL_GROUPS ? 'text-indigo-600' : 'text-slate-400'} />
+                        <select value={activeGroupFilter} onChange={(e) => setGroupFilter(e.target.value)} className="bg-transparent text-sm font-medium text-slate-700 focus:outline-none">
+                          <option value={ALL_GROUPS}>All Groups</option>
+                          {patientGrouping.groups.map(g => <option key={g} value={g}>{g} (n = {groupCounts[g] ?? 0})</option>)}
+                        </select>
+                        <button onClick={() => setPatientGrouping(null)} className="p-0.5 text-slate-400 hover:text-slate-600 rounded-full transition-colors" title="Discard saved grouping"><X size={14} /></button>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
               {loading ? <div className="h-[400px] bg-white rounded-xl animate-pulse"></div> : (
                 <div className="space-y-6">
                   <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                    <TrendChart data={data} biomarker={activeBiomarker} showPercentChange={isPercentChange} />
-                    <DistributionChart data={data} biomarker={activeBiomarker} timepoint={selectedTimepoint} showPercentChange={isPercentChange} />
+                    <TrendChart data={deepDiveData} arms={analysisArms} visits={visits} biomarker={activeBiomarker} showPercentChange={isPercentChange} />
+                    <DistributionChart data={deepDiveData} arms={analysisArms} biomarker={activeBiomarker} timepoint={selectedTimepoint} showPercentChange={isPercentChange} />
+                  </div>
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <WaterfallChart data={deepDiveData} arms={analysisArms} visits={visits} biomarker={activeBiomarker} timepoint={selectedTimepoint} />
+                    <SpaghettiPlot data={deepDiveData} arms={analysisArms} visits={visits} biomarker={activeBiomarker} showPercentChange={isPercentChange} />
                   </div>
-                  <TimepointComparison data={data} biomarker={activeBiomarker} showPercentChange={isPercentChange} />
+                  <DoseResponseChart data={deepDiveData} arms={analysisArms} biomarker={activeBiomarker} timepoint={selectedTimepoint} showPercentChange={isPercentChange} />
+                  <TimepointComparison data={deepDiveData} arms={analysisArms} visits={visits} biomarker={activeBiomarker} showPercentChange={isPercentChange} exportMeta={exportMeta} />
+                  <ResponderAnalysis data={deepDiveData} arms={analysisArms} visits={visits} biomarker={activeBiomarker} exportMeta={exportMeta} />
+                  <SubgroupForestPlot data={deepDiveData} arms={analysisArms} visits={visits} biomarker={activeBiomarker} showPercentChange={isPercentChange} exportMeta={exportMeta} />
                 </div>
               )}
             </section>
@@ -408,6 +680,7 @@ const App: React.FC = () => {
       <AboutModal isOpen={isAboutModalOpen} onClose={() => setIsAboutModalOpen(false)} />
       <FeedbackModal isOpen={isFeedbackModalOpen} onClose={() => setIsFeedbackModalOpen(false)} />
       <AdminStatsModal isOpen={isAdminModalOpen} onClose={() => setIsAdminModalOpen(false)} />
+      <VisitWindowsModal isOpen={isVisitWindowsModalOpen} onClose={() => setIsVisitWindowsModalOpen(false)} settings={windowSettings} onSave={setWindowSettings} />
     </div>
   );
 };
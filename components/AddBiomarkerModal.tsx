@@ -1,7 +1,8 @@
 
 import React, { useState } from 'react';
 import { X } from 'lucide-react';
-import { BiomarkerCategory, BiomarkerDef } from '../types';
+import { BiomarkerCategory, BiomarkerDef, DistributionFamily } from '../types';
+import { DISTRIBUTION_LABELS } from '../services/distributions';
 
 interface AddBiomarkerModalProps {
   isOpen: boolean;
@@ -17,6 +18,9 @@ export const AddBiomarkerModal: React.FC<AddBiomarkerModalProps> = ({ isOpen, on
   const [unit, setUnit] = useState('');
   const [direction, setDirection] = useState<'lower_is_better' | 'higher_is_better'>('lower_is_better');
   const [baselineMean, setBaselineMean] = useState('10');
+  const [distribution, setDistribution] = useState<DistributionFamily>('normal');
+  const [lloq, setLloq] = useState('');
+  const [uloq, setUloq] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -27,7 +31,10 @@ export const AddBiomarkerModal: React.FC<AddBiomarkerModalProps> = ({ isOpen, on
       category,
       unit,
       direction,
-      baselineMean: parseFloat(baselineMean) || 10
+      baselineMean: parseFloat(baselineMean) || 10,
+      distribution,
+      lloq: parseFloat(lloq) > 0 ? parseFloat(lloq) : undefined,
+      uloq: parseFloat(uloq) > 0 ? parseFloat(uloq) : undefined
     });
     onClose();
     // Reset form
@@ -35,6 +42,9 @@ export const AddBiomarkerModal: React.FC<AddBiomarkerModalProps> = ({ isOpen, on
     setUnit('');
     setCategory(BiomarkerCategory.CUSTOM);
     setBaselineMean('10');
+    setDistribution('normal');
+    setLloq('');
+    setUloq('');
   };
 
   return (
@@ -111,6 +121,47 @@ export const AddBiomarkerModal: React.FC<AddBiomarkerModalProps> = ({ isOpen, on
              </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Distribution</label>
+            <select
+              value={distribution}
+              onChange={e => setDistribution(e.target.value as DistributionFamily)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {(Object.keys(DISTRIBUTION_LABELS) as DistributionFamily[]).map(f => (
+                <option key={f} value={f}>{DISTRIBUTION_LABELS[f]}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-slate-400">Log-normal and gamma suit skewed, strictly positive markers such as cytokines; effects act as fold-changes and summaries use geometric means.</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+             <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">LLOQ (optional)</label>
+                <input 
+                  type="number" 
+                  min="0"
+                  step="any"
+                  value={lloq}
+                  onChange={e => setLloq(e.target.value)}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                  placeholder="None"
+                />
+             </div>
+             <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">ULOQ (optional)</label>
+                <input 
+                  type="number" 
+                  min="0"
+                  step="any"
+                  value={uloq}
+                  onChange={e => setUloq(e.target.value)}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                  placeholder="None"
+                />
+             </div>
+          </div>
+
           <div className="pt-4 flex justify-end gap-3">
             <button 
               type="button" 
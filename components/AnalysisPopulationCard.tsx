@@ -0,0 +1,264 @@
+import React, { useMemo, useState } from 'react';
+import { Plus, UserCheck, X } from 'lucide-react';
+import { ArmDef, BiomarkerDef, PatientData } from '../types';
+import { listCovariates } from '../services/covariates';
+import {
+  AnalysisPopulation,
+  BaselineRangeRule,
+  CovariateRule,
+  EXCLUSION_REASON_LABELS,
+  ExclusionReason,
+  MAX_RULE_LEVELS,
+  parsePatientIdList,
+  POPULATION_LABELS,
+  PopulationKind,
+  PopulationResult,
+} from '../services/analysisPopulation';
+
+interface AnalysisPopulationCardProps {
+  data: PatientData[]; // Whole cohort, before the population is applied
+  arms: ArmDef[];
+  biomarkers: BiomarkerDef[];
+  population: AnalysisPopulation;
+  result: PopulationResult;
+  finalVisit?: string;
+  onChange: (population: AnalysisPopulation) => void;
+}
+
+const POPULATION_HELP: Record<PopulationKind, string> = {
+  itt: 'Every randomized patient, analyzed in the arm they were randomized to.',
+  per_protocol: 'Patients observed at the final visit, minus listed protocol deviators.',
+  custom: 'Patients in the selected arms that meet every covariate and baseline rule, minus listed patients.',
+};
+
+// Empty input clears the bound
+const parseBound = (text: string): number | undefined => {
+  const v = parseFloat(text);
+  return isFinite(v) ? v : undefined;
+};
+
+const BoundInput: React.FC<{ value?: number; placeholder: string; onChange: (v: number | undefined) => void }> = ({ value, placeholder, onChange }) => (
+  <input
+    type="number"
+    value={value ?? ''}
+    placeholder={placeholder}
+    onChange={(e) => onChange(parseBound(e.target.value))}
+    className="w-20 px-2 py-1 bg-slate-50 border border-slate-200 rounded-md text-xs font-mono text-slate-700 focus:outline-none"
+  />
+);
+
+export const AnalysisPopulationCard: React.FC<AnalysisPopulationCardProps> = ({ data, arms, biomarkers, population, result, finalVisit, onChange }) => {
+  const [idText, setIdText] = useState(population.excludedPatientIds.join(', '));
+  const covariates = useMemo(
+    () => listCovariates(data).filter(c => c.type === 'numeric' || c.levels.length <= MAX_RULE_LEVELS),
+    [data]
+  );
+
+  const update = (patch: Partial<AnalysisPopulation>) => onChange({ ...population, ...patch });
+  const updateCovariateRule = (index: number, patch: Partial<CovariateRule>) =>
+    update({ covariateRules: population.covariateRules.map((r, i) => (i === index ? { ...r, ...patch } : r)) });
+  const updateBaselineRule = (index: number, patch: Partial<BaselineRangeRule>) =>
+    update({ baselineRules: population.baselineRules.map((r, i) => (i === index ? { ...r, ...patch } : r)) });
+
+  const toggleArm = (arm: string) => update({
+    excludedArms: population.excludedArms.includes(arm) ? population.excludedArms.filter(a => a !== arm) : [...population.excludedArms, arm],
+  });
+
+  // New categorical rules start with every level selected, so adding a rule changes nothing yet
+  const addCovariateRule = (key: string) => {
+    const info = covariates.find(c => c.key === key);
+    if (!info) return;
+    update({ covariateRules: [...population.covariateRules, info.type === 'categorical' ? { key, levels: info.levels } : { key }] });
+  };
+
+  const toggleLevel = (index: number, level: string) => {
+    const levels = population.covariateRules[index].levels ?? [];
+    updateCovariateRule(index, { levels: levels.includes(level) ? levels.filter(l => l !== level) : [...levels, level] });
+  };
+
+  const handleIdTextChange = (text: string) => {
+    setIdText(text);
+    update({ excludedPatientIds: parsePatientIdList(text) });
+  };
+
+  const unusedCovariates = covariates.filter(c => !population.covariateRules.some(r => r.key === c.key));
+  const unusedBiomarkers = biomarkers.filter(b => !population.baselineRules.some(r => r.biomarkerId === b.id));
+  const exclusions = (Object.keys(EXCLUSION_REASON_LABELS) as ExclusionReason[]).filter(r => result.excluded[r] > 0);
+  const sectionTitle = 'text-xs font-bold text-slate-500 uppercase mb-2';
+  const addSelect = 'px-2 py-1 bg-white border border-dashed border-slate-300 rounded-md text-xs text-slate-500 focus:outline-none';
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 mb-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <UserCheck className="text-indigo-600" size={18} />
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Analysis Population</h3>
+            <p className="text-xs text-slate-500">{POPULATION_HELP[population.kind]}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex bg-slate-100 p-1 rounded-lg">
+            {(Object.keys(POPULATION_LABELS) as PopulationKind[]).map(kind => (
+              <button
+                key={kind}
+                onClick={() => update({ kind })}
+                className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${population.kind === kind ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {POPULATION_LABELS[kind]}
+              </button>
+            ))}
+          </div>
+          <span className="text-sm font-mono text-slate-700 whitespace-nowrap">
+            n = {result.data.length}<span className="text-slate-400"> / {data.length}</span>
+          </span>
+        </div>
+      </div>
+
+      {population.kind !== 'itt' && (
+        <div className="mt-5 grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {population.kind === 'custom' && (
+            <div className="lg:col-span-2 space-y-5">
+              <div>
+                <div className={sectionTitle}>Arms</div>
+                <div className="flex flex-wrap gap-3">
+                  {arms.map(arm => (
+                    <label key={arm.name} className="flex items-center gap-1.5 text-xs text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!population.excludedArms.includes(arm.name)}
+                        onChange={() => toggleArm(arm.name)}
+                        className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: arm.color }} />
+                      {arm.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <div className={sectionTitle}>Covariate Rules</div>
+                <div className="space-y-2">
+                  {population.covariateRules.map((rule, i) => {
+                    const info = covariates.find(c => c.key === rule.key);
+                    return (
+                      <div key={rule.key} className="flex flex-wrap items-center gap-2 text-xs">
+                        <span className="font-medium text-slate-700 min-w-[110px]">
+                          {info?.label ?? rule.key}{info?.unit ? <span className="font-normal text-slate-400"> ({info.unit})</span> : null}
+                        </span>
+                        {rule.levels ? (
+                          (info?.levels ?? rule.levels).map(level => (
+                            <button
+                              key={level}
+                              onClick={() => toggleLevel(i, level)}
+                              className={`px-2 py-0.5 rounded-full border transition-colors ${rule.levels!.includes(level) ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-400 line-through'}`}
+                            >
+                              {level}
+                            </button>
+                          ))
+                        ) : (
+                          <>
+                            <BoundInput value={rule.min} placeholder="min" onChange={min => updateCovariateRule(i, { min })} />
+                            <span className="text-slate-400">to</span>
+                            <BoundInput value={rule.max} placeholder="max" onChange={max => updateCovariateRule(i, { max })} />
+                          </>
+                        )}
+                        <button
+                          onClick={() => update({ covariateRules: population.covariateRules.filter((_, j) => j !== i) })}
+                          className="p-0.5 text-slate-400 hover:text-slate-600 rounded-full transition-colors"
+                          title="Remove rule"
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                    );
+                  })}
+                  {unusedCovariates.length > 0 ? (
+                    <div className="flex items-center gap-1.5">
+                      <Plus size={12} className="text-slate-400" />
+                      <select value="" onChange={(e) => addCovariateRule(e.target.value)} className={addSelect}>
+                        <option value="" disabled>Add covariate rule…</option>
+                        {unusedCovariates.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
+                      </select>
+                    </div>
+                  ) : covariates.length === 0 && (
+                    <p className="text-xs text-slate-400">No patient covariates in this cohort.</p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <div className={sectionTitle}>Baseline Ranges</div>
+                <div className="space-y-2">
+                  {population.baselineRules.map((rule, i) => {
+                    const bio = biomarkers.find(b => b.id === rule.biomarkerId);
+                    return (
+                      <div key={rule.biomarkerId} className="flex flex-wrap items-center gap-2 text-xs">
+                        <span className="font-medium text-slate-700 min-w-[110px]">
+                          {bio?.name ?? rule.biomarkerId}{bio?.unit ? <span className="font-normal text-slate-400"> ({bio.unit})</span> : null}
+                        </span>
+                        <BoundInput value={rule.min} placeholder="min" onChange={min => updateBaselineRule(i, { min })} />
+                        <span className="text-slate-400">to</span>
+                        <BoundInput value={rule.max} placeholder="max" onChange={max => updateBaselineRule(i, { max })} />
+                        <button
+                          onClick={() => update({ baselineRules: population.baselineRules.filter((_, j) => j !== i) })}
+                          className="p-0.5 text-slate-400 hover:text-slate-600 rounded-full transition-colors"
+                          title="Remove rule"
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                    );
+                  })}
+                  {unusedBiomarkers.length > 0 && (
+                    <div className="flex items-center gap-1.5">
+                      <Plus size={12} className="text-slate-400" />
+                      <select value="" onChange={(e) => update({ baselineRules: [...population.baselineRules, { biomarkerId: e.target.value }] })} className={addSelect}>
+                        <option value="" disabled>Add baseline range…</option>
+                        {unusedBiomarkers.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className={population.kind === 'custom' ? '' : 'lg:col-span-3'}>
+            <div className={sectionTitle}>Excluded Patients</div>
+            <textarea
+              value={idText}
+              onChange={(e) => handleIdTextChange(e.target.value)}
+              placeholder="Patient IDs separated by commas, spaces or new lines"
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg h-24 resize-none focus:ring-2 focus:ring-indigo-500 outline-none text-xs font-mono"
+            />
+            {result.unknownPatientIds.length > 0 && (
+              <p className="mt-1 text-[10px] text-amber-600">
+                Not in this cohort: {result.unknownPatientIds.slice(0, 10).join(', ')}{result.unknownPatientIds.length > 10 ? ` and ${result.unknownPatientIds.length - 10} more` : ''}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {exclusions.length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500">
+          {exclusions.map(r => (
+            <span key={r}>{EXCLUSION_REASON_LABELS[r]}: <span className="font-mono text-slate-700">{result.excluded[r]}</span></span>
+          ))}
+        </div>
+      )}
+      {population.kind !== 'itt' && result.data.length === 0 && data.length > 0 && (
+        <p className="mt-3 text-xs text-amber-600">No patients meet these rules; every chart and export below is empty.</p>
+      )}
+      {population.kind === 'per_protocol' && !finalVisit && (
+        <p className="mt-3 text-[10px] text-slate-400">No follow-up visits in this study; only listed patients are excluded.</p>
+      )}
+      <p className="mt-3 text-[10px] text-slate-400">
+        The population applies to every chart, table and export on the dashboard. Patients without a value fail any covariate or
+        baseline rule that constrains it; each excluded patient is counted under the first rule it fails.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { ClipboardList, Download } from 'lucide-react';
+import { ArmDef, BiomarkerDef, PatientData, VisitDef } from '../types';
+import { getBaselineVisit } from '../services/visitSchedule';
+import { getControlArm } from '../services/studyArms';
+import { analytics } from '../services/analytics';
+import { downloadCSV, ExportMetadata } from '../services/export';
+import { buildBaselineTable, ContinuousSummary, SMD_IMBALANCE_THRESHOLD } from '../services/baselineTable';
+
+interface BaselineCharacteristicsProps {
+  data: PatientData[];
+  arms: ArmDef[];
+  visits: VisitDef[];
+  biomarkers: BiomarkerDef[];
+  exportMeta?: ExportMetadata;
+}
+
+// Fewer decimals for larger magnitudes (age 54.3, hs-CRP 3.47, GSH 812)
+const formatValue = (v: number): string => {
+  const abs = Math.abs(v);
+  return v.toFixed(abs >= 100 ? 0 : abs >= 10 ? 1 : 2);
+};
+
+const formatMeanSd = (s?: ContinuousSummary) => (s ? `${formatValue(s.mean)} (${formatValue(s.sd)})` : '—');
+const formatMedianIqr = (s?: ContinuousSummary) => (s ? `${formatValue(s.median)} [${formatValue(s.q1)}, ${formatValue(s.q3)}]` : '—');
+const formatCount = (count: number, n: number) => (n > 0 ? `${count} (${((count / n) * 100).toFixed(1)}%)` : '—');
+const formatSmd = (smd?: number) => (smd === undefined ? '' : smd.toFixed(3));
+
+export const BaselineCharacteristics: React.FC<BaselineCharacteristicsProps> = ({ data, arms, visits, biomarkers, exportMeta }) => {
+  const [includeBiomarkers, setIncludeBiomarkers] = useState(false);
+  const referenceArm = getControlArm(arms)?.name ?? arms[0]?.name ?? '';
+
+  const table = useMemo(() => buildBaselineTable(
+    data,
+    arms.map(a => a.name),
+    referenceArm,
+    biomarkers,
+    includeBiomarkers ? getBaselineVisit(visits).label : undefined
+  ), [data, arms, referenceArm, biomarkers, includeBiomarkers, visits]);
+
+  const comparedArms = table.arms.filter(a => a !== referenceArm);
+  const smdCell = (smd: number | undefined, key: string) => (
+    <td key={key} className={`py-2 px-3 text-right font-mono ${smd !== undefined && Math.abs(smd) > SMD_IMBALANCE_THRESHOLD ? 'text-amber-600 font-semibold' : 'text-slate-500'}`}>
+      {formatSmd(smd)}
+    </td>
+  );
+
+  const handleExportCSV = () => {
+    analytics.logEvent('DATA_EXPORT', { type: 'CSV', view: 'baseline_characteristics' });
+    const rows: (string | number)[][] = [[
+      'Characteristic', 'Statistic',
+      ...table.arms.map((a, i) => `${a} (N = ${table.armSizes[i]})`),
+      ...comparedArms.map(a => `SMD ${a} vs ${referenceArm}`)
+    ]];
+    const smdValues = (smd: (number | undefined)[]) => smd
+      .filter((_, i) => table.arms[i] !== referenceArm)
+      .map(v => (v === undefined ? '' : v.toFixed(4)));
+    const blanks = comparedArms.map(() => '');
+    table.rows.forEach(row => {
+      const label = row.type === 'numeric' && row.unit ? `${row.label} (${row.unit})` : row.label;
+      if (row.type === 'numeric') {
+        rows.push([label, 'Mean (SD)', ...row.summaries.map(formatMeanSd), ...smdValues(row.smd)]);
+        rows.push([label, 'Median [Q1, Q3]', ...row.summaries.map(formatMedianIqr), ...blanks]);
+      } else {
+        row.levels.forEach((level, l) => rows.push([
+          label, `${level}, n (%)`, ...row.counts.map((c, a) => formatCount(c[l], row.n[a])), ...(l === 0 ? smdValues(row.smd) : blanks)
+        ]));
+      }
+      if (row.missing.some(m => m > 0)) rows.push([label, 'Missing', ...row.missing, ...blanks]);
+    });
+    downloadCSV('baseline_characteristics.csv', rows, {
+      ...exportMeta,
+      Analysis: `Standardized mean differences vs ${referenceArm} (multinomial SMD for categorical characteristics); |SMD| > ${SMD_IMBALANCE_THRESHOLD} flagged`
+    });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 mt-6">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+          <ClipboardList size={18} className="text-indigo-600" />
+          Baseline Characteristics
+        </h3>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeBiomarkers}
+              onChange={(e) => setIncludeBiomarkers(e.target.checked)}
+              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Include baseline biomarkers
+          </label>
+          <button
+            onClick={handleExportCSV}
+            disabled={table.rows.length === 0}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-md hover:bg-slate-50 hover:text-slate-900 transition-colors shadow-sm whitespace-nowrap disabled:opacity-50"
+            title="Export baseline characteristics to CSV"
+          >
+            <Download size={16} />
+            <span className="hidden sm:inline">Export CSV</span>
+          </button>
+        </div>
+      </div>
+
+      {table.rows.length === 0 ? (
+        <p className="text-sm text-slate-500 py-6 text-center">
+          No patient covariates in this cohort. Add covariate columns (age, sex, bmi, site, ...) to the upload or enable simulated covariates.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-slate-200 text-slate-500">
+                <th className="py-2 pr-3 text-left font-medium">Characteristic</th>
+                {table.arms.map((a, i) => (
+                  <th key={a} className="py-2 px-3 text-right font-medium text-slate-700 whitespace-nowrap">
+                    {a}
+                    <span className="block text-[10px] font-normal text-slate-400">N = {table.armSizes[i]}{a === referenceArm ? ' · Reference' : ''}</span>
+                  </th>
+                ))}
+                {comparedArms.map(a => (
+                  <th key={`smd:${a}`} className="py-2 px-3 text-right font-medium whitespace-nowrap">
+                    SMD
+                    <span className="block text-[10px] font-normal text-slate-400">{a}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map(row => {
+                const smd = row.smd.filter((_, i) => table.arms[i] !== referenceArm);
+                const missingRow = row.missing.some(m => m > 0) && (
+                  <tr className="text-slate-400">
+                    <td className="py-1 pl-4 pr-3">Missing</td>
+                    {row.missing.map((m, i) => <td key={i} className="py-1 px-3 text-right font-mono">{m}</td>)}
+                    {comparedArms.map(a => <td key={a}></td>)}
+                  </tr>
+                );
+                if (row.type === 'numeric') {
+                  return (
+                    <React.Fragment key={row.key}>
+                      <tr className="border-t border-slate-100">
+                        <td className="pt-2 pb-1 pr-3 font-medium text-slate-700 whitespace-nowrap">
+                          {row.label}{row.unit ? <span className="font-normal text-slate-400"> ({row.unit})</span> : null}
+                          <span className="block pl-4 font-normal text-slate-500">Mean (SD)</span>
+                        </td>
+                        {row.summaries.map((s, i) => <td key={i} className="pt-2 pb-1 px-3 text-right align-bottom font-mono text-slate-700 whitespace-nowrap">{formatMeanSd(s)}</td>)}
+                        {smd.map((v, i) => smdCell(v, `smd${i}`))}
+                      </tr>
+                      <tr>
+                        <td className="py-1 pl-4 pr-3 text-slate-500">Median [Q1, Q3]</td>
+                        {row.summaries.map((s, i) => <td key={i} className="py-1 px-3 text-right font-mono text-slate-700 whitespace-nowrap">{formatMedianIqr(s)}</td>)}
+                        {comparedArms.map(a => <td key={a}></td>)}
+                      </tr>
+                      {missingRow}
+                    </React.Fragment>
+                  );
+                }
+                return (
+                  <React.Fragment key={row.key}>
+                    <tr className="border-t border-slate-100">
+                      <td className="pt-2 pb-1 pr-3 font-medium text-slate-700">{row.label}, n (%)</td>
+                      {table.arms.map(a => <td key={a}></td>)}
+                      {smd.map((v, i) => smdCell(v, `smd${i}`))}
+                    </tr>
+                    {row.levels.map((level, l) => (
+                      <tr key={level}>
+                        <td className="py-1 pl-4 pr-3 text-slate-600">{level}</td>
+                        {row.counts.map((c, a) => <td key={a} className="py-1 px-3 text-right font-mono text-slate-700 whitespace-nowrap">{formatCount(c[l], row.n[a])}</td>)}
+                        {comparedArms.map(a => <td key={a}></td>)}
+                      </tr>
+                    ))}
+                    {missingRow}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="mt-3 text-[10px] text-slate-400">
+        Standardized mean differences vs {referenceArm}: difference in means over the pooled SD for continuous characteristics, multinomial SMD for categorical ones.
+        |SMD| &gt; {SMD_IMBALANCE_THRESHOLD} (highlighted) suggests imbalance between arms.
+      </p>
+    </div>
+  );
+};
@@ -1,37 +1,95 @@
 
-import React, { useMemo } from 'react';
-import { Arm, BiomarkerDef, PatientData, Timepoint } from '../types';
+import React, { useMemo, useState } from 'react';
+import { Arm, ArmDef, BiomarkerDef, PatientData, VisitDef } from '../types';
+import { getFinalVisit } from '../services/visitSchedule';
+import { getDistribution, isMultiplicative, summarizePercentChange } from '../services/distributions';
+import { getControlArm } from '../services/studyArms';
+import { adjustPValues, formatPValue, MULTIPLICITY_LABELS, MultiplicityMethod, significanceStars, welchTTest } from '../services/statistics';
 
 interface BiomarkerOverviewProps {
   data: PatientData[];
+  arms: ArmDef[];
+  visits: VisitDef[];
   biomarkers: BiomarkerDef[];
 }
 
-export const BiomarkerOverview: React.FC<BiomarkerOverviewProps> = ({ data, biomarkers }) => {
+interface CellTest {
+  pValue: number;
+  qValue: number;
+}
+
+const SIGNIFICANCE_LEVEL = 0.05;
+
+export const BiomarkerOverview: React.FC<BiomarkerOverviewProps> = ({ data, arms, visits, biomarkers }) => {
+  const [adjustment, setAdjustment] = useState<MultiplicityMethod>('bh');
+  const [hideNonSignificant, setHideNonSignificant] = useState(false);
+
+  const finalVisit = getFinalVisit(visits)?.label;
+  const controlArm = getControlArm(arms)?.name;
 
-  // Calculate mean % change at Week 24 for each biomarker/arm
+  // Calculate mean % change at the final scheduled visit for each biomarker/arm
   const summary = useMemo(() => {
     const res: Record<string, Record<Arm, number>> = {};
     
     biomarkers.forEach(bio => {
-      res[bio.id] = { [Arm.PLACEBO]: 0, [Arm.DRUG_1MG]: 0, [Arm.DRUG_2MG]: 0 };
+      res[bio.id] = {};
       
-      Object.values(Arm).forEach(arm => {
+      arms.forEach(({ name: arm }) => {
+        res[bio.id][arm] = 0;
         const values: number[] = [];
         data.forEach(p => {
           if (p.arm === arm) {
-            const m = p.measurements.find(meas => meas.biomarkerId === bio.id && meas.timepoint === Timepoint.WEEK_24);
+            const m = p.measurements.find(meas => meas.biomarkerId === bio.id && meas.timepoint === finalVisit);
             if (m && m.percentChange !== undefined) values.push(m.percentChange);
           }
         });
         
-        if (values.length) {
-          res[bio.id][arm] = values.reduce((a, b) => a + b, 0) / values.length;
+        // Geometric mean % change for skewed markers
+        const summary = summarizePercentChange(values, getDistribution(bio));
+        if (summary) {
+          res[bio.id][arm] = summary.mean;
         }
       });
     });
     return res;
-  }, [data, biomarkers]);
+  }, [data, arms, finalVisit, biomarkers]);
+
+  // Welch t-test of each active arm vs control per biomarker (log ratio for skewed markers),
+  // adjusted across the whole panel: every biomarker × active arm cell is one hypothesis
+  const tests = useMemo(() => {
+    const res = new Map<string, CellTest>();
+    if (!controlArm) return res;
+
+    const valuesFor = (bio: BiomarkerDef, arm: Arm) => {
+      const logScale = isMultiplicative(getDistribution(bio));
+      const values: number[] = [];
+      data.forEach(p => {
+        if (p.arm !== arm) return;
+        const m = p.measurements.find(meas => meas.biomarkerId === bio.id && meas.timepoint === finalVisit);
+        if (m?.percentChange === undefined) return;
+        if (!logScale) values.push(m.percentChange);
+        else if (m.percentChange > -100) values.push(Math.log(1 + m.percentChange / 100));
+      });
+      return values;
+    };
+
+    const keys: string[] = [];
+    const pValues: number[] = [];
+    biomarkers.forEach(bio => {
+      const control = valuesFor(bio, controlArm);
+      arms.forEach(({ name: arm }) => {
+        if (arm === controlArm) return;
+        const test = welchTTest(valuesFor(bio, arm), control);
+        if (!test) return;
+        keys.push(`${bio.id}|${arm}`);
+        pValues.push(test.pValue);
+      });
+    });
+
+    const qValues = adjustPValues(pValues, adjustment);
+    keys.forEach((key, i) => res.set(key, { pValue: pValues[i], qValue: qValues[i] }));
+    return res;
+  }, [data, arms, finalVisit, biomarkers, controlArm, adjustment]);
 
   const getColor = (val: number, direction: string) => {
     // If lower is better: negative values are good (Green), positive are bad (Red)
@@ -47,15 +105,43 @@ export const BiomarkerOverview: React.FC<BiomarkerOverviewProps> = ({ data, biom
 
   return (
     <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 overflow-hidden">
-      <h3 className="text-lg font-semibold text-slate-800 mb-6">Week 24: Efficacy Heatmap (Mean % Change)</h3>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-6">
+        <h3 className="text-lg font-semibold text-slate-800">{finalVisit ?? 'End of Study'}: Efficacy Heatmap (Mean % Change)</h3>
+        {controlArm && (
+          <div className="flex items-center gap-3 text-xs text-slate-600">
+            <select
+              value={adjustment}
+              onChange={(e) => setAdjustment(e.target.value as MultiplicityMethod)}
+              className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none"
+              title="Multiplicity adjustment across all biomarkers and arms"
+            >
+              {(Object.keys(MULTIPLICITY_LABELS) as MultiplicityMethod[]).map(m => (
+                <option key={m} value={m}>{MULTIPLICITY_LABELS[m]}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={hideNonSignificant}
+                onChange={(e) => setHideNonSignificant(e.target.checked)}
+                className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Hide non-significant
+            </label>
+          </div>
+        )}
+      </div>
       <div className="overflow-x-auto">
         <table className="w-full text-sm text-left">
           <thead>
             <tr className="border-b border-slate-100">
               <th className="py-3 px-4 text-slate-500 font-medium">Biomarker</th>
               <th className="py-3 px-4 text-slate-500 font-medium text-center">Category</th>
-              {Object.values(Arm).map(arm => (
-                <th key={arm} className="py-3 px-4 font-medium text-center text-slate-700">{arm}</th>
+              {arms.map(({ name: arm }) => (
+                <th key={arm} className="py-3 px-4 font-medium text-center text-slate-700">
+                  {arm}
+                  {arm === controlArm && <span className="block text-[10px] font-normal text-slate-400">Reference</span>}
+                </th>
               ))}
             </tr>
           </thead>
@@ -68,15 +154,30 @@ export const BiomarkerOverview: React.FC<BiomarkerOverviewProps> = ({ data, biom
                     {bio.category}
                   </span>
                 </td>
-                {Object.values(Arm).map(arm => {
+                {arms.map(({ name: arm }) => {
                   const val = summary[bio.id]?.[arm] || 0;
+                  const test = tests.get(`${bio.id}|${arm}`);
+                  const isTested = controlArm !== undefined && arm !== controlArm;
+                  const significant = test !== undefined && test.qValue < SIGNIFICANCE_LEVEL;
+                  const title = test
+                    ? `p = ${formatPValue(test.pValue)}, adjusted p = ${formatPValue(test.qValue)} (${MULTIPLICITY_LABELS[adjustment]})`
+                    : undefined;
+                  if (hideNonSignificant && isTested && !significant) {
+                    return (
+                      <td key={arm} className="py-2 px-2">
+                        <div className="py-2 px-3 rounded-md text-center text-xs text-slate-300 bg-slate-50" title={title}>n.s.</div>
+                      </td>
+                    );
+                  }
                   return (
                     <td key={arm} className="py-2 px-2">
                       <div 
                         className="py-2 px-3 rounded-md text-center font-medium text-slate-900 shadow-sm"
                         style={{ backgroundColor: getColor(val, bio.direction) }}
+                        title={title}
                       >
                         {val > 0 ? '+' : ''}{val.toFixed(1)}%
+                        {test && <sup className="ml-0.5 text-[10px] font-bold">{significanceStars(test.qValue)}</sup>}
                       </div>
                     </td>
                   );
@@ -86,7 +187,12 @@ export const BiomarkerOverview: React.FC<BiomarkerOverviewProps> = ({ data, biom
           </tbody>
         </table>
       </div>
-      <div className="mt-4 text-xs text-slate-400 flex gap-4 justify-end">
+      <div className="mt-4 text-xs text-slate-400 flex flex-wrap gap-4 justify-end">
+        {controlArm && (
+          <span className="mr-auto">
+            Welch t-test vs {controlArm} (log ratio for skewed markers); {adjustment === 'none' ? 'unadjusted p-values' : `${MULTIPLICITY_LABELS[adjustment]} adjusted p-values`} across {tests.size} comparisons: * &lt;0.05, ** &lt;0.01, *** &lt;0.001
+          </span>
+        )}
         <span className="flex items-center gap-1"><div className="w-3 h-3 bg-green-200 rounded"></div> Improvement</span>
         <span className="flex items-center gap-1"><div className="w-3 h-3 bg-red-200 rounded"></div> Worsening</span>
       </div>
@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { BiomarkerDef, PatientData } from '../types';
+import { CENSORING_RULE_LABELS, CensoringRule, summarizeCensoring } from '../services/censoring';
+
+interface CensoringSummaryProps {
+  data: PatientData[]; // Raw data, before the censoring rule is applied
+  biomarkers: BiomarkerDef[];
+  rule: CensoringRule;
+  onRuleChange: (rule: CensoringRule) => void;
+}
+
+const formatCount = (n: number, total: number) => (n ? `${n} (${((n / total) * 100).toFixed(1)}%)` : '—');
+
+export const CensoringSummary: React.FC<CensoringSummaryProps> = ({ data, biomarkers, rule, onRuleChange }) => {
+  const rows = useMemo(() => summarizeCensoring(data, biomarkers), [data, biomarkers]);
+  const nameOf = (id: string) => biomarkers.find(b => b.id === id)?.name ?? id;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 mt-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="text-amber-500" size={18} />
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Assay Quantification Limits</h3>
+            <p className="text-xs text-slate-500">Results below LLOQ or above ULOQ, and how they enter the analyses.</p>
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+          Censored values
+          <select
+            value={rule}
+            onChange={(e) => onRuleChange(e.target.value as CensoringRule)}
+            className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none"
+          >
+            {(Object.keys(CENSORING_RULE_LABELS) as CensoringRule[]).map(r => (
+              <option key={r} value={r}>{CENSORING_RULE_LABELS[r]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr className="border-b border-slate-100 text-slate-500">
+              <th className="py-2 px-4 font-medium">Biomarker</th>
+              <th className="py-2 px-4 font-medium text-right">LLOQ</th>
+              <th className="py-2 px-4 font-medium text-right">ULOQ</th>
+              <th className="py-2 px-4 font-medium text-right">Samples</th>
+              <th className="py-2 px-4 font-medium text-right">&lt; LLOQ</th>
+              <th className="py-2 px-4 font-medium text-right">&gt; ULOQ</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.biomarkerId} className={`border-b border-slate-50 ${row.below || row.above ? '' : 'text-slate-400'}`}>
+                <td className="py-2 px-4 font-medium">{nameOf(row.biomarkerId)}</td>
+                <td className="py-2 px-4 text-right font-mono">{row.lloq ?? '—'}</td>
+                <td className="py-2 px-4 text-right font-mono">{row.uloq ?? '—'}</td>
+                <td className="py-2 px-4 text-right font-mono">{row.samples}</td>
+                <td className="py-2 px-4 text-right font-mono">{formatCount(row.below, row.samples)}</td>
+                <td className="py-2 px-4 text-right font-mono">{formatCount(row.above, row.samples)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-3 text-[10px] text-slate-400">
+        LLOQ/2 and LLOQ/√2 substitute a fixed value (above-ULOQ results keep the limit). Tobit imputation fits a censored
+        normal per biomarker, arm and visit (log scale for skewed markers) and imputes each censored result with its conditional mean.
+        Imputed values are then analyzed as if measured, so standard errors, confidence intervals and p-values are too small.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  ZAxis
+} from 'recharts';
+import { Grid3X3, X } from 'lucide-react';
+import { ArmDef, BiomarkerDef, PatientData, VisitDef } from '../types';
+import { getBaselineVisit, getFinalVisit, getFollowUpVisits } from '../services/visitSchedule';
+import { hashString } from '../services/random';
+import { formatPValue } from '../services/statistics';
+import {
+  clusterOrder,
+  completePairs,
+  computeCorrelationMatrix,
+  CORRELATION_METHOD_LABELS,
+  CorrelationMethod,
+  extractBiomarkerValues,
+  fitLine
+} from '../services/correlation';
+
+interface CorrelationExplorerProps {
+  data: PatientData[];
+  arms: ArmDef[];
+  visits: VisitDef[];
+  biomarkers: BiomarkerDef[];
+}
+
+type ValueSource = 'baseline' | 'change' | 'percent_change';
+
+const VALUE_SOURCE_LABELS: Record<ValueSource, string> = {
+  baseline: 'Baseline values',
+  change: 'Change from baseline',
+  percent_change: '% Change from baseline',
+};
+
+const MAX_SCATTER_POINTS = 2000;
+
+// Diverging scale: red for positive, blue for negative correlation
+const correlationColor = (r: number) => r >= 0
+  ? `rgba(239, 68, 68, ${0.1 + 0.8 * r})`
+  : `rgba(59, 130, 246, ${0.1 + 0.8 * -r})`;
+
+export const CorrelationExplorer: React.FC<CorrelationExplorerProps> = ({ data, arms, visits, biomarkers }) => {
+  const [method, setMethod] = useState<CorrelationMethod>('spearman');
+  const [source, setSource] = useState<ValueSource>('baseline');
+  const [visit, setVisit] = useState<string>(() => getFinalVisit(visits)?.label ?? '');
+  const [armFilter, setArmFilter] = useState<string>('all');
+  const [clustered, setClustered] = useState(true);
+  const [selected, setSelected] = useState<[string, string] | null>(null);
+
+  const followUpVisits = useMemo(() => getFollowUpVisits(visits), [visits]);
+  const activeVisit = followUpVisits.some(v => v.label === visit) ? visit : getFinalVisit(visits)?.label ?? '';
+
+  const patients = useMemo(() => data.filter(p => armFilter === 'all' || p.arm === armFilter), [data, armFilter]);
+
+  const values = useMemo(() => extractBiomarkerValues(
+    patients,
+    biomarkers,
+    source === 'baseline' ? 'baseline' : 'change',
+    getBaselineVisit(visits).label,
+    activeVisit,
+    source === 'percent_change'
+  ), [patients, biomarkers, source, visits, activeVisit]);
+
+  const matrix = useMemo(() => computeCorrelationMatrix(values, biomarkers.map(b => b.id), method), [values, biomarkers, method]);
+  const order = useMemo(
+    () => (clustered ? clusterOrder(matrix) : biomarkers.map((_, i) => i)),
+    [matrix, clustered, biomarkers]
+  );
+
+  const nameOf = (id: string) => biomarkers.find(b => b.id === id)?.name ?? id;
+  const unitOf = (id: string) => {
+    const b = biomarkers.find(x => x.id === id);
+    if (!b) return '';
+    return source === 'percent_change' ? '%' : b.unit;
+  };
+
+  // Scatter of the selected pair with its least-squares line
+  const scatter = useMemo(() => {
+    if (!selected) return undefined;
+    const [a, b] = selected;
+    const x = values.get(a);
+    const y = values.get(b);
+    if (!x || !y) return undefined;
+    const { xs, ys, index } = completePairs(x, y);
+    const points = index.map((pi, k) => ({ x: xs[k], y: ys[k], arm: patients[pi].arm, patientId: patients[pi].patientId }));
+    const shown = points.length <= MAX_SCATTER_POINTS
+      ? points
+      : points.filter(p => hashString(`${p.patientId}:display`) % points.length < MAX_SCATTER_POINTS);
+    const line = fitLine(xs, ys);
+    const xMin = Math.min(...xs);
+    const xMax = Math.max(...xs);
+    const i = matrix.biomarkerIds.indexOf(a);
+    const j = matrix.biomarkerIds.indexOf(b);
+    return {
+      points: shown,
+      total: points.length,
+      segment: line && xs.length > 0
+        ? [{ x: xMin, y: line.intercept + line.slope * xMin }, { x: xMax, y: line.intercept + line.slope * xMax }]
+        : undefined,
+      slope: line?.slope,
+      estimate: matrix.estimates[i]?.[j],
+    };
+  }, [selected, values, patients, matrix]);
+
+  const sourceLabel = source === 'baseline' ? 'baseline values' : `${VALUE_SOURCE_LABELS[source].toLowerCase()} at ${activeVisit}`;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 mt-6">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+          <Grid3X3 size={18} className="text-indigo-600" />
+          Biomarker Correlations
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+          <select value={method} onChange={(e) => setMethod(e.target.value as CorrelationMethod)} className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none">
+            {(Object.keys(CORRELATION_METHOD_LABELS) as CorrelationMethod[]).map(m => (
+              <option key={m} value={m}>{CORRELATION_METHOD_LABELS[m]}</option>
+            ))}
+          </select>
+          <select value={source} onChange={(e) => setSource(e.target.value as ValueSource)} className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none">
+            {(Object.keys(VALUE_SOURCE_LABELS) as ValueSource[]).map(s => (
+              <option key={s} value={s}>{VALUE_SOURCE_LABELS[s]}</option>
+            ))}
+          </select>
+          {source !== 'baseline' && (
+            <select value={activeVisit} onChange={(e) => setVisit(e.target.value)} className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none">
+              {followUpVisits.map(v => <option key={v.label} value={v.label}>{v.label}</option>)}
+            </select>
+          )}
+          <select value={armFilter} onChange={(e) => setArmFilter(e.target.value)} className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none">
+            <option value="all">All arms (pooled)</option>
+            {arms.map(a => <option key={a.name} value={a.name}>Within {a.name}</option>)}
+          </select>
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={clustered}
+              onChange={(e) => setClustered(e.target.checked)}
+              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Cluster
+          </label>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+          <thead>
+            <tr>
+              <th></th>
+              {order.map(j => (
+                <th key={j} className="px-1 py-2 font-medium text-slate-600 text-center align-bottom max-w-[80px] truncate" title={nameOf(matrix.biomarkerIds[j])}>
+                  {nameOf(matrix.biomarkerIds[j])}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {order.map(i => (
+              <tr key={i}>
+                <td className="pr-3 py-1 font-medium text-slate-700 whitespace-nowrap">{nameOf(matrix.biomarkerIds[i])}</td>
+                {order.map(j => {
+                  const est = matrix.estimates[i][j];
+                  const a = matrix.biomarkerIds[i];
+                  const b = matrix.biomarkerIds[j];
+                  const isSelected = selected !== null && selected[0] === a && selected[1] === b;
+                  return (
+                    <td key={j} className="p-0">
+                      <button
+                        disabled={i === j || !est}
+                        onClick={() => setSelected([a, b])}
+                        className={`w-16 h-9 rounded font-mono text-slate-900 transition-shadow ${i === j || !est ? 'cursor-default' : 'hover:ring-2 hover:ring-indigo-300'} ${isSelected ? 'ring-2 ring-indigo-600' : ''}`}
+                        style={{ backgroundColor: est ? correlationColor(est.r) : '#f1f5f9' }}
+                        title={est ? `${nameOf(a)} vs ${nameOf(b)}: r = ${est.r.toFixed(3)}, n = ${est.n}, p = ${formatPValue(est.pValue)}` : 'Too few complete pairs'}
+                      >
+                        {est ? est.r.toFixed(2) : '—'}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-[10px] text-slate-400">
+        {CORRELATION_METHOD_LABELS[method]} correlation of {sourceLabel}, {armFilter === 'all' ? 'all arms pooled' : `within ${armFilter}`}; pairwise-complete patients.
+        {clustered && ' Ordered by average-linkage clustering on 1 − r.'} Click a cell to explore the pair.
+      </p>
+
+      {selected && scatter && (
+        <div className="mt-6 pt-6 border-t border-slate-100">
+          <div className="flex justify-between items-start mb-2">
+            <div>
+              <h4 className="font-semibold text-slate-800">{nameOf(selected[0])} vs {nameOf(selected[1])}</h4>
+              <p className="text-xs text-slate-500">
+                {scatter.estimate && `r = ${scatter.estimate.r.toFixed(3)} (n = ${scatter.estimate.n}, p = ${formatPValue(scatter.estimate.pValue)})`}
+                {scatter.slope !== undefined && ` · slope ${scatter.slope.toPrecision(3)}`}
+                {scatter.points.length < scatter.total && ` · showing ${scatter.points.length.toLocaleString()} of ${scatter.total.toLocaleString()} patients`}
+              </p>
+            </div>
+            <button onClick={() => setSelected(null)} className="text-slate-400 hover:text-slate-600 transition-colors" title="Close scatter">
+              <X size={18} />
+            </button>
+          </div>
+          <div className="h-[320px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis type="number" dataKey="x" name={nameOf(selected[0])} domain={['auto', 'auto']} stroke="#64748b" fontSize={12}
+                  label={{ value: `${nameOf(selected[0])} (${unitOf(selected[0])})`, position: 'insideBottom', offset: -10 }} />
+                <YAxis type="number" dataKey="y" name={nameOf(selected[1])} domain={['auto', 'auto']} stroke="#64748b" fontSize={12}
+                  label={{ value: `${nameOf(selected[1])} (${unitOf(selected[1])})`, angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }} />
+                <ZAxis range={[20, 20]} />
+                <Tooltip
+                  cursor={{ strokeDasharray: '3 3' }}
+                  content={({ active, payload }) => {
+                    if (active && payload && payload.length) {
+                      const d = payload[0].payload;
+                      return (
+                        <div className="bg-white p-2 border border-slate-200 rounded shadow text-sm">
+                          <p><strong>{d.patientId}</strong></p>
+                          <p>{d.arm}</p>
+                          <p>{Number(d.x).toFixed(2)}, {Number(d.y).toFixed(2)}</p>
+                        </div>
+                      );
+                    }
+                    return null;
+                  }}
+                />
+                {arms.map(({ name: arm, color }) => (
+                  <Scatter key={arm} name={arm} data={scatter.points.filter(p => p.arm === arm)} fill={color} fillOpacity={0.6} isAnimationActive={false} />
+                ))}
+                {scatter.segment && <ReferenceLine segment={scatter.segment} stroke="#0f172a" strokeWidth={2} ifOverflow="extendDomain" />}
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { Link2, Plus, X, AlertTriangle } from 'lucide-react';
+import { BiomarkerDef } from '../types';
+import { buildCorrelationMatrix, correlationFactor, CorrelationConfig, getPairCorrelation, pairKey } from '../services/multivariate';
+
+interface CorrelationSettingsProps {
+  biomarkers: BiomarkerDef[];
+  correlation: CorrelationConfig;
+  onChange: (correlation: CorrelationConfig) => void;
+}
+
+export const CorrelationSettings: React.FC<CorrelationSettingsProps> = ({ biomarkers, correlation, onChange }) => {
+  const [pairA, setPairA] = useState(biomarkers[0]?.id ?? '');
+  const [pairB, setPairB] = useState(biomarkers[1]?.id ?? '');
+  const [pairValue, setPairValue] = useState('0.5');
+
+  // Inconsistent hand-edited pairs are shrunk toward independence by the simulator
+  const shrinkage = useMemo(
+    () => correlationFactor(buildCorrelationMatrix(biomarkers, correlation)).shrinkage,
+    [biomarkers, correlation]
+  );
+
+  const nameOf = (id: string) => biomarkers.find(b => b.id === id)?.name ?? id;
+  const bioA = biomarkers.find(b => b.id === pairA);
+  const bioB = biomarkers.find(b => b.id === pairB);
+  const currentPair = bioA && bioB ? getPairCorrelation(bioA, bioB, correlation) : undefined;
+
+  const addOverride = () => {
+    const r = parseFloat(pairValue);
+    if (!bioA || !bioB || pairA === pairB || isNaN(r) || r < -0.99 || r > 0.99) return;
+    onChange({ ...correlation, pairOverrides: { ...correlation.pairOverrides, [pairKey(pairA, pairB)]: r } });
+  };
+
+  const removeOverride = (key: string) => {
+    const { [key]: _removed, ...rest } = correlation.pairOverrides;
+    onChange({ ...correlation, pairOverrides: rest });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase">
+        <Link2 size={14} /> Biomarker Correlations
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <label className="flex items-center justify-between text-xs font-medium text-slate-600">
+            <span>Within Category</span>
+            <span className="text-indigo-600 font-mono">{correlation.withinCategory.toFixed(2)}</span>
+          </label>
+          <input
+            type="range" min="0" max="0.95" step="0.05"
+            value={correlation.withinCategory}
+            onChange={(e) => onChange({ ...correlation, withinCategory: parseFloat(e.target.value) })}
+            className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+          />
+          <p className="text-[10px] text-slate-400">Default correlation between markers of the same category (e.g. hs-CRP, IL-6, TNF-alpha).</p>
+        </div>
+        <div className="space-y-2">
+          <label className="flex items-center justify-between text-xs font-medium text-slate-600">
+            <span>Between Categories</span>
+            <span className="text-indigo-600 font-mono">{correlation.betweenCategory.toFixed(2)}</span>
+          </label>
+          <input
+            type="range" min="0" max="0.95" step="0.05"
+            value={correlation.betweenCategory}
+            onChange={(e) => onChange({ ...correlation, betweenCategory: parseFloat(e.target.value) })}
+            className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+          />
+          <p className="text-[10px] text-slate-400">Applied to markers in different categories and to custom markers.</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={pairA} onChange={(e) => setPairA(e.target.value)} className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-700 focus:outline-none">
+          {biomarkers.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+        </select>
+        <span className="text-xs text-slate-400">×</span>
+        <select value={pairB} onChange={(e) => setPairB(e.target.value)} className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-700 focus:outline-none">
+          {biomarkers.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+        </select>
+        <input
+          type="number" min="-0.99" max="0.99" step="0.05"
+          value={pairValue}
+          onChange={(e) => setPairValue(e.target.value)}
+          className="w-20 px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-mono text-slate-700 focus:outline-none"
+        />
+        <button
+          onClick={addOverride}
+          disabled={pairA === pairB}
+          className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Plus size={12} /> Set Pair
+        </button>
+        {currentPair !== undefined && pairA !== pairB && (
+          <span className="text-[10px] text-slate-400">Current: {currentPair.toFixed(2)}</span>
+        )}
+      </div>
+
+      {Object.keys(correlation.pairOverrides).length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {(Object.entries(correlation.pairOverrides) as [string, number][]).map(([key, r]) => {
+            const [a, b] = key.split('|');
+            return (
+              <span key={key} className="inline-flex items-center gap-1.5 px-2 py-1 bg-slate-100 text-slate-700 rounded-md text-xs">
+                {nameOf(a)} × {nameOf(b)}: <span className="font-mono">{r.toFixed(2)}</span>
+                <button onClick={() => removeOverride(key)} className="text-slate-400 hover:text-red-500"><X size={12} /></button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      {shrinkage > 0 && (
+        <p className="flex items-center gap-1.5 text-[10px] text-amber-600">
+          <AlertTriangle size={12} />
+          Pair correlations are mutually inconsistent; off-diagonal values are shrunk by {(shrinkage * 100).toFixed(0)}% to obtain a valid correlation matrix.
+        </p>
+      )}
+    </div>
+  );
+};
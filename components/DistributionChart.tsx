@@ -9,37 +9,59 @@ import {
   ResponsiveContainer,
   ZAxis
 } from 'recharts';
-import { Arm, BiomarkerDef, PatientData, Timepoint } from '../types';
-import { ARM_COLORS } from '../constants';
+import { ArmDef, BiomarkerDef, PatientData, Timepoint } from '../types';
+import { hashString } from '../services/random';
+import { formatTraits } from '../services/patientTraits';
 
 interface DistributionChartProps {
   data: PatientData[];
+  arms: ArmDef[];
   biomarker: BiomarkerDef;
   timepoint: Timepoint;
   showPercentChange: boolean;
 }
 
-export const DistributionChart: React.FC<DistributionChartProps> = ({ data, biomarker, timepoint, showPercentChange }) => {
+// Scatter rendering cost grows with every point; large cohorts are thinned for display only
+const MAX_POINTS_PER_ARM = 1500;
+
+export const DistributionChart: React.FC<DistributionChartProps> = ({ data, arms, biomarker, timepoint, showPercentChange }) => {
   
+  const armNames = useMemo(() => arms.map(a => a.name), [arms]);
+
   const chartData = useMemo(() => {
     const result: any[] = [];
     data.forEach(p => {
         const m = p.measurements.find(m => m.biomarkerId === biomarker.id && m.timepoint === timepoint);
-        if (m) {
+        const armIdx = armNames.indexOf(p.arm);
+        const y = showPercentChange ? m?.percentChange : m?.value;
+        if (m && armIdx >= 0 && y !== undefined) {
             // Add slight jitter to X for visualization to avoid perfect overlap
-            const jitter = (Math.random() - 0.5) * 0.4; 
-            const xValue = Object.values(Arm).indexOf(p.arm) + 1 + jitter;
+            // (derived from the patient ID so the plot is identical across renders)
+            const jitter = ((hashString(p.patientId) % 1000) / 1000 - 0.5) * 0.4; 
+            const xValue = armIdx + 1 + jitter;
             
             result.push({
                 arm: p.arm,
                 x: xValue,
-                y: showPercentChange ? m.percentChange : m.value,
-                patientId: p.patientId
+                y,
+                patientId: p.patientId,
+                traits: p.latent ? formatTraits(p.latent) : undefined
             });
         }
     });
     return result;
-  }, [data, biomarker.id, timepoint, showPercentChange]);
+  }, [data, armNames, biomarker.id, timepoint, showPercentChange]);
+
+  // Deterministic per-patient sample (hash of the ID), so the shown subset is stable across renders
+  const plotData = useMemo(() => {
+    const counts = new Map<string, number>();
+    chartData.forEach(d => counts.set(d.arm, (counts.get(d.arm) ?? 0) + 1));
+    return chartData.filter(d => {
+      const n = counts.get(d.arm)!;
+      return n <= MAX_POINTS_PER_ARM || (hashString(`${d.patientId}:display`) % n) < MAX_POINTS_PER_ARM;
+    });
+  }, [chartData]);
+  const isThinned = plotData.length < chartData.length;
 
   const yAxisLabel = showPercentChange ? `% Change at ${timepoint}` : `${biomarker.name} at ${timepoint}`;
 
@@ -47,6 +69,11 @@ export const DistributionChart: React.FC<DistributionChartProps> = ({ data, biom
     <div className="w-full h-[400px] bg-white p-4 rounded-xl shadow-sm border border-slate-200">
       <h3 className="text-lg font-semibold text-slate-800 mb-4">
         Distribution at {timepoint}
+        {isThinned && (
+          <span className="ml-2 text-xs font-normal text-slate-400">
+            showing {plotData.length.toLocaleString()} of {chartData.length.toLocaleString()} patients
+          </span>
+        )}
       </h3>
       <ResponsiveContainer width="100%" height="100%">
         <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
@@ -55,9 +82,9 @@ export const DistributionChart: React.FC<DistributionChartProps> = ({ data, biom
             type="number" 
             dataKey="x" 
             name="Arm" 
-            ticks={[1, 2, 3]}
-            tickFormatter={(val) => Object.values(Arm)[val - 1]}
-            domain={[0.5, 3.5]}
+            ticks={armNames.map((_, idx) => idx + 1)}
+            tickFormatter={(val) => armNames[val - 1] ?? ''}
+            domain={[0.5, armNames.length + 0.5]}
             stroke="#64748b"
           />
           <YAxis 
@@ -78,18 +105,19 @@ export const DistributionChart: React.FC<DistributionChartProps> = ({ data, biom
                             <p><strong>{d.patientId}</strong></p>
                             <p>{d.arm}</p>
                             <p>Val: {Number(d.y).toFixed(2)}</p>
+                            {d.traits && <p className="text-xs text-slate-500">{d.traits}</p>}
                         </div>
                     );
                 }
                 return null;
             }}
           />
-          {Object.values(Arm).map((arm) => (
+          {arms.map(({ name: arm, color }) => (
               <Scatter 
                 key={arm} 
                 name={arm} 
-                data={chartData.filter(d => d.arm === arm)} 
-                fill={ARM_COLORS[arm]} 
+                data={plotData.filter(d => d.arm === arm)} 
+                fill={color} 
                 fillOpacity={0.6}
               />
           ))}
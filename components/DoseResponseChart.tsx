@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ErrorBar,
+  ReferenceLine
+} from 'recharts';
+import { ArmDef, BiomarkerDef, PatientData, Timepoint } from '../types';
+import { getDistribution, meanLabel, summarizeChange } from '../services/distributions';
+
+interface DoseResponseChartProps {
+  data: PatientData[];
+  arms: ArmDef[];
+  biomarker: BiomarkerDef;
+  timepoint: Timepoint;
+  showPercentChange: boolean;
+}
+
+export const DoseResponseChart: React.FC<DoseResponseChartProps> = ({ data, arms, biomarker, timepoint, showPercentChange }) => {
+  const family = getDistribution(biomarker);
+
+  // Mean change (±SEM) per dosed arm at the selected visit, ordered by dose
+  const chartData = useMemo(() => {
+    return arms
+      .filter(a => a.dose !== undefined)
+      .map(arm => {
+        const values: number[] = [];
+        data.forEach(p => {
+          if (p.arm !== arm.name) return;
+          const m = p.measurements.find(m => m.biomarkerId === biomarker.id && m.timepoint === timepoint);
+          const v = showPercentChange ? m?.percentChange : m?.changeFromBaseline;
+          if (v !== undefined) values.push(v);
+        });
+        const summary = summarizeChange(values, family, showPercentChange);
+        if (!summary) return null;
+        return { arm: arm.name, color: arm.color, dose: arm.dose as number, ...summary };
+      })
+      .filter((d): d is NonNullable<typeof d> => d !== null)
+      .sort((a, b) => a.dose - b.dose);
+  }, [data, arms, biomarker.id, family, timepoint, showPercentChange]);
+
+  const yAxisLabel = showPercentChange ? '% Change from Baseline' : `Change (${biomarker.unit})`;
+
+  return (
+    <div className="w-full h-[400px] bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+      <h3 className="text-lg font-semibold text-slate-800 mb-4">
+        Dose-Response at {timepoint} ({showPercentChange ? meanLabel(family) : 'Mean'} ±SEM)
+      </h3>
+      {chartData.length < 2 ? (
+        <div className="h-[300px] flex items-center justify-center text-sm text-slate-400">
+          At least two arms with a known dose are needed for a dose-response plot.
+        </div>
+      ) : (
+        <ResponsiveContainer width="100%" height="90%">
+          <ComposedChart data={chartData} margin={{ top: 10, right: 30, left: 20, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis
+              type="number"
+              dataKey="dose"
+              domain={[0, 'dataMax']}
+              ticks={chartData.map(d => d.dose)}
+              stroke="#64748b"
+              fontSize={12}
+              label={{ value: 'Dose (mg)', position: 'insideBottom', offset: -10 }}
+            />
+            <YAxis
+              stroke="#64748b"
+              fontSize={12}
+              label={{ value: yAxisLabel, angle: -90, position: 'insideLeft', offset: -10, style: { textAnchor: 'middle' } }}
+            />
+            <ReferenceLine y={0} stroke="#cbd5e1" />
+            <Tooltip
+              content={({ active, payload }) => {
+                if (active && payload && payload.length) {
+                  const d = payload[0].payload;
+                  return (
+                    <div className="bg-white p-2 border border-slate-200 rounded shadow text-sm">
+                      <p><strong>{d.arm}</strong></p>
+                      <p>Mean: {d.mean.toFixed(2)} ± {d.sem.toFixed(2)}</p>
+                      <p>n = {d.n}</p>
+                    </div>
+                  );
+                }
+                return null;
+              }}
+            />
+            <Line
+              type="monotone"
+              dataKey="mean"
+              stroke="#6366f1"
+              strokeWidth={2}
+              dot={(props: any) => <circle key={props.payload.arm} cx={props.cx} cy={props.cy} r={6} fill={props.payload.color} stroke="#fff" strokeWidth={2} />}
+              isAnimationActive={false}
+            >
+              <ErrorBar dataKey="sem" width={6} strokeWidth={2} stroke="#64748b" direction="y" />
+            </Line>
+          </ComposedChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+};
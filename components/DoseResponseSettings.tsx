@@ -0,0 +1,147 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { FlaskConical, Check } from 'lucide-react';
+import { ArmDef } from '../types';
+import {
+  DOSE_RESPONSE_MODEL_LABELS,
+  DoseResponseConfig,
+  DoseResponseModelType,
+  getDoseFactor,
+  getMaxDose,
+  sampleDoseResponseCurve,
+} from '../services/doseResponse';
+import { buildDoseArms } from '../services/studyArms';
+
+interface DoseResponseSettingsProps {
+  arms: ArmDef[];
+  doseResponse: DoseResponseConfig;
+  onArmsChange: (arms: ArmDef[]) => void;
+  onChange: (doseResponse: DoseResponseConfig) => void;
+}
+
+const formatDoses = (arms: ArmDef[]) =>
+  arms.filter(a => !a.isControl && a.dose !== undefined).map(a => a.dose).join(', ');
+
+export const DoseResponseSettings: React.FC<DoseResponseSettingsProps> = ({ arms, doseResponse, onArmsChange, onChange }) => {
+  const [dosesText, setDosesText] = useState(formatDoses(arms));
+
+  // Keep the text in sync when arms change elsewhere (e.g. a preset is loaded)
+  useEffect(() => { setDosesText(formatDoses(arms)); }, [arms]);
+
+  const maxDose = getMaxDose(arms);
+  const curve = useMemo(
+    () => (maxDose !== undefined ? sampleDoseResponseCurve(maxDose, doseResponse) : []),
+    [maxDose, doseResponse]
+  );
+  const armPoints = arms
+    .filter(a => a.dose !== undefined)
+    .map(a => ({ dose: a.dose as number, fraction: a.isControl ? 0 : getDoseFactor(a, arms, doseResponse), name: a.name }));
+
+  const applyDoses = () => {
+    const doses = dosesText.split(/[,;\s]+/).map(parseFloat).filter(d => !isNaN(d) && d > 0);
+    if (doses.length === 0) {
+      alert('Enter at least one positive dose, e.g. "0.5, 1, 2, 4".');
+      return;
+    }
+    onArmsChange(buildDoseArms(doses));
+  };
+
+  const usesEd50 = doseResponse.model === 'emax' || doseResponse.model === 'sigmoid';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase">
+        <FlaskConical size={14} /> Dose Arms & Dose-Response
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-slate-600">Active Doses (mg)</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={dosesText}
+                onChange={(e) => setDosesText(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') applyDoses(); }}
+                placeholder="e.g. 0.5, 1, 2, 4"
+                className="flex-1 px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-mono text-slate-700 focus:outline-none"
+              />
+              <button
+                onClick={applyDoses}
+                className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors"
+              >
+                <Check size={12} /> Apply
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {arms.map(a => (
+                <span key={a.name} className="inline-flex items-center gap-1.5 px-2 py-0.5 bg-slate-100 text-slate-700 rounded-md text-[10px]">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: a.color }} /> {a.name}
+                </span>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-400">A placebo arm is always included; patients are randomized equally across arms.</p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-slate-600">Model</label>
+            <div className="flex bg-slate-100 p-1 rounded-lg">
+              {(Object.keys(DOSE_RESPONSE_MODEL_LABELS) as DoseResponseModelType[]).map(model => (
+                <button
+                  key={model}
+                  onClick={() => onChange({ ...doseResponse, model })}
+                  className={`flex-1 py-1 text-xs font-medium rounded-md transition-all ${
+                    doseResponse.model === model ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {DOSE_RESPONSE_MODEL_LABELS[model]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {usesEd50 && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-slate-600">ED50 (mg)</label>
+                <input
+                  type="number" min="0.01" step="0.1"
+                  value={doseResponse.ed50}
+                  onChange={(e) => { const v = parseFloat(e.target.value); if (v > 0) onChange({ ...doseResponse, ed50: v }); }}
+                  className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-mono text-slate-700 focus:outline-none"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-slate-600">{doseResponse.model === 'emax' ? 'Hill Coefficient' : 'Slope (per mg)'}</label>
+                <input
+                  type="number" min="0.1" step="0.1"
+                  value={doseResponse.hill}
+                  onChange={(e) => { const v = parseFloat(e.target.value); if (v > 0) onChange({ ...doseResponse, hill: v }); }}
+                  className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-mono text-slate-700 focus:outline-none"
+                />
+              </div>
+            </div>
+          )}
+          <p className="text-[10px] text-slate-400">
+            The drug effect slider sets the effect of the highest dose; the model scales lower doses relative to it.
+          </p>
+        </div>
+
+        <div className="h-48">
+          {maxDose !== undefined && (
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart margin={{ top: 10, right: 10, bottom: 10, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis type="number" dataKey="dose" domain={[0, maxDose]} stroke="#64748b" fontSize={10} label={{ value: 'Dose (mg)', position: 'insideBottom', offset: -5, fontSize: 10 }} />
+                <YAxis type="number" domain={[0, 1]} stroke="#64748b" fontSize={10} tickFormatter={(v) => `${Math.round(v * 100)}%`} />
+                <Line data={curve} dataKey="fraction" stroke="#6366f1" strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Scatter data={armPoints} dataKey="fraction" fill="#0f172a" isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
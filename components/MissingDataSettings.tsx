@@ -0,0 +1,46 @@
+import React from 'react';
+import { UserMinus } from 'lucide-react';
+import { MissingDataConfig } from '../services/missingData';
+
+interface MissingDataSettingsProps {
+  missingData: MissingDataConfig;
+  onChange: (missingData: MissingDataConfig) => void;
+}
+
+const MECHANISMS: { key: keyof MissingDataConfig; label: string; max: number; help: string }[] = [
+  { key: 'dropoutRate', label: 'Random Dropout (MCAR)', max: 0.3, help: 'Per-visit probability of discontinuing, unrelated to outcomes.' },
+  { key: 'worseningDropoutRate', label: 'Dropout on Worsening (MAR)', max: 0.5, help: 'Added per-visit probability after the previous visit was worse than baseline.' },
+  { key: 'nonResponderDropoutRate', label: 'Non-Responder Dropout (MNAR)', max: 0.5, help: 'Added per-visit probability for non-responders on active treatment (unobserved status).' },
+  { key: 'sampleFailureRate', label: 'Sample Failure', max: 0.3, help: 'Probability that a single follow-up measurement is lost (assay or shipping failure).' },
+];
+
+export const MissingDataSettings: React.FC<MissingDataSettingsProps> = ({ missingData, onChange }) => {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase">
+        <UserMinus size={14} /> Dropout & Missing Data
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {MECHANISMS.map(({ key, label, max, help }) => (
+          <div key={key} className="space-y-2">
+            <label className="flex items-center justify-between text-xs font-medium text-slate-600">
+              <span>{label}</span>
+              <span className="text-amber-600 font-mono">{(missingData[key] * 100).toFixed(0)}%</span>
+            </label>
+            <input
+              type="range" min="0" max={max} step="0.01"
+              value={missingData[key]}
+              onChange={(e) => onChange({ ...missingData, [key]: parseFloat(e.target.value) })}
+              className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-amber-500"
+            />
+            <p className="text-[10px] text-slate-400">{help}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-400">
+        Dropout is monotone: a discontinued patient is missing at every later visit. Baseline samples are always observed.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,350 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  ZAxis
+} from 'recharts';
+import { Check, Orbit, Play, Save, Square } from 'lucide-react';
+import { ArmDef, BiomarkerCategory, BiomarkerDef, PatientData, VisitDef } from '../types';
+import { getBaselineVisit, getFinalVisit, getFollowUpVisits } from '../services/visitSchedule';
+import { hashString } from '../services/random';
+import { extractBiomarkerValues } from '../services/correlation';
+import { hasLatentTraits } from '../services/patientTraits';
+import { PatientGrouping } from '../services/patientGroups';
+import { PatientClusteringResult, PCA_MISSING_LABELS, PcaMissingStrategy } from '../services/pca';
+import { CohortTask, startCohortTask } from '../services/cohortTaskClient';
+
+interface PatientClusteringProps {
+  data: PatientData[];
+  arms: ArmDef[];
+  visits: VisitDef[];
+  biomarkers: BiomarkerDef[];
+  savedGrouping: PatientGrouping | null;
+  onSaveGrouping: (grouping: PatientGrouping) => void;
+}
+
+type ValueSource = 'baseline' | 'change' | 'percent_change';
+
+const VALUE_SOURCE_LABELS: Record<ValueSource, string> = {
+  baseline: 'Baseline values',
+  change: 'Change from baseline',
+  percent_change: '% Change from baseline',
+};
+
+type ColorBy = 'arm' | 'responder' | 'cluster';
+
+const COLOR_BY_LABELS: Record<ColorBy, string> = {
+  arm: 'Arm',
+  responder: 'Responder',
+  cluster: 'Cluster',
+};
+
+const CATEGORY_COLORS: Record<BiomarkerCategory, string> = {
+  [BiomarkerCategory.INFLAMMATION]: '#ef4444',
+  [BiomarkerCategory.FIBROSIS]: '#f59e0b',
+  [BiomarkerCategory.OXIDATIVE_STRESS]: '#8b5cf6',
+  [BiomarkerCategory.METABOLIC_HEALTH]: '#10b981',
+  [BiomarkerCategory.CUSTOM]: '#64748b',
+};
+
+const CATEGORY_ORDER = Object.values(BiomarkerCategory);
+
+const CLUSTER_COLORS = ['#6366f1', '#f97316', '#14b8a6', '#ec4899', '#84cc16', '#0ea5e9'];
+const CLUSTER_COUNTS = [2, 3, 4, 5, 6];
+const MAX_SCATTER_POINTS = 2000;
+// Fixed so the same cohort and settings always give the same clusters
+const CLUSTER_SEED = 1;
+
+const clusterLabel = (c: number) => `Cluster ${c + 1}`;
+
+type ClusteringState =
+  | { status: 'computing' }
+  | { status: 'done'; result: PatientClusteringResult }
+  | { status: 'cancelled' }
+  | { status: 'error'; message: string };
+
+export const PatientClustering: React.FC<PatientClusteringProps> = ({ data, arms, visits, biomarkers, savedGrouping, onSaveGrouping }) => {
+  const [source, setSource] = useState<ValueSource>('baseline');
+  const [visit, setVisit] = useState<string>(() => getFinalVisit(visits)?.label ?? '');
+  const [missing, setMissing] = useState<PcaMissingStrategy>('impute_mean');
+  const [k, setK] = useState(3);
+  const [colorBy, setColorBy] = useState<ColorBy>('arm');
+  const [loadingComponent, setLoadingComponent] = useState(0);
+  const [analysis, setAnalysis] = useState<ClusteringState>({ status: 'computing' });
+  const [run, setRun] = useState(0);
+  const taskRef = useRef<CohortTask<PatientClusteringResult> | null>(null);
+
+  const followUpVisits = useMemo(() => getFollowUpVisits(visits), [visits]);
+  const activeVisit = followUpVisits.some(v => v.label === visit) ? visit : getFinalVisit(visits)?.label ?? '';
+  const showResponder = useMemo(() => hasLatentTraits(data), [data]);
+  const activeColorBy: ColorBy = colorBy === 'responder' && !showResponder ? 'arm' : colorBy;
+
+  // k-means restarts over tens of thousands of patients take seconds, so standardization, PCA and
+  // clustering run in the cohort worker; only the value extraction stays on the page
+  useEffect(() => {
+    const values = extractBiomarkerValues(
+      data,
+      biomarkers,
+      source === 'baseline' ? 'baseline' : 'change',
+      getBaselineVisit(visits).label,
+      activeVisit,
+      source === 'percent_change'
+    );
+    let active = true;
+    setAnalysis({ status: 'computing' });
+    const task = startCohortTask({ type: 'cluster', values, biomarkerIds: biomarkers.map(b => b.id), missing, k, seed: CLUSTER_SEED });
+    taskRef.current = task;
+    task.result
+      .then(result => { if (active && result !== null) setAnalysis({ status: 'done', result }); })
+      .catch(err => { if (active) setAnalysis({ status: 'error', message: err instanceof Error ? err.message : 'Unknown error.' }); });
+    return () => {
+      active = false;
+      task.cancel();
+    };
+  }, [data, biomarkers, source, visits, activeVisit, missing, k, run]);
+
+  const handleCancel = () => {
+    taskRef.current?.cancel();
+    setAnalysis({ status: 'cancelled' });
+  };
+
+  const result = analysis.status === 'done' ? analysis.result : undefined;
+  const matrix = result?.matrix;
+  const pca = result?.pca;
+  const clusters = result?.clusters;
+
+  const sourceLabel = source === 'baseline' ? 'baseline values' : `${VALUE_SOURCE_LABELS[source].toLowerCase()} at ${activeVisit}`;
+  const groupingName = `k-means (k = ${k}) on ${sourceLabel}, ${PCA_MISSING_LABELS[missing].toLowerCase()}`;
+  const isSaved = savedGrouping?.name === groupingName;
+
+  const points = useMemo(() => {
+    if (!pca || !matrix) return [];
+    const all = matrix.rows.map((row, i) => {
+      const p = data[row];
+      const cluster = clusters?.assignments[i] ?? 0;
+      const group = activeColorBy === 'arm'
+        ? p.arm
+        : activeColorBy === 'responder'
+          ? (p.latent?.isResponder ? 'Responder' : 'Non-responder')
+          : clusterLabel(cluster);
+      return { x: pca.scores[i][0], y: pca.scores[i][1], patientId: p.patientId, arm: p.arm, cluster: clusterLabel(cluster), group };
+    });
+    return all.length <= MAX_SCATTER_POINTS
+      ? all
+      : all.filter(p => hashString(`${p.patientId}:display`) % all.length < MAX_SCATTER_POINTS);
+  }, [pca, matrix, data, clusters, activeColorBy]);
+
+  const series = activeColorBy === 'arm'
+    ? arms.map(a => ({ name: a.name, color: a.color }))
+    : activeColorBy === 'responder'
+      ? [{ name: 'Responder', color: '#16a34a' }, { name: 'Non-responder', color: '#94a3b8' }]
+      : (clusters?.sizes ?? []).map((_, c) => ({ name: clusterLabel(c), color: CLUSTER_COLORS[c % CLUSTER_COLORS.length] }));
+
+  // Loadings grouped by category so related markers sit together
+  const componentCount = Math.min(pca?.explained.length ?? 0, 4);
+  const activeComponent = Math.min(loadingComponent, Math.max(componentCount - 1, 0));
+  const loadingRows = useMemo(() => {
+    if (!pca) return [];
+    return pca.biomarkerIds
+      .map((id, b) => {
+        const bio = biomarkers.find(x => x.id === id);
+        return { name: bio?.name ?? id, category: bio?.category ?? BiomarkerCategory.CUSTOM, loading: pca.loadings[activeComponent][b] };
+      })
+      .sort((a, b) => CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) || Math.abs(b.loading) - Math.abs(a.loading));
+  }, [pca, activeComponent, biomarkers]);
+  const shownCategories = CATEGORY_ORDER.filter(c => loadingRows.some(r => r.category === c));
+
+  const handleSave = () => {
+    if (!clusters || !matrix) return;
+    const assignments: Record<string, string> = {};
+    matrix.rows.forEach((row, i) => { assignments[data[row].patientId] = clusterLabel(clusters.assignments[i]); });
+    onSaveGrouping({ name: groupingName, groups: clusters.sizes.map((_, c) => clusterLabel(c)), assignments });
+  };
+
+  const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 mt-6">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+          <Orbit size={18} className="text-indigo-600" />
+          Patient Clustering (PCA)
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+          <select value={source} onChange={(e) => setSource(e.target.value as ValueSource)} className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none">
+            {(Object.keys(VALUE_SOURCE_LABELS) as ValueSource[]).map(s => (
+              <option key={s} value={s}>{VALUE_SOURCE_LABELS[s]}</option>
+            ))}
+          </select>
+          {source !== 'baseline' && (
+            <select value={activeVisit} onChange={(e) => setVisit(e.target.value)} className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none">
+              {followUpVisits.map(v => <option key={v.label} value={v.label}>{v.label}</option>)}
+            </select>
+          )}
+          <select value={missing} onChange={(e) => setMissing(e.target.value as PcaMissingStrategy)} className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none">
+            {(Object.keys(PCA_MISSING_LABELS) as PcaMissingStrategy[]).map(m => (
+              <option key={m} value={m}>{PCA_MISSING_LABELS[m]}</option>
+            ))}
+          </select>
+          <select value={k} onChange={(e) => setK(parseInt(e.target.value, 10))} className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none">
+            {CLUSTER_COUNTS.map(n => <option key={n} value={n}>k = {n}</option>)}
+          </select>
+          <button
+            onClick={handleSave}
+            disabled={!clusters || isSaved}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white rounded-lg text-xs font-medium transition-colors"
+            title="Save the clusters as a patient grouping for the deep dive filter"
+          >
+            {isSaved ? <Check size={14} /> : <Save size={14} />}
+            {isSaved ? 'Saved' : 'Save clusters'}
+          </button>
+        </div>
+      </div>
+
+      {analysis.status === 'computing' ? (
+        <div className="py-12 flex flex-col items-center gap-3 text-sm text-slate-500">
+          <span>Computing principal components and k-means clusters on {data.length.toLocaleString()} patients…</span>
+          <button onClick={handleCancel} className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors">
+            <Square size={12} /> Cancel
+          </button>
+        </div>
+      ) : analysis.status === 'cancelled' ? (
+        <div className="py-12 flex flex-col items-center gap-3 text-sm text-slate-400">
+          <span>Clustering cancelled.</span>
+          <button onClick={() => setRun(n => n + 1)} className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors">
+            <Play size={12} /> Compute
+          </button>
+        </div>
+      ) : analysis.status === 'error' ? (
+        <p className="text-sm text-amber-600 py-12 text-center">Clustering failed: {analysis.message}</p>
+      ) : !pca || !matrix ? (
+        <p className="text-sm text-slate-500 py-12 text-center">Too few patients or biomarkers with data for a principal component analysis.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h4 className="text-sm font-semibold text-slate-700">Patient Scores</h4>
+                <div className="flex bg-slate-100 p-0.5 rounded-md">
+                  {(Object.keys(COLOR_BY_LABELS) as ColorBy[]).filter(c => c !== 'responder' || showResponder).map(c => (
+                    <button
+                      key={c}
+                      onClick={() => setColorBy(c)}
+                      className={`px-2.5 py-1 text-xs font-medium rounded transition-all ${
+                        activeColorBy === c ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-800'
+                      }`}
+                    >
+                      {COLOR_BY_LABELS[c]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="h-[320px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis type="number" dataKey="x" name="PC1" domain={['auto', 'auto']} stroke="#64748b" fontSize={12} tickFormatter={(v: number) => v.toFixed(1)}
+                      label={{ value: `PC1 (${pct(pca.explained[0])})`, position: 'insideBottom', offset: -10 }} />
+                    <YAxis type="number" dataKey="y" name="PC2" domain={['auto', 'auto']} stroke="#64748b" fontSize={12} tickFormatter={(v: number) => v.toFixed(1)}
+                      label={{ value: `PC2 (${pct(pca.explained[1])})`, angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }} />
+                    <ZAxis range={[20, 20]} />
+                    <ReferenceLine x={0} stroke="#cbd5e1" />
+                    <ReferenceLine y={0} stroke="#cbd5e1" />
+                    <Tooltip
+                      cursor={{ strokeDasharray: '3 3' }}
+                      content={({ active, payload }) => {
+                        if (active && payload && payload.length) {
+                          const d = payload[0].payload;
+                          return (
+                            <div className="bg-white p-2 border border-slate-200 rounded shadow text-sm">
+                              <p><strong>{d.patientId}</strong></p>
+                              <p>{d.arm} · {d.cluster}</p>
+                              <p>PC1 {Number(d.x).toFixed(2)}, PC2 {Number(d.y).toFixed(2)}</p>
+                            </div>
+                          );
+                        }
+                        return null;
+                      }}
+                    />
+                    {series.map(s => (
+                      <Scatter key={s.name} name={s.name} data={points.filter(p => p.group === s.name)} fill={s.color} fillOpacity={0.6} isAnimationActive={false} />
+                    ))}
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="flex flex-wrap gap-3 mt-1 text-xs text-slate-500">
+                {series.map((s, c) => (
+                  <span key={s.name} className="flex items-center gap-1">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: s.color }}></span>
+                    {s.name}
+                    {activeColorBy === 'cluster' && clusters && ` (n = ${clusters.sizes[c]})`}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h4 className="text-sm font-semibold text-slate-700">Loadings</h4>
+                <div className="flex bg-slate-100 p-0.5 rounded-md">
+                  {Array.from({ length: componentCount }, (_, c) => (
+                    <button
+                      key={c}
+                      onClick={() => setLoadingComponent(c)}
+                      className={`px-2.5 py-1 text-xs font-medium rounded transition-all ${
+                        activeComponent === c ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-800'
+                      }`}
+                    >
+                      PC{c + 1}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="h-[320px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={loadingRows} layout="vertical" margin={{ top: 10, right: 20, bottom: 20, left: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" horizontal={false} />
+                    <XAxis type="number" domain={[-1, 1]} stroke="#64748b" fontSize={12}
+                      label={{ value: 'Correlation with component', position: 'insideBottom', offset: -10 }} />
+                    <YAxis type="category" dataKey="name" width={110} stroke="#64748b" fontSize={11} interval={0} />
+                    <Tooltip formatter={(v: number) => v.toFixed(3)} cursor={{ fill: 'rgba(148, 163, 184, 0.15)' }} />
+                    <ReferenceLine x={0} stroke="#94a3b8" />
+                    <Bar dataKey="loading" name="Loading" isAnimationActive={false}>
+                      {loadingRows.map(r => <Cell key={r.name} fill={CATEGORY_COLORS[r.category]} />)}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="flex flex-wrap gap-3 mt-1 text-xs text-slate-500">
+                {shownCategories.map(c => (
+                  <span key={c} className="flex items-center gap-1">
+                    <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: CATEGORY_COLORS[c] }}></span>
+                    {c}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <p className="mt-3 text-[10px] text-slate-400">
+            PCA of standardized {sourceLabel} on {matrix.rows.length.toLocaleString()} of {data.length.toLocaleString()} patients
+            ({pca.explained.slice(0, componentCount).map((e, c) => `PC${c + 1} ${pct(e)}`).join(', ')}).
+            {missing === 'impute_mean' && matrix.imputed > 0 && ` ${matrix.imputed.toLocaleString()} missing values set to the marker mean.`}
+            {matrix.droppedBiomarkers.length > 0 && ` Excluded for missing or constant data: ${matrix.droppedBiomarkers.map(id => biomarkers.find(b => b.id === id)?.name ?? id).join(', ')}.`}
+            {clusters && ` k-means on all standardized markers explains ${pct(clusters.betweenShare)} of the total sum of squares.`}
+            {points.length < matrix.rows.length && ` Showing ${points.length.toLocaleString()} patients.`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
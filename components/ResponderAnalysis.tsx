@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { Download, Target } from 'lucide-react';
+import { ArmDef, BiomarkerDef, PatientData, VisitDef } from '../types';
+import { getBaselineVisit, getFollowUpVisits } from '../services/visitSchedule';
+import { getControlArm } from '../services/studyArms';
+import { analytics } from '../services/analytics';
+import { downloadCSV, ExportMetadata } from '../services/export';
+import { formatPValue } from '../services/statistics';
+import { DEFAULT_BASELINE_STRATA } from '../services/nonparametric';
+import {
+  analyzeResponders,
+  DEFAULT_RESPONDER_RULE,
+  describeResponderRule,
+  ResponderRule,
+  ResponderThresholdType
+} from '../services/responder';
+
+interface ResponderAnalysisProps {
+  data: PatientData[];
+  arms: ArmDef[];
+  visits: VisitDef[];
+  biomarker: BiomarkerDef;
+  exportMeta?: ExportMetadata;
+}
+
+const MAX_CONSECUTIVE_VISITS = 3;
+
+const formatRatio = (v: number): string => (v >= 100 ? v.toFixed(0) : v.toFixed(2));
+
+export const ResponderAnalysis: React.FC<ResponderAnalysisProps> = ({ data, arms, visits, biomarker, exportMeta }) => {
+  const [rule, setRule] = useState<ResponderRule>(DEFAULT_RESPONDER_RULE);
+  const [thresholdInput, setThresholdInput] = useState(String(DEFAULT_RESPONDER_RULE.threshold));
+
+  const referenceArm = getControlArm(arms)?.name ?? arms[0]?.name;
+  const followUpVisits = useMemo(() => getFollowUpVisits(visits), [visits]);
+
+  const results = useMemo(() => {
+    if (!referenceArm) return [];
+    return analyzeResponders(
+      data,
+      biomarker,
+      getBaselineVisit(visits).label,
+      followUpVisits.map(v => v.label),
+      arms.map(a => a.name),
+      referenceArm,
+      rule
+    );
+  }, [data, biomarker, visits, followUpVisits, arms, referenceArm, rule]);
+
+  const chartData = useMemo(() => results.map(r => {
+    const entry: any = { visit: r.visit };
+    r.rates.forEach(rate => {
+      entry[rate.arm] = rate.rate * 100;
+      entry[`${rate.arm}_label`] = `${(rate.rate * 100).toFixed(1)}% (${rate.responders}/${rate.n})`;
+    });
+    return entry;
+  }), [results]);
+
+  const ruleLabel = describeResponderRule(rule, biomarker);
+
+  const handleThresholdChange = (value: string) => {
+    setThresholdInput(value);
+    const parsed = parseFloat(value);
+    if (parsed > 0) setRule(prev => ({ ...prev, threshold: parsed }));
+  };
+
+  const handleExportCSV = () => {
+    analytics.logEvent('DATA_EXPORT', { biomarker: biomarker.id, type: 'CSV', view: 'responder' });
+    const rows: (string | number)[][] = [[
+      'Timepoint', 'Arm', 'Responders', 'N', 'Rate (%)',
+      `Risk Difference vs ${referenceArm} (pp)`, 'RD 95% CI Lower', 'RD 95% CI Upper',
+      'Odds Ratio', 'OR 95% CI Lower', 'OR 95% CI Upper', 'Chi-square p-value', 'CMH p-value'
+    ]];
+    results.forEach(r => r.rates.forEach(rate => {
+      const c = r.contrasts.find(x => x.arm === rate.arm);
+      rows.push([
+        r.visit,
+        rate.arm,
+        rate.responders,
+        rate.n,
+        (rate.rate * 100).toFixed(2),
+        c ? (c.riskDifference * 100).toFixed(2) : '',
+        c ? (c.rdLower * 100).toFixed(2) : '',
+        c ? (c.rdUpper * 100).toFixed(2) : '',
+        c?.oddsRatio.toFixed(4) ?? '',
+        c?.orLower.toFixed(4) ?? '',
+        c?.orUpper.toFixed(4) ?? '',
+        c?.chiSquarePValue !== undefined ? c.chiSquarePValue.toPrecision(4) : '',
+        c?.cmhPValue !== undefined ? c.cmhPValue.toPrecision(4) : ''
+      ]);
+    }));
+    downloadCSV(`${biomarker.name}_responder_analysis.csv`, rows, {
+      ...exportMeta,
+      'Responder Rule': ruleLabel,
+      Analysis: `Risk difference (Wald CI), odds ratio (Woolf CI), Pearson chi-square and CMH stratified by baseline (${DEFAULT_BASELINE_STRATA} equal-count strata)`
+    });
+  };
+
+  return (
+    <div className="w-full bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between mb-6 gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <Target size={18} className="text-indigo-600" />
+            Responder Analysis
+          </h3>
+          <p className="text-sm text-slate-500">Responders: {ruleLabel}.</p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+          <select
+            value={rule.type}
+            onChange={(e) => setRule(prev => ({ ...prev, type: e.target.value as ResponderThresholdType }))}
+            className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none"
+          >
+            <option value="percent">% change</option>
+            <option value="absolute">Absolute change ({biomarker.unit})</option>
+          </select>
+          <label className="flex items-center gap-1.5">
+            ≥
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={thresholdInput}
+              onChange={(e) => handleThresholdChange(e.target.value)}
+              className="w-20 px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-700 focus:outline-none"
+            />
+            {rule.type === 'percent' ? '%' : biomarker.unit} {biomarker.direction === 'lower_is_better' ? 'reduction' : 'increase'}
+          </label>
+          <select
+            value={rule.consecutiveVisits}
+            onChange={(e) => setRule(prev => ({ ...prev, consecutiveVisits: parseInt(e.target.value, 10) }))}
+            className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none"
+            title="Require the threshold to be met at consecutive visits"
+          >
+            {Array.from({ length: MAX_CONSECUTIVE_VISITS }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>{n === 1 ? 'Single visit' : `${n} consecutive visits`}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1.5 cursor-pointer" title="Count patients with a missed visit as non-responders">
+            <input
+              type="checkbox"
+              checked={rule.missingAsNonResponder}
+              onChange={(e) => setRule(prev => ({ ...prev, missingAsNonResponder: e.target.checked }))}
+              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Missing = non-responder
+          </label>
+          <button
+            onClick={handleExportCSV}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-md hover:bg-slate-50 hover:text-slate-900 transition-colors shadow-sm whitespace-nowrap"
+            title="Export responder analysis to CSV"
+          >
+            <Download size={16} />
+            <span className="hidden sm:inline">Export CSV</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+            <XAxis dataKey="visit" stroke="#64748b" fontSize={12} tickMargin={10} />
+            <YAxis stroke="#64748b" fontSize={12} domain={[0, 100]} label={{ value: 'Responders (%)', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }} />
+            <Tooltip
+              cursor={{ fill: 'transparent' }}
+              contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e2e8f0' }}
+              formatter={(_value: number, name: string, props: any) => [props.payload[`${name}_label`], name]}
+            />
+            <Legend wrapperStyle={{ paddingTop: '10px' }} />
+            {arms.map(({ name: arm, color }) => (
+              <Bar key={arm} dataKey={arm} name={arm} fill={color} radius={[4, 4, 0, 0]} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-6 overflow-x-auto">
+        <table className="w-full text-sm text-left border-collapse">
+          <thead>
+            <tr className="bg-slate-50 border-b border-slate-200">
+              <th className="py-3 px-4 font-semibold text-slate-700">Timepoint</th>
+              <th className="py-3 px-4 font-semibold text-slate-700">Arm</th>
+              <th className="py-3 px-4 font-semibold text-slate-700 text-right">Responders</th>
+              <th className="py-3 px-4 font-semibold text-slate-700 text-right">Diff vs {referenceArm} (95% CI)</th>
+              <th className="py-3 px-4 font-semibold text-slate-700 text-right">Odds Ratio (95% CI)</th>
+              <th className="py-3 px-4 font-semibold text-slate-700 text-right">χ² p</th>
+              <th className="py-3 px-4 font-semibold text-slate-700 text-right">CMH p</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {results.map(r => (
+              <React.Fragment key={r.visit}>
+                {r.rates.map((rate, idx) => {
+                  const c = r.contrasts.find(x => x.arm === rate.arm);
+                  const color = arms.find(a => a.name === rate.arm)?.color;
+                  return (
+                    <tr key={`${r.visit}-${rate.arm}`} className="hover:bg-slate-50/50">
+                      {idx === 0 && (
+                        <td className="py-3 px-4 font-medium text-slate-900 align-top border-r border-slate-100 bg-white" rowSpan={r.rates.length}>
+                          {r.visit}
+                        </td>
+                      )}
+                      <td className="py-3 px-4 text-slate-600 flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }}></span>
+                        {rate.arm}
+                      </td>
+                      <td className="py-3 px-4 text-right font-mono font-medium">
+                        {(rate.rate * 100).toFixed(1)}% <span className="text-slate-400 font-normal">({rate.responders}/{rate.n})</span>
+                      </td>
+                      <td className="py-3 px-4 text-slate-600 text-right font-mono whitespace-nowrap">
+                        {c ? `${c.riskDifference > 0 ? '+' : ''}${(c.riskDifference * 100).toFixed(1)} pp (${(c.rdLower * 100).toFixed(1)}, ${(c.rdUpper * 100).toFixed(1)})` : '—'}
+                      </td>
+                      <td className="py-3 px-4 text-slate-600 text-right font-mono whitespace-nowrap">
+                        {c ? `${formatRatio(c.oddsRatio)} (${formatRatio(c.orLower)}, ${formatRatio(c.orUpper)})` : '—'}
+                      </td>
+                      <td className={`py-3 px-4 text-right font-mono ${c?.chiSquarePValue !== undefined && c.chiSquarePValue < 0.05 ? 'text-indigo-600 font-semibold' : 'text-slate-400'}`}>
+                        {c ? formatPValue(c.chiSquarePValue) : '—'}
+                      </td>
+                      <td className={`py-3 px-4 text-right font-mono ${c?.cmhPValue !== undefined && c.cmhPValue < 0.05 ? 'text-indigo-600 font-semibold' : 'text-slate-400'}`}>
+                        {c ? formatPValue(c.cmhPValue) : '—'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-2 text-[10px] text-slate-400">
+        Risk differences with Wald 95% CIs (percentage points); odds ratios with Woolf 95% CIs (0.5 added to all cells when one is empty).
+        Pearson chi-square without continuity correction; CMH stratified by baseline ({DEFAULT_BASELINE_STRATA} equal-count strata). Sustained rules count the current and preceding visits.
+      </p>
+    </div>
+  );
+};
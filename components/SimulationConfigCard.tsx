@@ -1,29 +1,74 @@
 
-import React from 'react';
-import { Settings, RefreshCw, Activity, Users, TrendingUp, Clock } from 'lucide-react';
-import { SimulationConfig, SCENARIO_PRESETS, TimeProfileType } from '../services/simulation';
+import React, { useState } from 'react';
+import { Settings, RefreshCw, Activity, Users, TrendingUp, Clock, Calendar, Dices, ChevronDown, ChevronUp, Save, Trash2, X } from 'lucide-react';
+import { MAX_PATIENT_COUNT, SimulationConfig, SCENARIO_PRESETS } from '../services/simulation';
+import { TIME_PROFILE_LABELS, TimeProfileType } from '../services/timeProfile';
+import { deleteScenario, loadSavedScenarios, saveScenario } from '../services/scenarioStore';
+import { VISIT_SCHEDULE_PRESETS } from '../constants';
+import { MAX_SEED, randomSeed } from '../services/random';
+import { BiomarkerDef } from '../types';
+import { CorrelationSettings } from './CorrelationSettings';
+import { MissingDataSettings } from './MissingDataSettings';
+import { DoseResponseSettings } from './DoseResponseSettings';
+import { TimeProfileEditor } from './TimeProfileEditor';
+
+// At least a handful of patients per arm for the summaries to be meaningful
+const MIN_PATIENT_COUNT = 10;
 
 interface SimulationConfigCardProps {
   config: SimulationConfig;
+  biomarkers: BiomarkerDef[];
   onConfigChange: (newConfig: SimulationConfig) => void;
   onRegenerate: () => void;
+  onCancel: () => void;
   isLoading: boolean;
+  progress: number; // 0-1 while a cohort (or an added biomarker) is being simulated
 }
 
 export const SimulationConfigCard: React.FC<SimulationConfigCardProps> = ({ 
   config, 
+  biomarkers,
   onConfigChange, 
   onRegenerate,
-  isLoading
+  onCancel,
+  isLoading,
+  progress
 }) => {
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [savedScenarios, setSavedScenarios] = useState(loadSavedScenarios);
 
   const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const presetName = e.target.value;
     if (SCENARIO_PRESETS[presetName]) {
-      onConfigChange(SCENARIO_PRESETS[presetName]);
+      onConfigChange({ ...SCENARIO_PRESETS[presetName], seed: config.seed });
+    } else if (savedScenarios[presetName]) {
+      // Saved scenarios restore their own seed so they reproduce the cohort they were saved with
+      onConfigChange(savedScenarios[presetName]);
+    }
+  };
+
+  const handleSaveScenario = () => {
+    const suggested = savedScenarios[config.scenarioName] ? config.scenarioName : '';
+    const name = prompt('Save the current parameters as scenario:', suggested)?.trim();
+    if (!name) return;
+    if (SCENARIO_PRESETS[name]) {
+      alert(`"${name}" is a built-in scenario. Please choose another name.`);
+      return;
     }
+    if (savedScenarios[name] && name !== config.scenarioName && !confirm(`Overwrite saved scenario "${name}"?`)) return;
+    setSavedScenarios(saveScenario(name, config));
+    onConfigChange({ ...config, scenarioName: name });
   };
 
+  const handleDeleteScenario = () => {
+    if (!confirm(`Delete saved scenario "${config.scenarioName}"?`)) return;
+    setSavedScenarios(deleteScenario(config.scenarioName));
+    onConfigChange({ ...config, scenarioName: 'Custom' });
+  };
+
+  const selectedScenario = SCENARIO_PRESETS[config.scenarioName] || savedScenarios[config.scenarioName] ? config.scenarioName : 'Custom';
+  const isSavedScenario = !!savedScenarios[config.scenarioName];
+
   const handleChange = (field: keyof SimulationConfig, value: any) => {
     onConfigChange({
       ...config,
@@ -32,6 +77,19 @@ export const SimulationConfigCard: React.FC<SimulationConfigCardProps> = ({
     });
   };
 
+  // The seed does not change the scenario, so it bypasses the switch to 'Custom'
+  const handleSeedChange = (seed: number) => {
+    if (!Number.isInteger(seed) || seed < 1 || seed > MAX_SEED) return;
+    onConfigChange({ ...config, seed });
+  };
+
+  const handlePatientCountChange = (patientCount: number) => {
+    if (!Number.isInteger(patientCount) || patientCount < MIN_PATIENT_COUNT || patientCount > MAX_PATIENT_COUNT) return;
+    onConfigChange({ ...config, patientCount });
+  };
+
+  const schedulePreset = Object.keys(VISIT_SCHEDULE_PRESETS).find(key => VISIT_SCHEDULE_PRESETS[key] === config.visits) || 'Custom';
+
   return (
     <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200 mb-6 animate-in fade-in slide-in-from-top-4">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4 border-b border-slate-100 pb-4">
@@ -46,16 +104,69 @@ export const SimulationConfigCard: React.FC<SimulationConfigCardProps> = ({
         </div>
 
         <div className="flex items-center gap-3 w-full md:w-auto">
+          <div className="flex items-center bg-slate-50 border border-slate-200 rounded-lg overflow-hidden" title={`Cohort size (${MIN_PATIENT_COUNT}-${MAX_PATIENT_COUNT.toLocaleString()} patients)`}>
+            <span className="pl-3 text-[10px] font-bold text-slate-400 uppercase">N</span>
+            <input
+              type="number"
+              min={MIN_PATIENT_COUNT}
+              max={MAX_PATIENT_COUNT}
+              step={100}
+              value={config.patientCount}
+              onChange={(e) => handlePatientCountChange(parseInt(e.target.value, 10))}
+              className="w-24 px-2 py-2 bg-transparent text-sm font-mono text-slate-700 focus:outline-none"
+            />
+          </div>
+          <div className="flex items-center bg-slate-50 border border-slate-200 rounded-lg overflow-hidden" title="Random seed: the same parameters and seed regenerate an identical cohort">
+            <span className="pl-3 text-[10px] font-bold text-slate-400 uppercase">Seed</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_SEED}
+              value={config.seed}
+              onChange={(e) => handleSeedChange(parseInt(e.target.value, 10))}
+              className="w-28 px-2 py-2 bg-transparent text-sm font-mono text-slate-700 focus:outline-none"
+            />
+            <button
+              onClick={() => handleSeedChange(randomSeed())}
+              className="px-2 py-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 transition-colors"
+              title="New random seed"
+            >
+              <Dices size={16} />
+            </button>
+          </div>
           <select 
             className="flex-1 md:w-48 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-medium text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-            value={SCENARIO_PRESETS[config.scenarioName] ? config.scenarioName : 'Custom'}
+            value={selectedScenario}
             onChange={handlePresetChange}
           >
             <option value="Custom" disabled>Custom Scenario</option>
             {Object.keys(SCENARIO_PRESETS).map(key => (
               <option key={key} value={key}>{key}</option>
             ))}
+            {Object.keys(savedScenarios).length > 0 && (
+              <optgroup label="Saved Scenarios">
+                {Object.keys(savedScenarios).map(key => (
+                  <option key={key} value={key}>{key}</option>
+                ))}
+              </optgroup>
+            )}
           </select>
+          <button
+            onClick={handleSaveScenario}
+            className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors"
+            title="Save current parameters as a scenario"
+          >
+            <Save size={16} />
+          </button>
+          {isSavedScenario && (
+            <button
+              onClick={handleDeleteScenario}
+              className="p-2 text-slate-400 hover:text-red-500 hover:bg-slate-100 rounded-lg transition-colors"
+              title="Delete this saved scenario"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
           
           <button 
             onClick={onRegenerate}
@@ -63,8 +174,17 @@ export const SimulationConfigCard: React.FC<SimulationConfigCardProps> = ({
             className={`flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm transition-all ${isLoading ? 'opacity-70 cursor-not-allowed' : 'hover:shadow'}`}
           >
             <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
-            {isLoading ? 'Simulating...' : 'Regenerate Data'}
+            {isLoading ? `Simulating... ${Math.round(progress * 100)}%` : 'Regenerate Data'}
           </button>
+          {isLoading && (
+            <button
+              onClick={onCancel}
+              className="p-2 text-slate-400 hover:text-red-500 hover:bg-slate-100 rounded-lg transition-colors"
+              title="Cancel simulation"
+            >
+              <X size={16} />
+            </button>
+          )}
         </div>
       </div>
 
@@ -138,7 +258,7 @@ export const SimulationConfigCard: React.FC<SimulationConfigCardProps> = ({
               <Clock size={14} /> Time Profile
             </label>
             <div className="flex bg-slate-100 p-1 rounded-lg w-full">
-               {['linear', 'delayed', 'biphasic'].map((profile) => (
+               {(['linear', 'delayed', 'biphasic', 'custom'] as TimeProfileType[]).map((profile) => (
                  <button
                    key={profile}
                    onClick={() => handleChange('timeProfile', profile)}
@@ -148,11 +268,84 @@ export const SimulationConfigCard: React.FC<SimulationConfigCardProps> = ({
                        : 'text-slate-500 hover:text-slate-700'
                    }`}
                  >
-                   {profile}
+                   {TIME_PROFILE_LABELS[profile]}
                  </button>
                ))}
             </div>
          </div>
+         <div className="flex items-center gap-4">
+            <label className="text-xs font-bold text-slate-500 uppercase whitespace-nowrap flex items-center gap-2">
+              <Calendar size={14} /> Visit Schedule
+            </label>
+            <select
+              className="w-full px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              value={schedulePreset}
+              onChange={(e) => handleChange('visits', VISIT_SCHEDULE_PRESETS[e.target.value])}
+            >
+              <option value="Custom" disabled>Custom Schedule</option>
+              {Object.keys(VISIT_SCHEDULE_PRESETS).map(key => (
+                <option key={key} value={key}>{key}</option>
+              ))}
+            </select>
+         </div>
+      </div>
+      <p className="mt-2 text-[10px] text-slate-400">
+        Visits: {config.visits.map(v => v.label).join(' · ')}. Effect profiles are evaluated at each visit's nominal study day.
+      </p>
+      <div className="mt-4">
+        <TimeProfileEditor
+          timeProfile={config.timeProfile}
+          customProfile={config.customTimeProfile}
+          visits={config.visits}
+          onChange={(customTimeProfile) => handleChange('customTimeProfile', customTimeProfile)}
+        />
+      </div>
+
+      {/* Advanced: multivariate structure */}
+      <div className="mt-4 pt-4 border-t border-slate-100">
+        <button
+          onClick={() => setShowAdvanced(!showAdvanced)}
+          className="flex items-center gap-1.5 text-xs font-bold text-slate-500 uppercase hover:text-indigo-600 transition-colors"
+        >
+          {showAdvanced ? <ChevronUp size={14} /> : <ChevronDown size={14} />} Advanced Model Settings
+        </button>
+        {showAdvanced && (
+          <div className="mt-4 space-y-6">
+            <DoseResponseSettings
+              arms={config.arms}
+              doseResponse={config.doseResponse}
+              onArmsChange={(arms) => handleChange('arms', arms)}
+              onChange={(doseResponse) => handleChange('doseResponse', doseResponse)}
+            />
+            <CorrelationSettings
+              biomarkers={biomarkers}
+              correlation={config.correlation}
+              onChange={(correlation) => handleChange('correlation', correlation)}
+            />
+            <MissingDataSettings
+              missingData={config.missingData}
+              onChange={(missingData) => handleChange('missingData', missingData)}
+            />
+            <label className="flex items-center gap-2 text-xs font-medium text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={config.applyAssayLimits}
+                onChange={(e) => handleChange('applyAssayLimits', e.target.checked)}
+                className="accent-indigo-600"
+              />
+              Apply assay limits: report simulated values outside each biomarker's LLOQ/ULOQ as censored
+            </label>
+            <label className="flex items-center gap-2 text-xs font-medium text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={config.simulateCovariates}
+                onChange={(e) => handleChange('simulateCovariates', e.target.checked)}
+                className="accent-indigo-600"
+              />
+              Simulate patient covariates: age, sex, BMI, region, site and randomization stratum
+            </label>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer
+} from 'recharts';
+import { ArmDef, BiomarkerDef, PatientData, VisitDef } from '../types';
+import { getScheduledVisits } from '../services/visitSchedule';
+import { getDistribution, meanLabel, summarizeLevels, summarizePercentChange } from '../services/distributions';
+import { hashString } from '../services/random';
+import { formatTraits } from '../services/patientTraits';
+
+interface SpaghettiPlotProps {
+  data: PatientData[];
+  arms: ArmDef[];
+  visits: VisitDef[];
+  biomarker: BiomarkerDef;
+  showPercentChange: boolean;
+}
+
+// Each trajectory is its own SVG path; beyond this many per arm the plot is unreadable anyway
+const MAX_TRAJECTORIES_PER_ARM = 80;
+
+export const SpaghettiPlot: React.FC<SpaghettiPlotProps> = ({ data, arms, visits, biomarker, showPercentChange }) => {
+  const [armFilter, setArmFilter] = useState<string>('all');
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const family = getDistribution(biomarker);
+
+  const shownArms = useMemo(() => arms.filter(a => armFilter === 'all' || a.name === armFilter), [arms, armFilter]);
+
+  // Rows per visit: one key per displayed patient plus the per-arm mean of all patients
+  const { chartData, trajectories, totalPatients } = useMemo(() => {
+    const timepoints = getScheduledVisits(visits).map(v => v.label);
+    const rows: any[] = timepoints.map(tp => ({ name: tp }));
+    const lines: { patientId: string; dataKey: string; arm: string; color: string; traits?: string }[] = [];
+    let total = 0;
+
+    shownArms.forEach(({ name: arm, color }, armIdx) => {
+      const patients = data.filter(p => p.arm === arm);
+      total += patients.length;
+      const sampled = patients.length <= MAX_TRAJECTORIES_PER_ARM
+        ? patients
+        : patients.filter(p => hashString(`${p.patientId}:display`) % patients.length < MAX_TRAJECTORIES_PER_ARM);
+      // Index-based keys: recharts reads dots in a dataKey as a nested path, and IDs may contain them
+      const keyOf = new Map<string, string>(sampled.map((p, i) => [p.patientId, `p${lines.length + i}`]));
+
+      timepoints.forEach((tp, i) => {
+        const values: number[] = [];
+        patients.forEach(p => {
+          const m = p.measurements.find(m => m.biomarkerId === biomarker.id && m.timepoint === tp);
+          const v = showPercentChange ? m?.percentChange : m?.value;
+          if (v === undefined) return;
+          values.push(v);
+          const key = keyOf.get(p.patientId);
+          if (key) rows[i][key] = v;
+        });
+        const summary = showPercentChange ? summarizePercentChange(values, family) : summarizeLevels(values, family);
+        if (summary) rows[i][`mean${armIdx}`] = summary.mean;
+      });
+
+      sampled.forEach(p => lines.push({ patientId: p.patientId, dataKey: keyOf.get(p.patientId)!, arm, color, traits: p.latent ? formatTraits(p.latent) : undefined }));
+    });
+
+    return { chartData: rows, trajectories: lines, totalPatients: total };
+  }, [data, shownArms, visits, biomarker.id, family, showPercentChange]);
+
+  const hovered = trajectories.find(t => t.patientId === hoveredId);
+  // The highlighted trajectory is drawn last so it sits above the others
+  const drawOrder = hovered ? [...trajectories.filter(t => t !== hovered), hovered] : trajectories;
+  const yAxisLabel = showPercentChange ? '% Change from Baseline' : `${biomarker.name} (${biomarker.unit})`;
+
+  return (
+    <div className="w-full h-[400px] flex flex-col bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex justify-between items-start mb-2 gap-3">
+        <h3 className="text-lg font-semibold text-slate-800">
+          Individual Trajectories
+          {trajectories.length < totalPatients && (
+            <span className="ml-2 text-xs font-normal text-slate-400">
+              showing {trajectories.length.toLocaleString()} of {totalPatients.toLocaleString()} patients
+            </span>
+          )}
+        </h3>
+        <select
+          value={armFilter}
+          onChange={(e) => setArmFilter(e.target.value)}
+          className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-700 focus:outline-none shrink-0"
+        >
+          <option value="all">All arms</option>
+          {arms.map(a => <option key={a.name} value={a.name}>{a.name}</option>)}
+        </select>
+      </div>
+
+      <p className="h-5 mb-1 text-xs text-slate-500 truncate">
+        {hovered
+          ? <><strong className="text-slate-800">{hovered.patientId}</strong> · {hovered.arm}{hovered.traits ? ` · ${hovered.traits}` : ''}</>
+          : `Thick lines: ${showPercentChange ? meanLabel(family).toLowerCase() : 'mean'} of all patients per arm. Hover a trajectory to highlight it.`}
+      </p>
+
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }} onMouseLeave={() => setHoveredId(null)}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis dataKey="name" stroke="#64748b" fontSize={12} tickMargin={10} />
+            <YAxis stroke="#64748b" fontSize={12} label={{ value: yAxisLabel, angle: -90, position: 'insideLeft', offset: -10, style: { textAnchor: 'middle' } }} />
+
+            {drawOrder.map(t => {
+              const isHovered = t.patientId === hoveredId;
+              return (
+                <Line
+                  key={t.patientId}
+                  dataKey={t.dataKey}
+                  stroke={t.color}
+                  strokeWidth={isHovered ? 3 : 1}
+                  strokeOpacity={hoveredId === null ? 0.35 : isHovered ? 1 : 0.1}
+                  dot={false}
+                  activeDot={false}
+                  connectNulls
+                  isAnimationActive={false}
+                  onMouseEnter={() => setHoveredId(t.patientId)}
+                />
+              );
+            })}
+
+            {shownArms.map(({ name: arm, color }, armIdx) => (
+              <Line
+                key={`mean:${arm}`}
+                dataKey={`mean${armIdx}`}
+                stroke={color}
+                strokeWidth={4}
+                dot={{ r: 3, fill: color }}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,224 @@
+import React, { useMemo, useState } from 'react';
+import { Download, ListTree } from 'lucide-react';
+import { ArmDef, BiomarkerDef, PatientData, VisitDef } from '../types';
+import { getBaselineVisit, getFinalVisit, getFollowUpVisits } from '../services/visitSchedule';
+import { getControlArm } from '../services/studyArms';
+import { analytics } from '../services/analytics';
+import { downloadCSV, ExportMetadata } from '../services/export';
+import { formatPValue } from '../services/statistics';
+import { analyzeSubgroups, buildSubgroupVariables, SubgroupEstimate } from '../services/subgroups';
+
+interface SubgroupForestPlotProps {
+  data: PatientData[];
+  arms: ArmDef[];
+  visits: VisitDef[];
+  biomarker: BiomarkerDef;
+  showPercentChange: boolean;
+  exportMeta?: ExportMetadata;
+}
+
+// Round tick spacing giving roughly `count` intervals over [lo, hi]
+const niceTicks = (lo: number, hi: number, count = 5): number[] => {
+  const raw = (hi - lo) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= raw) ?? raw;
+  const ticks: number[] = [];
+  for (let t = Math.ceil(lo / step) * step; t <= hi + step * 1e-9; t += step) ticks.push(Math.abs(t) < step * 1e-9 ? 0 : t);
+  return ticks;
+};
+
+const formatEstimate = (e: SubgroupEstimate): string =>
+  e.estimate === undefined ? '—' : `${e.estimate.toFixed(1)} [${e.lower!.toFixed(1)}, ${e.upper!.toFixed(1)}]`;
+
+export const SubgroupForestPlot: React.FC<SubgroupForestPlotProps> = ({ data, arms, visits, biomarker, showPercentChange, exportMeta }) => {
+  const referenceArm = getControlArm(arms)?.name ?? arms[0]?.name;
+  const treatmentArms = arms.filter(a => a.name !== referenceArm);
+  const [treated, setTreated] = useState<string>('');
+  const [visit, setVisit] = useState<string>(() => getFinalVisit(visits)?.label ?? '');
+
+  // Default to the last (typically highest-dose) active arm
+  const treatedArm = treatmentArms.some(a => a.name === treated) ? treated : treatmentArms[treatmentArms.length - 1]?.name;
+  const followUpVisits = useMemo(() => getFollowUpVisits(visits), [visits]);
+  const activeVisit = followUpVisits.some(v => v.label === visit) ? visit : getFinalVisit(visits)?.label ?? '';
+  const baselineVisit = getBaselineVisit(visits).label;
+
+  const variables = useMemo(() => buildSubgroupVariables(data, biomarker, baselineVisit), [data, biomarker, baselineVisit]);
+  const analysis = useMemo(() => {
+    if (!referenceArm || !treatedArm) return undefined;
+    return analyzeSubgroups(data, biomarker, baselineVisit, activeVisit, showPercentChange, treatedArm, referenceArm, variables);
+  }, [data, biomarker, baselineVisit, activeVisit, showPercentChange, treatedArm, referenceArm, variables]);
+
+  // Shared x scale across rows, always including zero
+  const scale = useMemo(() => {
+    if (!analysis) return undefined;
+    const bounds = [analysis.overall, ...analysis.subgroups.flatMap(s => s.levels)]
+      .flatMap(e => (e.lower !== undefined && e.upper !== undefined ? [e.lower, e.upper] : []));
+    if (bounds.length === 0) return undefined;
+    const lo = Math.min(0, ...bounds);
+    const hi = Math.max(0, ...bounds);
+    const pad = (hi - lo || 1) * 0.05;
+    const ticks = niceTicks(lo - pad, hi + pad);
+    const min = Math.min(lo - pad, ticks[0]);
+    const max = Math.max(hi + pad, ticks[ticks.length - 1]);
+    return { ticks, position: (v: number) => ((v - min) / (max - min)) * 100 };
+  }, [analysis]);
+
+  const isRatio = analysis?.scale === 'log_ratio';
+  const effectLabel = isRatio
+    ? '% Difference (GMR)'
+    : `Difference in ${showPercentChange ? '% change' : `change (${biomarker.unit})`}`;
+  const lowerIsBetter = biomarker.direction === 'lower_is_better';
+  const totalN = analysis ? analysis.overall.nTreated + analysis.overall.nReference : 0;
+
+  const handleExportCSV = () => {
+    if (!analysis) return;
+    analytics.logEvent('DATA_EXPORT', { biomarker: biomarker.id, type: 'CSV', view: 'subgroups' });
+    const rows: (string | number)[][] = [[
+      'Subgroup', 'Level', `N ${analysis.treatedArm}`, `N ${analysis.referenceArm}`,
+      `${effectLabel} vs ${analysis.referenceArm}`, '95% CI Lower', '95% CI Upper', 'p-value', 'Interaction p-value'
+    ]];
+    const push = (group: string, e: SubgroupEstimate, interaction?: number) => rows.push([
+      group,
+      e.level,
+      e.nTreated,
+      e.nReference,
+      e.estimate?.toFixed(4) ?? '',
+      e.lower?.toFixed(4) ?? '',
+      e.upper?.toFixed(4) ?? '',
+      e.pValue !== undefined ? e.pValue.toPrecision(4) : '',
+      interaction !== undefined ? interaction.toPrecision(4) : ''
+    ]);
+    push('Overall', analysis.overall);
+    analysis.subgroups.forEach(s => s.levels.forEach(l => push(s.label, l, s.interactionPValue)));
+    downloadCSV(`${biomarker.name}_subgroups_${activeVisit}.csv`, rows, {
+      ...exportMeta,
+      Timepoint: activeVisit,
+      Analysis: `ANCOVA within each subgroup (${isRatio ? 'log(value / baseline) ~ arm + log(baseline), back-transformed to %' : `${showPercentChange ? '% change' : 'change'} ~ arm + baseline`}); interaction F-test from ~ baseline + arm * subgroup`
+    });
+  };
+
+  const renderRow = (e: SubgroupEstimate, isOverall: boolean) => {
+    const hasCi = scale && e.estimate !== undefined && e.lower !== undefined && e.upper !== undefined;
+    const n = e.nTreated + e.nReference;
+    const size = isOverall ? 12 : Math.round(5 + 7 * Math.sqrt(totalN > 0 ? n / totalN : 0));
+    return (
+      <>
+        <td className={`py-1.5 pr-3 whitespace-nowrap ${isOverall ? 'font-semibold text-slate-800' : 'pl-4 text-slate-600'}`}>{e.level}</td>
+        <td className="py-1.5 px-2 text-right font-mono text-slate-500 whitespace-nowrap">{e.nTreated} / {e.nReference}</td>
+        <td className="py-1.5 px-2 w-full min-w-[200px]">
+          <div className="relative h-4">
+            {scale && <div className="absolute top-0 bottom-0 w-px bg-slate-300" style={{ left: `${scale.position(0)}%` }}></div>}
+            {hasCi && (
+              <>
+                <div
+                  className="absolute top-1/2 h-px bg-slate-700"
+                  style={{ left: `${scale!.position(e.lower!)}%`, width: `${scale!.position(e.upper!) - scale!.position(e.lower!)}%` }}
+                ></div>
+                <div
+                  className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 ${isOverall ? 'bg-indigo-600 rotate-45' : 'bg-slate-800'}`}
+                  style={{ left: `${scale!.position(e.estimate!)}%`, width: size, height: size }}
+                ></div>
+              </>
+            )}
+          </div>
+        </td>
+        <td className="py-1.5 px-2 text-right font-mono text-slate-700 whitespace-nowrap">{formatEstimate(e)}</td>
+        <td className="py-1.5 pl-2 text-right font-mono text-slate-500 whitespace-nowrap">{formatPValue(e.pValue)}</td>
+      </>
+    );
+  };
+
+  return (
+    <div className="w-full bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between mb-6 gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <ListTree size={18} className="text-indigo-600" />
+            Subgroup Analysis
+          </h3>
+          <p className="text-sm text-slate-500">
+            {treatedArm ? `${treatedArm} vs ${referenceArm} at ${activeVisit}, by subgroup.` : 'Needs a treatment arm and a reference arm.'}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+          <select value={treatedArm ?? ''} onChange={(e) => setTreated(e.target.value)} className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none">
+            {treatmentArms.map(a => <option key={a.name} value={a.name}>{a.name}</option>)}
+          </select>
+          <select value={activeVisit} onChange={(e) => setVisit(e.target.value)} className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none">
+            {followUpVisits.map(v => <option key={v.label} value={v.label}>{v.label}</option>)}
+          </select>
+          <button
+            onClick={handleExportCSV}
+            disabled={!analysis}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-md hover:bg-slate-50 hover:text-slate-900 transition-colors shadow-sm whitespace-nowrap disabled:opacity-50"
+            title="Export subgroup analysis to CSV"
+          >
+            <Download size={16} />
+            <span className="hidden sm:inline">Export CSV</span>
+          </button>
+        </div>
+      </div>
+
+      {!analysis ? null : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-slate-200 text-slate-500">
+                <th className="py-2 pr-3 text-left font-medium">Subgroup</th>
+                <th className="py-2 px-2 text-right font-medium whitespace-nowrap">n ({treatedArm} / {referenceArm})</th>
+                <th className="py-2 px-2 font-medium">
+                  <div className="flex justify-between text-[10px] font-normal text-slate-400">
+                    <span>← Favors {lowerIsBetter ? treatedArm : referenceArm}</span>
+                    <span>Favors {lowerIsBetter ? referenceArm : treatedArm} →</span>
+                  </div>
+                </th>
+                <th className="py-2 px-2 text-right font-medium whitespace-nowrap">{effectLabel} [95% CI]</th>
+                <th className="py-2 pl-2 text-right font-medium">p</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b border-slate-100">{renderRow(analysis.overall, true)}</tr>
+              {analysis.subgroups.map(s => (
+                <React.Fragment key={s.key}>
+                  <tr>
+                    <td colSpan={5} className="pt-3 pb-1 font-semibold text-slate-700">
+                      {s.label}
+                      <span className="ml-2 font-normal text-slate-400">
+                        interaction p = {formatPValue(s.interactionPValue)}
+                      </span>
+                    </td>
+                  </tr>
+                  {s.levels.map(l => <tr key={l.level}>{renderRow(l, false)}</tr>)}
+                </React.Fragment>
+              ))}
+            </tbody>
+            {scale && (
+              <tfoot>
+                <tr>
+                  <td colSpan={2}></td>
+                  <td className="px-2 pt-1">
+                    <div className="relative h-4 border-t border-slate-300 text-[10px] text-slate-400">
+                      {scale.ticks.map(t => (
+                        <span key={t} className="absolute -translate-x-1/2 pt-0.5" style={{ left: `${scale.position(t)}%` }}>{Number(t.toPrecision(6))}</span>
+                      ))}
+                    </div>
+                  </td>
+                  <td colSpan={2}></td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+          {analysis.subgroups.length === 0 && (
+            <p className="mt-3 text-sm text-slate-500">No subgrouping variables: add covariate columns (e.g. age, sex, region) to the upload.</p>
+          )}
+        </div>
+      )}
+      <p className="mt-3 text-[10px] text-slate-400">
+        Baseline-adjusted ANCOVA ({isRatio ? 'log ratio to baseline ~ arm + log baseline, back-transformed to %' : `${showPercentChange ? '% change' : 'change'} ~ arm + baseline`}) fitted within each subgroup;
+        interaction p from an F-test of arm × subgroup in a model over all levels. Numeric covariates and baseline {biomarker.name} are split at the median.
+        Subgroup results are exploratory and not adjusted for multiplicity.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, ReferenceLine, Tooltip } from 'recharts';
+import { Plus, X } from 'lucide-react';
+import { VisitDef } from '../types';
+import { CustomTimeProfile, getEffectFactorAtDay, TimeProfileType } from '../services/timeProfile';
+import { getBaselineVisit, getFollowUpVisits } from '../services/visitSchedule';
+
+interface TimeProfileEditorProps {
+  timeProfile: TimeProfileType;
+  customProfile: CustomTimeProfile;
+  visits: VisitDef[];
+  onChange: (customProfile: CustomTimeProfile) => void;
+}
+
+const PREVIEW_POINTS = 60;
+
+const inputClass = 'w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded-md text-xs font-mono text-slate-700 focus:outline-none';
+
+export const TimeProfileEditor: React.FC<TimeProfileEditorProps> = ({ timeProfile, customProfile, visits, onChange }) => {
+  const startDay = getBaselineVisit(visits).day ?? 1;
+  const followUps = getFollowUpVisits(visits);
+  const endDay = followUps.length ? followUps[followUps.length - 1].day! : startDay + 1;
+
+  // Live preview of the effect fraction across the treatment period, as the simulator evaluates it
+  const preview = useMemo(() => Array.from({ length: PREVIEW_POINTS + 1 }, (_, i) => {
+    const day = startDay + ((endDay - startDay) * i) / PREVIEW_POINTS;
+    return { day: Math.round(day), effect: getEffectFactorAtDay(timeProfile, customProfile, day, startDay, endDay) };
+  }), [timeProfile, customProfile, startDay, endDay]);
+
+  const visitEffects = followUps.map(v => ({
+    label: v.label,
+    day: v.day!,
+    effect: getEffectFactorAtDay(timeProfile, customProfile, v.day!, startDay, endDay),
+  }));
+
+  const updatePoint = (idx: number, field: 'day' | 'effect', value: number) => {
+    if (isNaN(value)) return;
+    const points = customProfile.points.map((p, i) => (i === idx ? { ...p, [field]: value } : p));
+    onChange({ ...customProfile, points });
+  };
+
+  const addPoint = () => {
+    const lastDay = customProfile.points.length ? Math.max(...customProfile.points.map(p => p.day)) : 0;
+    onChange({ ...customProfile, points: [...customProfile.points, { day: lastDay + 28, effect: 1 }] });
+  };
+
+  const removePoint = (idx: number) => {
+    onChange({ ...customProfile, points: customProfile.points.filter((_, i) => i !== idx) });
+  };
+
+  const setNumber = (field: 'onsetDelay' | 'onsetHalfLife' | 'washoutHalfLife', value: number) => {
+    if (isNaN(value) || value < 0) return;
+    onChange({ ...customProfile, [field]: value });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {timeProfile === 'custom' ? (
+        <div className="space-y-3">
+          <div className="flex bg-slate-100 p-1 rounded-lg">
+            {(['piecewise', 'parametric'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => onChange({ ...customProfile, mode })}
+                className={`flex-1 py-1 text-xs font-medium rounded-md transition-all capitalize ${
+                  customProfile.mode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+
+          {customProfile.mode === 'piecewise' ? (
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-[10px] font-bold text-slate-400 uppercase">
+                <span>Days from Baseline</span><span>Effect (%)</span><span />
+              </div>
+              {customProfile.points.map((p, idx) => (
+                <div key={idx} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                  <input type="number" min="1" value={p.day} onChange={(e) => updatePoint(idx, 'day', parseFloat(e.target.value))} className={inputClass} />
+                  <input type="number" min="0" max="150" step="5" value={Math.round(p.effect * 100)} onChange={(e) => updatePoint(idx, 'effect', parseFloat(e.target.value) / 100)} className={inputClass} />
+                  <button onClick={() => removePoint(idx)} className="p-1 text-slate-400 hover:text-red-500"><X size={12} /></button>
+                </div>
+              ))}
+              <button onClick={addPoint} className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors">
+                <Plus size={12} /> Add Point
+              </button>
+              <p className="text-[10px] text-slate-400">Effect rises linearly from 0 at baseline through the points and holds after the last one.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              <label className="space-y-1 text-xs font-medium text-slate-600">
+                <span>Onset Delay (days)</span>
+                <input type="number" min="0" value={customProfile.onsetDelay} onChange={(e) => setNumber('onsetDelay', parseFloat(e.target.value))} className={inputClass} />
+              </label>
+              <label className="space-y-1 text-xs font-medium text-slate-600">
+                <span>Onset Half-Life (days)</span>
+                <input type="number" min="1" value={customProfile.onsetHalfLife} onChange={(e) => setNumber('onsetHalfLife', parseFloat(e.target.value))} className={inputClass} />
+              </label>
+              <label className="space-y-1 text-xs font-medium text-slate-600">
+                <span>Washout Start (day)</span>
+                <input
+                  type="number" min="1" placeholder="None"
+                  value={customProfile.washoutStart ?? ''}
+                  onChange={(e) => {
+                    const v = parseFloat(e.target.value);
+                    onChange({ ...customProfile, washoutStart: isNaN(v) ? undefined : v });
+                  }}
+                  className={inputClass}
+                />
+              </label>
+              <label className="space-y-1 text-xs font-medium text-slate-600">
+                <span>Washout Half-Life (days)</span>
+                <input type="number" min="1" value={customProfile.washoutHalfLife} onChange={(e) => setNumber('washoutHalfLife', parseFloat(e.target.value))} className={inputClass} />
+              </label>
+              <p className="col-span-2 text-[10px] text-slate-400">First-order onset to a full-effect plateau; leave washout start empty for a sustained effect.</p>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-2 text-xs text-slate-500">
+          <p>Built-in profiles are stretched over the treatment period (baseline to the final visit).</p>
+          <p>Select <strong>Custom</strong> to define onset kinetics in days, independent of the visit schedule.</p>
+        </div>
+      )}
+
+      <div>
+        <div className="h-40">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={preview} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis type="number" dataKey="day" domain={[startDay, endDay]} stroke="#64748b" fontSize={10} />
+              <YAxis domain={[0, 'auto']} stroke="#64748b" fontSize={10} tickFormatter={(v) => `${Math.round(v * 100)}%`} />
+              <Tooltip formatter={(value: number) => [`${(value * 100).toFixed(0)}%`, 'Effect']} labelFormatter={(day) => `Day ${day}`} />
+              {visitEffects.map(v => (
+                <ReferenceLine key={v.label} x={v.day} stroke="#cbd5e1" strokeDasharray="3 3" label={{ value: v.label, fontSize: 9, fill: '#94a3b8', position: 'top' }} />
+              ))}
+              <Line type="monotone" dataKey="effect" stroke="#6366f1" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="mt-1 text-[10px] text-slate-400">
+          At visits: {visitEffects.map(v => `${v.label} ${(v.effect * 100).toFixed(0)}%`).join(' · ')}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -15,26 +15,47 @@ import {
   ReferenceLine
 } from 'recharts';
 import { Download, Sigma, TrendingUp, BarChart as BarChartIcon, Table as TableIcon, Info } from 'lucide-react';
-import { Arm, BiomarkerDef, PatientData, Timepoint } from '../types';
-import { ARM_COLORS } from '../constants';
+import { Arm, ArmDef, BiomarkerDef, PatientData, VisitDef } from '../types';
+import { getBaselineVisit, getFollowUpVisits, weeksFromBaseline } from '../services/visitSchedule';
 import { analytics } from '../services/analytics';
+import { downloadCSV, ExportMetadata } from '../services/export';
+import { getDistribution, meanLabel, summarizeChange } from '../services/distributions';
+import { AncovaResult, buildAncovaObservations, fitAncova, getAncovaScale } from '../services/ancova';
+import { getControlArm } from '../services/studyArms';
+import { formatPValue } from '../services/statistics';
+import { compareRanks, DEFAULT_BASELINE_STRATA, RankComparisonResult, RankMethod } from '../services/nonparametric';
 
 interface TimepointComparisonProps {
   data: PatientData[];
+  arms: ArmDef[];
+  visits: VisitDef[];
   biomarker: BiomarkerDef;
   showPercentChange: boolean;
+  exportMeta?: ExportMetadata;
 }
 
-export const TimepointComparison: React.FC<TimepointComparisonProps> = ({ data, biomarker, showPercentChange }) => {
+type ComparisonMethod = 'ancova' | RankMethod;
+
+const COMPARISON_METHOD_LABELS: Record<ComparisonMethod, string> = {
+  ancova: 'ANCOVA',
+  wilcoxon: 'Wilcoxon / Hodges-Lehmann',
+  van_elteren: 'van Elteren (baseline strata)',
+};
+
+export const TimepointComparison: React.FC<TimepointComparisonProps> = ({ data, arms, visits, biomarker, showPercentChange, exportMeta }) => {
   const [viewMode, setViewMode] = useState<'chart' | 'auc' | 'table'>('chart');
+  const [method, setMethod] = useState<ComparisonMethod>('ancova');
+  const family = getDistribution(biomarker);
+
+  const baselineVisit = useMemo(() => getBaselineVisit(visits), [visits]);
+  const followUpVisits = useMemo(() => getFollowUpVisits(visits), [visits]);
 
   const processedData = useMemo(() => {
-    const timepoints = [Timepoint.WEEK_4, Timepoint.WEEK_12, Timepoint.WEEK_24];
-    
-    return timepoints.map(tp => {
-      const entry: any = { timepoint: tp };
+    return followUpVisits.map(visit => {
+      const tp = visit.label;
+      const entry: any = { timepoint: tp, week: weeksFromBaseline(visit, baselineVisit) };
       
-      Object.values(Arm).forEach(arm => {
+      arms.forEach(({ name: arm }) => {
         const values = data
           .filter(p => p.arm === arm)
           .map(p => {
@@ -43,14 +64,12 @@ export const TimepointComparison: React.FC<TimepointComparisonProps> = ({ data,
           })
           .filter((v): v is number => v !== undefined);
 
-        if (values.length > 0) {
-          const mean = values.reduce((a, b) => a + b, 0) / values.length;
-          const variance = values.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / values.length;
-          const sem = Math.sqrt(variance) / Math.sqrt(values.length);
-
-          entry[arm] = mean;
-          entry[`${arm}_error`] = sem;
-          entry[`${arm}_n`] = values.length;
+        // % change of skewed markers is summarized as a geometric mean ratio
+        const summary = summarizeChange(values, family, showPercentChange);
+        if (summary) {
+          entry[arm] = summary.mean;
+          entry[`${arm}_error`] = summary.sem;
+          entry[`${arm}_n`] = summary.n;
         } else {
           entry[arm] = 0;
           entry[`${arm}_error`] = 0;
@@ -60,112 +79,158 @@ export const TimepointComparison: React.FC<TimepointComparisonProps> = ({ data,
       
       return entry;
     });
-  }, [data, biomarker.id, showPercentChange]);
+  }, [data, arms, followUpVisits, baselineVisit, biomarker.id, family, showPercentChange]);
 
-  // Helper to extract numeric week from Timepoint
-  const getWeek = (tp: Timepoint | string): number => {
-    if (tp === Timepoint.BASELINE) return 0;
-    if (tp === Timepoint.WEEK_4) return 4;
-    if (tp === Timepoint.WEEK_12) return 12;
-    if (tp === Timepoint.WEEK_24) return 24;
-    return 0;
-  };
+  // Baseline-adjusted ANCOVA per visit (change ~ arm + baseline), each arm vs control
+  const referenceArm = useMemo(() => getControlArm(arms)?.name ?? arms[0]?.name, [arms]);
+  const ancovaScale = getAncovaScale(biomarker, showPercentChange);
+  const ancovaByVisit = useMemo(() => {
+    const result = new Map<string, AncovaResult>();
+    if (!referenceArm || method !== 'ancova') return result;
+    const armOrder = arms.map(a => a.name);
+    followUpVisits.forEach(visit => {
+      const observations = buildAncovaObservations(data, biomarker.id, baselineVisit.label, visit.label, showPercentChange, ancovaScale);
+      const fit = fitAncova(observations, armOrder, referenceArm, ancovaScale);
+      if (fit) result.set(visit.label, fit);
+    });
+    return result;
+  }, [data, arms, followUpVisits, baselineVisit, biomarker.id, showPercentChange, ancovaScale, referenceArm, method]);
 
-  const aucData = useMemo(() => {
-    const result: Record<Arm, number> = {
-      [Arm.PLACEBO]: 0,
-      [Arm.DRUG_1MG]: 0,
-      [Arm.DRUG_2MG]: 0
-    };
+  // Rank-based alternative: same responses and model scale, each arm vs control
+  const rankByVisit = useMemo(() => {
+    const result = new Map<string, RankComparisonResult>();
+    if (!referenceArm || method === 'ancova') return result;
+    const armOrder = arms.map(a => a.name);
+    followUpVisits.forEach(visit => {
+      const observations = buildAncovaObservations(data, biomarker.id, baselineVisit.label, visit.label, showPercentChange, ancovaScale);
+      const comparison = compareRanks(observations, armOrder, referenceArm, ancovaScale, method);
+      if (comparison) result.set(visit.label, comparison);
+    });
+    return result;
+  }, [data, arms, followUpVisits, baselineVisit, biomarker.id, showPercentChange, ancovaScale, referenceArm, method]);
+  const hasRanks = rankByVisit.size > 0;
 
-    Object.values(Arm).forEach(arm => {
-      // Points: (0,0) -> (4, val4) -> (12, val12) -> (24, val24)
-      const p0 = 0; // Baseline change is assumed 0
-      
-      // Extract means from processedData
-      const getVal = (tp: Timepoint) => {
-        const row = processedData.find(d => d.timepoint === tp);
-        return row ? (row[arm] || 0) : 0;
-      };
+  // Bar view: LS means with asymmetric 95% CI error bars; raw mean ± SEM where the model cannot be fitted
+  const barData = useMemo(() => processedData.map(row => {
+    const fit = ancovaByVisit.get(row.timepoint);
+    const entry: any = { timepoint: row.timepoint, adjusted: !!fit };
+    arms.forEach(({ name: arm }) => {
+      const ls = fit?.lsMeans.find(l => l.arm === arm);
+      if (ls) {
+        entry[arm] = ls.estimate;
+        entry[`${arm}_error`] = [ls.estimate - ls.lower, ls.upper - ls.estimate];
+        entry[`${arm}_label`] = `${ls.estimate.toFixed(2)} (95% CI ${ls.lower.toFixed(2)} to ${ls.upper.toFixed(2)})`;
+      } else {
+        entry[arm] = row[arm];
+        entry[`${arm}_error`] = row[`${arm}_error`];
+        entry[`${arm}_label`] = `${row[arm].toFixed(2)} (±${row[`${arm}_error`].toFixed(2)} SEM)`;
+      }
+    });
+    return entry;
+  }), [processedData, ancovaByVisit, arms]);
+  const hasAncova = ancovaByVisit.size > 0;
 
-      const p4 = getVal(Timepoint.WEEK_4);
-      const p12 = getVal(Timepoint.WEEK_12);
-      const p24 = getVal(Timepoint.WEEK_24);
+  // Prepare data specifically for Area Chart (needs numeric X axis for correct area representation).
+  // Baseline change is 0 by definition; follow-up visits sit at their elapsed study week.
+  const aucPlotData = useMemo(() => {
+    const origin: any = { week: 0 };
+    arms.forEach(({ name: arm }) => { origin[arm] = 0; });
+    return [origin, ...processedData];
+  }, [processedData, arms]);
 
-      // Trapezoidal Rule
-      let area = 0;
-      // 0 to 4
-      area += (getWeek(Timepoint.WEEK_4) - 0) * (p0 + p4) / 2;
-      // 4 to 12
-      area += (getWeek(Timepoint.WEEK_12) - getWeek(Timepoint.WEEK_4)) * (p4 + p12) / 2;
-      // 12 to 24
-      area += (getWeek(Timepoint.WEEK_24) - getWeek(Timepoint.WEEK_12)) * (p12 + p24) / 2;
+  const aucEndWeek = aucPlotData[aucPlotData.length - 1].week as number;
 
+  // Trapezoidal rule over real elapsed time, so irregular visit spacing is weighted correctly
+  const aucData = useMemo(() => {
+    const result: Record<Arm, number> = {};
+
+    arms.forEach(({ name: arm }) => {
+      let area = 0;
+      for (let i = 1; i < aucPlotData.length; i++) {
+        const prev = aucPlotData[i - 1];
+        const curr = aucPlotData[i];
+        area += (curr.week - prev.week) * ((prev[arm] || 0) + (curr[arm] || 0)) / 2;
+      }
       result[arm] = area;
     });
 
     return result;
-  }, [processedData]);
-
-  // Prepare data specifically for Area Chart (needs numeric X axis for correct area representation)
-  const aucPlotData = useMemo(() => {
-    const weeks = [0, 4, 12, 24];
-    return weeks.map(week => {
-      const entry: any = { week };
-      
-      Object.values(Arm).forEach(arm => {
-        if (week === 0) {
-          entry[arm] = 0;
-        } else {
-          // Find the value from processedData
-          let tp: Timepoint;
-          if (week === 4) tp = Timepoint.WEEK_4;
-          else if (week === 12) tp = Timepoint.WEEK_12;
-          else tp = Timepoint.WEEK_24;
-
-          const row = processedData.find(d => d.timepoint === tp);
-          entry[arm] = row ? row[arm] : 0;
-        }
-      });
-      return entry;
-    });
-  }, [processedData]);
+  }, [aucPlotData, arms]);
 
   const handleExportCSV = () => {
     analytics.logEvent('DATA_EXPORT', { biomarker: biomarker.id, type: 'CSV' });
     
-    const headers = ['Timepoint', 'Arm', 'N', `Mean Change ${showPercentChange ? '(%)' : `(${biomarker.unit})`}`, 'SEM'];
-    const csvRows = [headers.join(',')];
+    const summaryLabel = showPercentChange ? meanLabel(family) : 'Mean';
+    const unitLabel = showPercentChange ? '(%)' : `(${biomarker.unit})`;
+    const reference = referenceArm ?? 'Control';
+    const headers = method === 'ancova'
+      ? [
+          'Timepoint', 'Arm', 'N', `${summaryLabel} Change ${unitLabel}`, 'SEM',
+          'ANCOVA N', `LS Mean ${unitLabel}`, 'LS Mean 95% CI Lower', 'LS Mean 95% CI Upper',
+          `Difference vs ${reference} ${unitLabel}`, 'Difference 95% CI Lower', 'Difference 95% CI Upper', 'p-value'
+        ]
+      : [
+          'Timepoint', 'Arm', 'N', `${summaryLabel} Change ${unitLabel}`, 'SEM',
+          'Rank N', `Median ${unitLabel}`,
+          `HL Shift vs ${reference} ${unitLabel}`, 'HL Shift 95% CI Lower', 'HL Shift 95% CI Upper', 'Z', 'p-value'
+        ];
+    const csvRows: (string | number)[][] = [headers];
 
     processedData.forEach(row => {
-      Object.values(Arm).forEach(arm => {
-        const line = [
-          row.timepoint,
-          arm,
-          row[`${arm}_n`],
-          row[arm]?.toFixed(4) || '0',
-          row[`${arm}_error`]?.toFixed(4) || '0'
-        ];
-        csvRows.push(line.join(','));
+      const fit = ancovaByVisit.get(row.timepoint);
+      const ranks = rankByVisit.get(row.timepoint);
+      arms.forEach(({ name: arm }) => {
+        const observed = [row.timepoint, arm, row[`${arm}_n`], row[arm]?.toFixed(4) || '0', row[`${arm}_error`]?.toFixed(4) || '0'];
+        if (method === 'ancova') {
+          const ls = fit?.lsMeans.find(l => l.arm === arm);
+          const diff = fit?.contrasts.find(c => c.arm === arm);
+          csvRows.push([
+            ...observed,
+            ls?.n ?? '',
+            ls?.estimate.toFixed(4) ?? '',
+            ls?.lower.toFixed(4) ?? '',
+            ls?.upper.toFixed(4) ?? '',
+            diff?.estimate.toFixed(4) ?? '',
+            diff?.lower.toFixed(4) ?? '',
+            diff?.upper.toFixed(4) ?? '',
+            diff ? diff.pValue.toPrecision(4) : ''
+          ]);
+        } else {
+          const group = ranks?.groups.find(g => g.arm === arm);
+          const shift = ranks?.contrasts.find(c => c.arm === arm);
+          csvRows.push([
+            ...observed,
+            group?.n ?? '',
+            group?.median.toFixed(4) ?? '',
+            shift?.estimate.toFixed(4) ?? '',
+            shift?.lower.toFixed(4) ?? '',
+            shift?.upper.toFixed(4) ?? '',
+            shift?.statistic.toFixed(4) ?? '',
+            shift ? shift.pValue.toPrecision(4) : ''
+          ]);
+        }
       });
     });
 
-    const csvContent = csvRows.join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', `${biomarker.name}_change_analysis.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const response = ancovaScale === 'log_ratio'
+      ? 'log(value / baseline)'
+      : showPercentChange ? '% change' : 'change';
+    const analysis = method === 'ancova'
+      ? `ANCOVA per visit: ${response} ~ arm + ${ancovaScale === 'log_ratio' ? 'log(baseline); back-transformed to % (geometric mean ratio)' : 'baseline'}`
+      : `${method === 'wilcoxon' ? 'Wilcoxon rank-sum' : `van Elteren stratified by baseline (${DEFAULT_BASELINE_STRATA} equal-count strata)`} test on ${response}, normal approximation; Hodges-Lehmann shift with Moses 95% CI${ancovaScale === 'log_ratio' ? ', back-transformed to % (ratio)' : ''}`;
+    downloadCSV(`${biomarker.name}_change_analysis.csv`, csvRows, { ...exportMeta, Analysis: analysis });
   };
 
   const yAxisLabel = showPercentChange 
-    ? 'Mean % Change from Baseline' 
+    ? `${meanLabel(family)} % Change from Baseline` 
     : `Mean Change (${biomarker.unit})`;
 
+  const barYAxisLabel = !hasAncova
+    ? yAxisLabel
+    : showPercentChange
+      ? `LS Mean % Change${ancovaScale === 'log_ratio' ? ' (GMR)' : ''}`
+      : `LS Mean Change (${biomarker.unit})`;
+
   return (
     <div className="w-full bg-white p-6 rounded-xl shadow-sm border border-slate-200">
       <div className="flex flex-col lg:flex-row lg:items-center justify-between mb-6 gap-4">
@@ -178,6 +243,17 @@ export const TimepointComparison: React.FC<TimepointComparisonProps> = ({ data,
         </div>
         
         <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as ComparisonMethod)}
+            className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none"
+            title="Analysis method for the between-arm comparison"
+          >
+            {(Object.keys(COMPARISON_METHOD_LABELS) as ComparisonMethod[]).map(m => (
+              <option key={m} value={m}>{COMPARISON_METHOD_LABELS[m]}</option>
+            ))}
+          </select>
+
           <button
             onClick={handleExportCSV}
             className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-md hover:bg-slate-50 hover:text-slate-900 transition-colors shadow-sm whitespace-nowrap"
@@ -226,25 +302,20 @@ export const TimepointComparison: React.FC<TimepointComparisonProps> = ({ data,
       <div className="h-[400px]">
         {viewMode === 'chart' && (
           <ResponsiveContainer width="100%" height="100%">
-            <BarChart data={processedData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+            <BarChart data={barData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
               <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
               <XAxis dataKey="timepoint" stroke="#64748b" fontSize={12} tickMargin={10} />
-              <YAxis stroke="#64748b" fontSize={12} label={{ value: yAxisLabel, angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }} />
+              <YAxis stroke="#64748b" fontSize={12} label={{ value: barYAxisLabel, angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }} />
               <Tooltip 
                 cursor={{fill: 'transparent'}}
                 contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e2e8f0', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-                formatter={(value: number, name: string, props: any) => {
-                    const error = props.payload[`${name}_error`];
-                    return [
-                        `${value.toFixed(2)}${showPercentChange ? '%' : ''} (±${error.toFixed(2)})`, 
-                        name
-                    ];
-                }}
+                formatter={(_value: number, name: string, props: any) => [props.payload[`${name}_label`], name]}
+                labelFormatter={(label) => `${label}${barData.find(d => d.timepoint === label)?.adjusted ? ' · LS mean (95% CI)' : ' · Mean (±SEM)'}`}
               />
               <Legend wrapperStyle={{ paddingTop: '20px' }} />
               <ReferenceLine y={0} stroke="#94a3b8" />
-              {Object.values(Arm).map(arm => (
-                <Bar key={arm} dataKey={arm} name={arm} fill={ARM_COLORS[arm]} radius={[4, 4, 0, 0]}>
+              {arms.map(({ name: arm, color }) => (
+                <Bar key={arm} dataKey={arm} name={arm} fill={color} radius={[4, 4, 0, 0]}>
                     <ErrorBar dataKey={`${arm}_error`} width={4} strokeWidth={2} stroke="rgba(0,0,0,0.5)" />
                 </Bar>
               ))}
@@ -259,7 +330,7 @@ export const TimepointComparison: React.FC<TimepointComparisonProps> = ({ data,
               <XAxis 
                 dataKey="week" 
                 type="number" 
-                domain={[0, 24]} 
+                domain={[0, Math.max(1, Math.ceil(aucEndWeek))]} 
                 tickCount={7} 
                 stroke="#64748b" 
                 fontSize={12} 
@@ -273,18 +344,18 @@ export const TimepointComparison: React.FC<TimepointComparisonProps> = ({ data,
               <Tooltip 
                 contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e2e8f0', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
                 formatter={(value: number) => [`${value.toFixed(2)}${showPercentChange ? '%' : ''}`, 'Mean Change']}
-                labelFormatter={(label) => `Week ${label}`}
+                labelFormatter={(label) => `Week ${+Number(label).toFixed(1)}`}
               />
               <Legend wrapperStyle={{ paddingTop: '20px' }} />
               <ReferenceLine y={0} stroke="#94a3b8" />
-              {Object.values(Arm).map(arm => (
+              {arms.map(({ name: arm, color }) => (
                 <Area 
                   key={arm} 
                   type="linear" 
                   dataKey={arm} 
                   name={arm}
-                  stroke={ARM_COLORS[arm]} 
-                  fill={ARM_COLORS[arm]} 
+                  stroke={color} 
+                  fill={color} 
                   fillOpacity={0.1} 
                   strokeWidth={2}
                   activeDot={{ r: 6 }}
@@ -306,20 +377,29 @@ export const TimepointComparison: React.FC<TimepointComparisonProps> = ({ data,
                     Mean Change {showPercentChange ? '(%)' : `(${biomarker.unit})`}
                   </th>
                   <th className="py-3 px-4 font-semibold text-slate-700 text-right">SEM</th>
+                  <th className="py-3 px-4 font-semibold text-slate-700 text-right">{method === 'ancova' ? 'LS Mean (95% CI)' : 'Median'}</th>
+                  <th className="py-3 px-4 font-semibold text-slate-700 text-right">{method === 'ancova' ? 'Diff' : 'HL Shift'} vs {referenceArm} (95% CI)</th>
+                  <th className="py-3 px-4 font-semibold text-slate-700 text-right">p-value</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-100">
                 {processedData.map((row) => (
                   <React.Fragment key={row.timepoint}>
-                    {Object.values(Arm).map((arm, idx) => (
+                    {arms.map(({ name: arm, color }, idx) => {
+                      const fit = ancovaByVisit.get(row.timepoint);
+                      const ranks = rankByVisit.get(row.timepoint);
+                      const ls = fit?.lsMeans.find(l => l.arm === arm);
+                      const group = ranks?.groups.find(g => g.arm === arm);
+                      const diff = fit?.contrasts.find(c => c.arm === arm) ?? ranks?.contrasts.find(c => c.arm === arm);
+                      return (
                       <tr key={`${row.timepoint}-${arm}`} className="hover:bg-slate-50/50">
                         {idx === 0 && (
-                          <td className="py-3 px-4 font-medium text-slate-900 align-top border-r border-slate-100 bg-white" rowSpan={3}>
+                          <td className="py-3 px-4 font-medium text-slate-900 align-top border-r border-slate-100 bg-white" rowSpan={arms.length}>
                             {row.timepoint}
                           </td>
                         )}
                         <td className="py-3 px-4 text-slate-600 flex items-center gap-2">
-                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ARM_COLORS[arm] }}></span>
+                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }}></span>
                           {arm}
                         </td>
                         <td className="py-3 px-4 text-slate-600 text-right font-mono">{row[`${arm}_n`]}</td>
@@ -329,8 +409,18 @@ export const TimepointComparison: React.FC<TimepointComparisonProps> = ({ data,
                         <td className="py-3 px-4 text-slate-400 text-right font-mono">
                           ±{row[`${arm}_error`].toFixed(2)}
                         </td>
+                        <td className="py-3 px-4 text-slate-600 text-right font-mono whitespace-nowrap">
+                          {ls ? `${ls.estimate.toFixed(2)} (${ls.lower.toFixed(2)}, ${ls.upper.toFixed(2)})` : group ? group.median.toFixed(2) : '—'}
+                        </td>
+                        <td className="py-3 px-4 text-slate-600 text-right font-mono whitespace-nowrap">
+                          {diff ? `${diff.estimate > 0 ? '+' : ''}${diff.estimate.toFixed(2)} (${diff.lower.toFixed(2)}, ${diff.upper.toFixed(2)})` : '—'}
+                        </td>
+                        <td className={`py-3 px-4 text-right font-mono ${diff && diff.pValue < 0.05 ? 'text-indigo-600 font-semibold' : 'text-slate-400'}`}>
+                          {diff ? formatPValue(diff.pValue) : '—'}
+                        </td>
                       </tr>
-                    ))}
+                      );
+                    })}
                   </React.Fragment>
                 ))}
               </tbody>
@@ -339,26 +429,40 @@ export const TimepointComparison: React.FC<TimepointComparisonProps> = ({ data,
         )}
       </div>
 
+      {hasAncova && viewMode !== 'auc' && (
+        <p className="mt-2 text-[10px] text-slate-400">
+          ANCOVA per visit ({ancovaScale === 'log_ratio' ? 'log ratio to baseline ~ arm + log baseline, back-transformed to %' : `${showPercentChange ? '% change' : 'change'} ~ arm + baseline`}).
+          LS means are evaluated at the mean baseline with 95% CIs; differences and p-values are versus {referenceArm}.
+        </p>
+      )}
+
+      {hasRanks && viewMode === 'table' && (
+        <p className="mt-2 text-[10px] text-slate-400">
+          {method === 'wilcoxon' ? 'Wilcoxon rank-sum test' : `van Elteren test stratified by baseline (${DEFAULT_BASELINE_STRATA} equal-count strata)`} on {ancovaScale === 'log_ratio' ? 'the log ratio to baseline' : showPercentChange ? '% change' : 'change'}, normal approximation with tie correction.
+          Hodges-Lehmann shifts with Moses 95% CIs{ancovaScale === 'log_ratio' ? ' are back-transformed to % (ratio)' : ''}; versus {referenceArm}. Charts show observed means.
+        </p>
+      )}
+
       {/* AUC Section */}
       <div className="mt-8 pt-6 border-t border-slate-100">
          <h4 className="text-sm font-bold text-slate-700 mb-4 flex items-center gap-2">
             <div className="p-1.5 bg-indigo-50 text-indigo-600 rounded-md">
               <Sigma size={16} />
             </div>
-            Area Under the Curve (AUC: 0-24 Weeks)
+            Area Under the Curve (AUC: 0-{+aucEndWeek.toFixed(1)} Weeks)
          </h4>
          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-            {Object.values(Arm).map(arm => (
+            {arms.map(({ name: arm, color }) => (
                 <div key={arm} className="bg-slate-50 rounded-lg p-4 border border-slate-200 relative overflow-hidden group hover:border-indigo-200 transition-colors">
                     <div className="absolute top-0 right-0 p-2 opacity-10 group-hover:opacity-20 transition-opacity">
-                      <Sigma size={48} color={ARM_COLORS[arm]} />
+                      <Sigma size={48} color={color} />
                     </div>
                     <div className="flex items-center gap-2 mb-2">
-                        <span className="w-2.5 h-2.5 rounded-full ring-2 ring-white shadow-sm" style={{ backgroundColor: ARM_COLORS[arm] }}></span>
+                        <span className="w-2.5 h-2.5 rounded-full ring-2 ring-white shadow-sm" style={{ backgroundColor: color }}></span>
                         <span className="text-xs font-semibold uppercase text-slate-500 tracking-wider">{arm}</span>
                     </div>
                     <div className="text-2xl font-mono font-bold text-slate-800 tracking-tight">
-                        {aucData[arm].toFixed(2)}
+                        {(aucData[arm] ?? 0).toFixed(2)}
                     </div>
                     <div className="text-[10px] text-slate-400 font-medium mt-1">
                       {showPercentChange ? 'Percent' : biomarker.unit} · Weeks
@@ -370,7 +474,7 @@ export const TimepointComparison: React.FC<TimepointComparisonProps> = ({ data,
          <div className="mt-4 p-3 bg-indigo-50/50 border border-indigo-100 rounded-lg flex gap-2 items-start">
             <Info className="w-4 h-4 text-indigo-500 mt-0.5 shrink-0" />
             <p className="text-xs text-indigo-800 leading-relaxed">
-              <strong>Calculation Methodology:</strong> AUC is computed using the trapezoidal rule applied to group means at discrete timepoints (Baseline to Week 24). This cumulative metric aggregates the total magnitude of change over the study duration, where a larger area indicates a sustained effect.
+              <strong>Calculation Methodology:</strong> AUC is computed using the trapezoidal rule applied to group means at each scheduled visit, placed at its nominal study day ({baselineVisit.label} to {followUpVisits[followUpVisits.length - 1]?.label ?? baselineVisit.label}). This cumulative metric aggregates the total magnitude of change over the study duration, where a larger area indicates a sustained effect.
             </p>
          </div>
       </div>
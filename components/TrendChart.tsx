@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   LineChart,
   Line,
@@ -10,26 +10,51 @@ import {
   ResponsiveContainer,
   ErrorBar
 } from 'recharts';
-import { Arm, BiomarkerDef, PatientData, Timepoint } from '../types';
-import { ARM_COLORS, TIMEPOINT_ORDER } from '../constants';
+import { Play, Square } from 'lucide-react';
+import { ArmDef, BiomarkerDef, PatientData, VisitDef } from '../types';
+import { getBaselineVisit, getFollowUpVisits, getScheduledVisits } from '../services/visitSchedule';
+import { getDistribution, meanLabel, summarizeLevels, summarizePercentChange } from '../services/distributions';
+import { getControlArm } from '../services/studyArms';
+import { getAncovaScale } from '../services/ancova';
+import { COVARIANCE_LABELS, CovarianceStructure, DF_METHOD_LABELS, DfMethod, MmrmResult } from '../services/mmrm';
+import { CohortTask, startCohortTask } from '../services/cohortTaskClient';
+import { formatPValue } from '../services/statistics';
 
 interface TrendChartProps {
   data: PatientData[];
+  arms: ArmDef[];
+  visits: VisitDef[];
   biomarker: BiomarkerDef;
   showPercentChange: boolean;
 }
 
-export const TrendChart: React.FC<TrendChartProps> = ({ data, biomarker, showPercentChange }) => {
+type TrendMode = 'observed' | 'mmrm';
+
+type MmrmFitState =
+  | { status: 'idle' }
+  | { status: 'fitting'; iteration: number }
+  | { status: 'done'; result?: MmrmResult }
+  | { status: 'cancelled' }
+  | { status: 'error'; message: string };
+
+export const TrendChart: React.FC<TrendChartProps> = ({ data, arms, visits, biomarker, showPercentChange }) => {
   const [isLogScale, setIsLogScale] = useState(false);
+  const [mode, setMode] = useState<TrendMode>('observed');
+  const [structure, setStructure] = useState<CovarianceStructure>('unstructured');
+  const [dfMethod, setDfMethod] = useState<DfMethod>('kenward_roger');
+  const [fit, setFit] = useState<MmrmFitState>({ status: 'idle' });
+  const [fitRun, setFitRun] = useState(0);
+  const fitTaskRef = useRef<CohortTask<MmrmResult | undefined> | null>(null);
+  const family = getDistribution(biomarker);
   
   // Calculate Mean and SEM for each Arm at each Timepoint
   const chartData = useMemo(() => {
     const result: any[] = [];
 
-    TIMEPOINT_ORDER.forEach(tp => {
+    getScheduledVisits(visits).forEach(({ label: tp }) => {
       const pointData: any = { name: tp };
       
-      Object.values(Arm).forEach(arm => {
+      arms.forEach(({ name: arm }) => {
         // Filter measurements for this arm, timepoint, and biomarker
         const values: number[] = [];
         
@@ -38,7 +63,8 @@ export const TrendChart: React.FC<TrendChartProps> = ({ data, biomarker, showPer
             const m = p.measurements.find(m => m.biomarkerId === biomarker.id && m.timepoint === tp);
             if (m) {
               if (showPercentChange) {
-                values.push(m.percentChange || 0);
+                // No % change without a usable baseline (e.g. an excluded censored baseline)
+                if (m.percentChange !== undefined) values.push(m.percentChange);
               } else {
                 values.push(m.value);
               }
@@ -46,84 +72,260 @@ export const TrendChart: React.FC<TrendChartProps> = ({ data, biomarker, showPer
           }
         });
 
-        if (values.length > 0) {
-          const mean = values.reduce((a, b) => a + b, 0) / values.length;
-          const variance = values.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / values.length;
-          const sd = Math.sqrt(variance);
-          const sem = sd / Math.sqrt(values.length);
-
-          pointData[arm] = mean;
-          pointData[`${arm}_error`] = sem;
+        // Skewed (log-normal / gamma) markers are summarized by geometric means
+        const summary = showPercentChange ? summarizePercentChange(values, family) : summarizeLevels(values, family);
+        if (summary) {
+          pointData[arm] = summary.mean;
+          pointData[`${arm}_error`] = summary.sem;
         }
+        pointData[`${arm}_n`] = values.length;
       });
 
       result.push(pointData);
     });
 
     return result;
-  }, [data, biomarker.id, showPercentChange]);
+  }, [data, arms, visits, biomarker.id, family, showPercentChange]);
+
+  // Model-based view: MMRM on change (or % change) across all follow-up visits, fitted only when
+  // shown. REML on large cohorts takes seconds, so the fit runs in the cohort worker and can be cancelled.
+  const referenceArm = getControlArm(arms)?.name ?? arms[0]?.name;
+  const mmrmScale = getAncovaScale(biomarker, showPercentChange);
+  useEffect(() => {
+    if (mode !== 'mmrm' || !referenceArm) {
+      setFit({ status: 'idle' });
+      return;
+    }
+    // Only the analyzed biomarker is sent to the worker
+    const patients = data.map(p => ({ ...p, measurements: p.measurements.filter(m => m.biomarkerId === biomarker.id) }));
+    let active = true;
+    setFit({ status: 'fitting', iteration: 0 });
+    const task = startCohortTask(
+      {
+        type: 'mmrm',
+        patients,
+        biomarkerId: biomarker.id,
+        baselineVisit: getBaselineVisit(visits).label,
+        visits: getFollowUpVisits(visits).map(v => v.label),
+        armOrder: arms.map(a => a.name),
+        referenceArm,
+        isPercent: showPercentChange,
+        scale: mmrmScale,
+        structure,
+        dfMethod,
+      },
+      (iteration) => { if (active) setFit({ status: 'fitting', iteration }); }
+    );
+    fitTaskRef.current = task;
+    task.result
+      .then(result => { if (active && result !== null) setFit({ status: 'done', result }); })
+      .catch(err => { if (active) setFit({ status: 'error', message: err instanceof Error ? err.message : 'Unknown error.' }); });
+    return () => {
+      active = false;
+      task.cancel();
+    };
+  }, [mode, data, arms, visits, biomarker.id, showPercentChange, mmrmScale, referenceArm, structure, dfMethod, fitRun]);
+
+  const cancelFit = () => {
+    fitTaskRef.current?.cancel();
+    setFit({ status: 'cancelled' });
+  };
+
+  const mmrm = fit.status === 'done' ? fit.result : undefined;
+  // The first render after switching to MMRM comes before the fit starts
+  const isFitting = fit.status === 'fitting' || (fit.status === 'idle' && !!referenceArm);
+  const fitIteration = fit.status === 'fitting' ? fit.iteration : 0;
+
+  // LS means with asymmetric 95% CI error bars; baseline change is 0 by definition
+  const mmrmChartData = useMemo(() => {
+    if (!mmrm) return [];
+    const baselineRow: any = { name: getBaselineVisit(visits).label };
+    arms.forEach(({ name: arm }) => {
+      baselineRow[arm] = 0;
+      baselineRow[`${arm}_error`] = [0, 0];
+      baselineRow[`${arm}_label`] = 'Baseline';
+    });
+    return [baselineRow, ...mmrm.visits.map(visit => {
+      const row: any = { name: visit };
+      mmrm.lsMeans.filter(l => l.visit === visit).forEach(ls => {
+        row[ls.arm] = ls.estimate;
+        row[`${ls.arm}_error`] = [ls.estimate - ls.lower, ls.upper - ls.estimate];
+        row[`${ls.arm}_label`] = `${ls.estimate.toFixed(2)} (95% CI ${ls.lower.toFixed(2)} to ${ls.upper.toFixed(2)}, n=${ls.n})`;
+      });
+      return row;
+    })];
+  }, [mmrm, arms, visits]);
 
-  const yAxisLabel = showPercentChange ? '% Change from Baseline' : `${biomarker.name} (${biomarker.unit})`;
+  const isModel = mode === 'mmrm';
+  const yAxisLabel = isModel
+    ? showPercentChange
+      ? `LS Mean % Change${mmrmScale === 'log_ratio' ? ' (GMR)' : ''}`
+      : `LS Mean Change (${biomarker.unit})`
+    : showPercentChange ? '% Change from Baseline' : `${biomarker.name} (${biomarker.unit})`;
   
   // Log scale is only valid for absolute values (which are strictly positive in this app)
   // Percent change contains negative values and zeros.
-  const showLogToggle = !showPercentChange;
+  const showLogToggle = !showPercentChange && !isModel;
   const scaleType = showLogToggle && isLogScale ? 'log' : 'auto';
   const domain = scaleType === 'log' ? ['auto', 'auto'] : ['auto', 'auto'];
 
   return (
-    <div className="w-full h-[400px] bg-white p-4 rounded-xl shadow-sm border border-slate-200">
-      <div className="flex justify-between items-start mb-4">
+    <div className="w-full min-h-[400px] flex flex-col bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex justify-between items-start mb-4 gap-3">
         <h3 className="text-lg font-semibold text-slate-800">
-          {biomarker.name} - {showPercentChange ? 'Mean Percent Change' : 'Mean Absolute Value'} (±SEM)
+          {isModel
+            ? `${biomarker.name} - MMRM LS Mean ${showPercentChange ? '% Change' : 'Change'} (95% CI)`
+            : `${biomarker.name} - ${meanLabel(family)} ${showPercentChange ? 'Percent Change' : 'Absolute Value'} (±SEM)`}
         </h3>
-        
-        {showLogToggle && (
-          <button
-            onClick={() => setIsLogScale(!isLogScale)}
-            className={`px-3 py-1 text-xs font-medium rounded-md border transition-colors ${
-              isLogScale 
-                ? 'bg-indigo-50 text-indigo-700 border-indigo-200' 
-                : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
-            }`}
-          >
-            Log Scale {isLogScale ? 'ON' : 'OFF'}
-          </button>
+
+        <div className="flex items-center gap-2 shrink-0">
+          <div className="flex bg-slate-100 p-0.5 rounded-md">
+            {(['observed', 'mmrm'] as TrendMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-2.5 py-1 text-xs font-medium rounded transition-all ${
+                  mode === m ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-800'
+                }`}
+              >
+                {m === 'observed' ? 'Observed' : 'MMRM'}
+              </button>
+            ))}
+          </div>
+
+          {showLogToggle && (
+            <button
+              onClick={() => setIsLogScale(!isLogScale)}
+              className={`px-3 py-1 text-xs font-medium rounded-md border transition-colors ${
+                isLogScale
+                  ? 'bg-indigo-50 text-indigo-700 border-indigo-200'
+                  : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
+              }`}
+            >
+              Log Scale {isLogScale ? 'ON' : 'OFF'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isModel && (
+        <div className="flex flex-wrap items-center gap-2 mb-3 text-xs text-slate-500">
+          <label className="flex items-center gap-1.5">
+            Covariance
+            <select value={structure} onChange={(e) => setStructure(e.target.value as CovarianceStructure)} className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-700 focus:outline-none">
+              {(Object.keys(COVARIANCE_LABELS) as CovarianceStructure[]).map(c => (
+                <option key={c} value={c}>{COVARIANCE_LABELS[c]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1.5">
+            df
+            <select value={dfMethod} onChange={(e) => setDfMethod(e.target.value as DfMethod)} className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-700 focus:outline-none">
+              {(Object.keys(DF_METHOD_LABELS) as DfMethod[]).map(d => (
+                <option key={d} value={d}>{DF_METHOD_LABELS[d]}</option>
+              ))}
+            </select>
+          </label>
+          {mmrm && !mmrm.converged && <span className="text-amber-600">REML did not fully converge; interpret with care.</span>}
+        </div>
+      )}
+
+      <div className="h-[320px]">
+        {isModel && isFitting ? (
+          <div className="h-full flex flex-col items-center justify-center gap-3 text-sm text-slate-500">
+            <span>Fitting MMRM on {data.length.toLocaleString()} patients{fitIteration > 0 ? ` (REML iteration ${fitIteration})` : ''}…</span>
+            <button onClick={cancelFit} className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors">
+              <Square size={12} /> Cancel
+            </button>
+          </div>
+        ) : isModel && fit.status === 'cancelled' ? (
+          <div className="h-full flex flex-col items-center justify-center gap-3 text-sm text-slate-400">
+            <span>MMRM fit cancelled.</span>
+            <button onClick={() => setFitRun(n => n + 1)} className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors">
+              <Play size={12} /> Fit MMRM
+            </button>
+          </div>
+        ) : isModel && fit.status === 'error' ? (
+          <div className="h-full flex items-center justify-center text-sm text-amber-600">
+            The MMRM fit failed: {fit.message}
+          </div>
+        ) : isModel && !mmrm ? (
+          <div className="h-full flex items-center justify-center text-sm text-slate-400">
+            The MMRM could not be fitted: it needs baseline and follow-up values in {referenceArm ?? 'the control arm'} and at least one other arm.
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={isModel ? mmrmChartData : chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis dataKey="name" stroke="#64748b" fontSize={12} tickMargin={10} />
+              <YAxis
+                scale={scaleType}
+                domain={domain}
+                stroke="#64748b"
+                fontSize={12}
+                label={{ value: yAxisLabel, angle: -90, position: 'insideLeft', offset: -10, style: {textAnchor: 'middle'} }}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e2e8f0' }}
+                formatter={(value: number, name: string, item: any) => isModel
+                  ? [item.payload[`${name}_label`], name]
+                  : [`${value.toFixed(2)} (n=${item.payload[`${name}_n`]})`, name]}
+              />
+              <Legend verticalAlign="top" height={36} />
+
+              {arms.map(({ name: arm, color }) => (
+                <Line
+                  key={arm}
+                  type="monotone"
+                  dataKey={arm}
+                  stroke={color}
+                  strokeWidth={3}
+                  dot={{ r: 4, strokeWidth: 2 }}
+                  activeDot={{ r: 6 }}
+                >
+                  <ErrorBar dataKey={`${arm}_error`} width={4} strokeWidth={2} stroke={color} direction="y" />
+                </Line>
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
         )}
       </div>
 
-      <ResponsiveContainer width="100%" height="100%">
-        <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
-          <XAxis dataKey="name" stroke="#64748b" fontSize={12} tickMargin={10} />
-          <YAxis 
-            scale={scaleType} 
-            domain={domain} 
-            stroke="#64748b" 
-            fontSize={12} 
-            label={{ value: yAxisLabel, angle: -90, position: 'insideLeft', offset: -10, style: {textAnchor: 'middle'} }} 
-          />
-          <Tooltip 
-            contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e2e8f0' }}
-            formatter={(value: number) => [value.toFixed(2), '']}
-          />
-          <Legend verticalAlign="top" height={36} />
-          
-          {Object.values(Arm).map(arm => (
-            <Line
-              key={arm}
-              type="monotone"
-              dataKey={arm}
-              stroke={ARM_COLORS[arm]}
-              strokeWidth={3}
-              dot={{ r: 4, strokeWidth: 2 }}
-              activeDot={{ r: 6 }}
-            >
-              <ErrorBar dataKey={`${arm}_error`} width={4} strokeWidth={2} stroke={ARM_COLORS[arm]} direction="y" />
-            </Line>
-          ))}
-        </LineChart>
-      </ResponsiveContainer>
+      {isModel && mmrm && mmrm.contrasts.length > 0 && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-xs text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 border-b border-slate-200">
+                <th className="py-2 px-3 font-semibold text-slate-700">Visit</th>
+                <th className="py-2 px-3 font-semibold text-slate-700">Arm</th>
+                <th className="py-2 px-3 font-semibold text-slate-700 text-right">Diff vs {mmrm.referenceArm} (95% CI)</th>
+                <th className="py-2 px-3 font-semibold text-slate-700 text-right">df</th>
+                <th className="py-2 px-3 font-semibold text-slate-700 text-right">p-value</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {mmrm.contrasts.map(c => (
+                <tr key={`${c.visit}-${c.arm}`} className="hover:bg-slate-50/50">
+                  <td className="py-1.5 px-3 text-slate-900 font-medium">{c.visit}</td>
+                  <td className="py-1.5 px-3 text-slate-600">{c.arm}</td>
+                  <td className="py-1.5 px-3 text-slate-600 text-right font-mono whitespace-nowrap">
+                    {c.estimate > 0 ? '+' : ''}{c.estimate.toFixed(2)} ({c.lower.toFixed(2)}, {c.upper.toFixed(2)})
+                  </td>
+                  <td className="py-1.5 px-3 text-slate-400 text-right font-mono">{c.df.toFixed(1)}</td>
+                  <td className={`py-1.5 px-3 text-right font-mono ${c.pValue < 0.05 ? 'text-indigo-600 font-semibold' : 'text-slate-400'}`}>
+                    {formatPValue(c.pValue)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-[10px] text-slate-400">
+            MMRM ({mmrmScale === 'log_ratio' ? 'log ratio to baseline ~ arm × visit + log baseline × visit, back-transformed to %' : `${showPercentChange ? '% change' : 'change'} ~ arm × visit + baseline × visit`}),
+            {' '}{COVARIANCE_LABELS[mmrm.structure]} covariance, REML, {DF_METHOD_LABELS[mmrm.dfMethod]} df.
+            {' '}{mmrm.patients} patients, {mmrm.observations} post-baseline values; missing visits are assumed missing at random.
+          </p>
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,315 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Target, Play, Square, ChevronDown, ChevronUp, Download, AlertTriangle } from 'lucide-react';
+import { BiomarkerDef } from '../types';
+import { SimulationConfig } from '../services/simulation';
+import { CensoringRule } from '../services/censoring';
+import { getFollowUpVisits } from '../services/visitSchedule';
+import { analytics } from '../services/analytics';
+import { downloadCSV } from '../services/export';
+import {
+  DEFAULT_TRIAL_SETTINGS,
+  describeTrialAnalysis,
+  histogramEstimates,
+  summarizeEstimates,
+  TRIAL_ANALYSIS_LABELS,
+  TRIAL_ENDPOINT_LABELS,
+  TrialAnalysis,
+  TrialEndpoint,
+  TrialSimulationResult,
+  TrialSimulationSettings,
+  TrialWorkerRequest,
+  TrialWorkerResponse
+} from '../services/trialSimulation';
+
+interface TrialPowerSimulationProps {
+  config: SimulationConfig;
+  biomarkers: BiomarkerDef[];
+  censoringRule: CensoringRule;
+}
+
+const TRIAL_COUNT_OPTIONS = [100, 200, 500, 1000];
+
+const inputClass = 'w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none';
+
+const formatRate = (rate?: number) => (rate === undefined ? '—' : `${(rate * 100).toFixed(1)}%`);
+
+export const TrialPowerSimulation: React.FC<TrialPowerSimulationProps> = ({ config, biomarkers, censoringRule }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<TrialSimulationSettings>(DEFAULT_TRIAL_SETTINGS);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [result, setResult] = useState<TrialSimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedVisit, setSelectedVisit] = useState<string>('');
+  const [selectedCell, setSelectedCell] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const isRunning = progress !== null;
+
+  // Terminating the worker is the cancel mechanism; also done on unmount
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  };
+  useEffect(() => stopWorker, []);
+
+  const handleRun = () => {
+    stopWorker();
+    setError(null);
+    setProgress({ completed: 0, total: settings.trials });
+    analytics.logEvent('SIMULATION_RUN', { mode: 'monte_carlo', scenario: config.scenarioName, trials: settings.trials });
+
+    const worker = new Worker(new URL('../services/trialSimulation.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    worker.onmessage = (event: MessageEvent<TrialWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setProgress({ completed: message.completed, total: message.total });
+        return;
+      }
+      if (message.type === 'result') {
+        setResult(message.result);
+        const visits = getFollowUpVisits(config.visits);
+        setSelectedVisit(visits[visits.length - 1]?.label ?? '');
+        setSelectedCell(null);
+      } else {
+        setError(message.message);
+      }
+      setProgress(null);
+      stopWorker();
+    };
+    worker.onerror = (event) => {
+      setError(event.message || 'The simulation worker failed.');
+      setProgress(null);
+      stopWorker();
+    };
+    const request: TrialWorkerRequest = { type: 'run', request: { config, biomarkers, settings, censoringRule } };
+    worker.postMessage(request);
+  };
+
+  const handleCancel = () => {
+    stopWorker();
+    setProgress(null);
+  };
+
+  const updateSetting = <K extends keyof TrialSimulationSettings>(field: K, value: TrialSimulationSettings[K]) => {
+    setSettings(prev => ({ ...prev, [field]: value }));
+  };
+
+  const resultVisits = useMemo(() => (result ? Array.from(new Set(result.cells.map(c => c.timepoint))) : []), [result]);
+  const nameOf = (id: string) => biomarkers.find(b => b.id === id)?.name ?? id;
+  const isPercent = result?.settings.endpoint === 'percent_change';
+
+  const visitRows = useMemo(() => {
+    if (!result) return [];
+    return result.cells
+      .filter(c => c.timepoint === selectedVisit)
+      .map(c => ({ ...c, key: `${c.biomarkerId}|${c.arm}`, summary: summarizeEstimates(c.estimates) }));
+  }, [result, selectedVisit]);
+
+  const activeRow = visitRows.find(r => r.key === selectedCell) ?? visitRows[0];
+  const histogram = useMemo(() => (activeRow ? histogramEstimates(activeRow.estimates) : []), [activeRow]);
+
+  const handleExport = () => {
+    if (!result) return;
+    analytics.logEvent('DATA_EXPORT', { type: 'CSV', view: 'monte_carlo_power' });
+    const unitSuffix = isPercent ? ' (%)' : '';
+    const rows: (string | number)[][] = [[
+      'Biomarker', 'Timepoint', 'Arm', 'Trials Tested', 'Power', 'Type I Error',
+      `Mean Estimate${unitSuffix}`, `SD Estimate${unitSuffix}`, 'Estimate 2.5%', 'Estimate 97.5%'
+    ]];
+    result.cells.forEach(c => {
+      const s = summarizeEstimates(c.estimates);
+      rows.push([
+        nameOf(c.biomarkerId), c.timepoint, c.arm, c.tested, c.power.toFixed(4), c.typeIError?.toFixed(4) ?? '',
+        s?.mean.toFixed(4) ?? '', s?.sd.toFixed(4) ?? '', s?.lower.toFixed(4) ?? '', s?.upper.toFixed(4) ?? ''
+      ]);
+    });
+    downloadCSV('monte_carlo_power.csv', rows, {
+      Source: 'Monte Carlo simulation',
+      Scenario: result.scenarioName,
+      Seed: config.seed,
+      Trials: result.settings.trials,
+      'Patients per Trial': result.settings.patientsPerTrial,
+      Endpoint: TRIAL_ENDPOINT_LABELS[result.settings.endpoint],
+      Alpha: result.settings.alpha,
+      Control: result.controlArm,
+      Test: describeTrialAnalysis(result.settings.analysis),
+    });
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200 mb-6">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-lg">
+            <Target size={20} />
+          </div>
+          <div className="text-left">
+            <h3 className="font-bold text-slate-800">Trial-Level Power (Monte Carlo)</h3>
+            <p className="text-xs text-slate-500">Re-run the current simulation many times and analyze every replicate.</p>
+          </div>
+        </div>
+        {isOpen ? <ChevronUp size={18} className="text-slate-400" /> : <ChevronDown size={18} className="text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-5 pt-5 border-t border-slate-100 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4 items-end">
+            <label className="space-y-1 text-xs font-medium text-slate-600">
+              <span>Trials</span>
+              <select value={settings.trials} onChange={(e) => updateSetting('trials', parseInt(e.target.value, 10))} className={inputClass} disabled={isRunning}>
+                {TRIAL_COUNT_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1 text-xs font-medium text-slate-600">
+              <span>Patients per Trial</span>
+              <input
+                type="number" min="10" step="10" value={settings.patientsPerTrial} disabled={isRunning}
+                onChange={(e) => {
+                  const n = parseInt(e.target.value, 10);
+                  if (n >= 10) updateSetting('patientsPerTrial', n);
+                }}
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-1 text-xs font-medium text-slate-600">
+              <span>Endpoint</span>
+              <select value={settings.endpoint} onChange={(e) => updateSetting('endpoint', e.target.value as TrialEndpoint)} className={inputClass} disabled={isRunning}>
+                {(Object.keys(TRIAL_ENDPOINT_LABELS) as TrialEndpoint[]).map(key => <option key={key} value={key}>{TRIAL_ENDPOINT_LABELS[key]}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1 text-xs font-medium text-slate-600">
+              <span>Analysis</span>
+              <select value={settings.analysis} onChange={(e) => updateSetting('analysis', e.target.value as TrialAnalysis)} className={inputClass} disabled={isRunning}>
+                {(Object.keys(TRIAL_ANALYSIS_LABELS) as TrialAnalysis[]).map(key => <option key={key} value={key}>{TRIAL_ANALYSIS_LABELS[key]}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1 text-xs font-medium text-slate-600">
+              <span>Alpha (two-sided)</span>
+              <select value={settings.alpha} onChange={(e) => updateSetting('alpha', parseFloat(e.target.value))} className={inputClass} disabled={isRunning}>
+                {[0.01, 0.025, 0.05, 0.1].map(a => <option key={a} value={a}>{a}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-xs font-medium text-slate-600 pb-2">
+              <input
+                type="checkbox" checked={settings.estimateTypeIError} disabled={isRunning}
+                onChange={(e) => updateSetting('estimateTypeIError', e.target.checked)}
+                className="w-4 h-4 text-indigo-600 rounded"
+              />
+              Estimate type I error
+            </label>
+          </div>
+
+          <div className="flex items-center gap-4">
+            {isRunning ? (
+              <button onClick={handleCancel} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors">
+                <Square size={14} /> Cancel
+              </button>
+            ) : (
+              <button onClick={handleRun} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm transition-colors">
+                <Play size={14} /> Simulate {settings.trials} Trials
+              </button>
+            )}
+            {isRunning && (
+              <div className="flex-1 flex items-center gap-3">
+                <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(progress!.completed / progress!.total) * 100}%` }} />
+                </div>
+                <span className="text-xs font-mono text-slate-500">{progress!.completed} / {progress!.total}</span>
+              </div>
+            )}
+            {!isRunning && result && (
+              <button onClick={handleExport} className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-md hover:bg-slate-50 transition-colors shadow-sm">
+                <Download size={16} /> Export CSV
+              </button>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start gap-3">
+              <AlertTriangle className="text-amber-500 mt-0.5 shrink-0" size={18} />
+              <p className="text-sm text-amber-800">{error}</p>
+            </div>
+          )}
+
+          {result && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <p className="text-xs text-slate-500">
+                    {result.scenarioName} · {result.settings.trials} trials × {result.settings.patientsPerTrial} patients · vs {result.controlArm}
+                  </p>
+                  <select value={selectedVisit} onChange={(e) => setSelectedVisit(e.target.value)} className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 focus:outline-none">
+                    {resultVisits.map(v => <option key={v} value={v}>{v}</option>)}
+                  </select>
+                </div>
+                <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="sticky top-0 bg-white">
+                      <tr className="border-b border-slate-100 text-slate-500">
+                        <th className="py-2 px-3 font-medium">Biomarker</th>
+                        <th className="py-2 px-3 font-medium">Arm</th>
+                        <th className="py-2 px-3 font-medium text-right">Power</th>
+                        <th className="py-2 px-3 font-medium text-right">Type I</th>
+                        <th className="py-2 px-3 font-medium text-right">Mean Effect{isPercent ? ' (%)' : ''}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visitRows.map(row => (
+                        <tr
+                          key={row.key}
+                          onClick={() => setSelectedCell(row.key)}
+                          className={`border-b border-slate-50 cursor-pointer ${row.key === activeRow?.key ? 'bg-indigo-50/60' : 'hover:bg-slate-50'}`}
+                        >
+                          <td className="py-2 px-3 font-medium text-slate-700">{nameOf(row.biomarkerId)}</td>
+                          <td className="py-2 px-3 text-slate-600">{row.arm}</td>
+                          <td className={`py-2 px-3 text-right font-mono ${row.power >= 0.8 ? 'text-emerald-600 font-semibold' : 'text-slate-700'}`}>{formatRate(row.power)}</td>
+                          <td className={`py-2 px-3 text-right font-mono ${row.typeIError !== undefined && row.typeIError > result.settings.alpha * 1.5 ? 'text-amber-600' : 'text-slate-500'}`}>{formatRate(row.typeIError)}</td>
+                          <td className="py-2 px-3 text-right font-mono text-slate-600">{row.summary ? row.summary.mean.toFixed(2) : '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div>
+                {activeRow?.summary ? (
+                  <>
+                    <h4 className="text-sm font-semibold text-slate-700">
+                      Effect Estimates: {nameOf(activeRow.biomarkerId)}, {activeRow.arm} vs {result.controlArm}
+                    </h4>
+                    <p className="text-xs text-slate-500 mb-2">
+                      Mean {activeRow.summary.mean.toFixed(2)} · SD {activeRow.summary.sd.toFixed(2)} · 95% of trials in [{activeRow.summary.lower.toFixed(2)}, {activeRow.summary.upper.toFixed(2)}]
+                    </p>
+                    <div className="h-64">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={histogram} margin={{ top: 10, right: 10, left: 0, bottom: 10 }} barCategoryGap={1}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+                          <XAxis dataKey="x" type="number" domain={['dataMin', 'dataMax']} stroke="#64748b" fontSize={10} tickFormatter={(v) => Number(v).toFixed(1)} />
+                          <YAxis stroke="#64748b" fontSize={10} allowDecimals={false} />
+                          <Tooltip formatter={(value: number) => [value, 'Trials']} labelFormatter={(x) => `Effect ≈ ${Number(x).toFixed(2)}`} />
+                          <ReferenceLine x={0} stroke="#94a3b8" />
+                          <Bar dataKey="count" fill="#6366f1" isAnimationActive={false} />
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </>
+                ) : (
+                  <div className="h-64 flex items-center justify-center text-sm text-slate-400">No testable trials for this comparison.</div>
+                )}
+              </div>
+            </div>
+          )}
+
+          <p className="text-[10px] text-slate-400">
+            Each trial regenerates the cohort with its own seed, applies the censoring rule and compares every active arm with control
+            by {TRIAL_ANALYSIS_LABELS[settings.analysis]} ({settings.endpoint === 'percent_change' ? 'log ratio to baseline for skewed markers, reported as geometric mean ratio' : 'absolute change'}).
+            Type I error reruns each trial with no drug responders and no non-responder dropout, so active arms behave like placebo. Power and type I error are the share of trials with p &lt; α.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
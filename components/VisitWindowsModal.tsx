@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { X, Calendar } from 'lucide-react';
+import { VisitDef } from '../types';
+import { VISIT_SCHEDULE_PRESETS } from '../constants';
+import { getScheduledVisits } from '../services/visitSchedule';
+import { MULTI_SAMPLE_RULE_LABELS, MultiSampleRule, VisitWindowSettings } from '../services/visitWindowing';
+
+interface VisitWindowsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: VisitWindowSettings;
+  onSave: (settings: VisitWindowSettings) => void;
+}
+
+export const VisitWindowsModal: React.FC<VisitWindowsModalProps> = ({ isOpen, onClose, settings, onSave }) => {
+  const [visits, setVisits] = useState<VisitDef[]>(settings.visits);
+  const [rule, setRule] = useState<MultiSampleRule>(settings.multiSampleRule);
+
+  // Start every edit session from the saved settings
+  useEffect(() => {
+    if (isOpen) {
+      setVisits(getScheduledVisits(settings.visits));
+      setRule(settings.multiSampleRule);
+    }
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const updateWindow = (label: string, field: 'start' | 'end', value: string) => {
+    const num = parseInt(value, 10);
+    if (isNaN(num)) return;
+    setVisits(prev => prev.map(v => {
+      if (v.label !== label) return v;
+      const window = v.window ?? { start: v.day!, end: v.day! };
+      return { ...v, window: { ...window, [field]: num } };
+    }));
+  };
+
+  const invalid = visits.filter(v => v.window && (v.window.start > v.window.end || v.day! < v.window.start || v.day! > v.window.end));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (invalid.length > 0) return;
+    onSave({ visits, multiSampleRule: rule });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100">
+          <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+            <Calendar size={18} className="text-indigo-600" />
+            Visit Windows
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <p className="text-xs text-slate-500 leading-relaxed">
+            Uploaded samples without a visit label are assigned to the visit whose study-day window contains them.
+            Samples outside every window are excluded and listed in the import report.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Protocol Schedule</label>
+              <select
+                defaultValue=""
+                onChange={e => VISIT_SCHEDULE_PRESETS[e.target.value] && setVisits(VISIT_SCHEDULE_PRESETS[e.target.value])}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+              >
+                <option value="" disabled>Load preset...</option>
+                {Object.keys(VISIT_SCHEDULE_PRESETS).map(key => (
+                  <option key={key} value={key}>{key}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Multiple Samples</label>
+              <select
+                value={rule}
+                onChange={e => setRule(e.target.value as MultiSampleRule)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+              >
+                {(Object.keys(MULTI_SAMPLE_RULE_LABELS) as MultiSampleRule[]).map(r => (
+                  <option key={r} value={r}>{MULTI_SAMPLE_RULE_LABELS[r]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="border-b border-slate-100">
+                <th className="py-2 px-2 text-slate-500 font-medium">Visit</th>
+                <th className="py-2 px-2 text-slate-500 font-medium text-right">Target Day</th>
+                <th className="py-2 px-2 text-slate-500 font-medium text-right">Window Start</th>
+                <th className="py-2 px-2 text-slate-500 font-medium text-right">Window End</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visits.map(v => (
+                <tr key={v.label} className="border-b border-slate-50">
+                  <td className="py-1.5 px-2 font-medium text-slate-700">{v.label}</td>
+                  <td className="py-1.5 px-2 text-right font-mono text-slate-500">{v.day}</td>
+                  {(['start', 'end'] as const).map(field => (
+                    <td key={field} className="py-1.5 px-2 text-right">
+                      <input
+                        type="number"
+                        value={v.window?.[field] ?? v.day}
+                        onChange={e => updateWindow(v.label, field, e.target.value)}
+                        className={`w-20 px-2 py-1 border rounded-md text-right font-mono text-xs outline-none focus:ring-2 focus:ring-indigo-500 ${
+                          invalid.includes(v) ? 'border-red-300 bg-red-50' : 'border-slate-300'
+                        }`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {invalid.length > 0 && (
+            <p className="text-xs text-red-600">Each window must contain its target day (start ≤ target ≤ end).</p>
+          )}
+
+          <div className="pt-2 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-50 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={invalid.length > 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm transition-colors disabled:opacity-50"
+            >
+              Save Windows
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import { ArmDef, BiomarkerDef, PatientData, Timepoint, VisitDef } from '../types';
+import { hashString } from '../services/random';
+import { getFollowUpVisits } from '../services/visitSchedule';
+
+interface WaterfallChartProps {
+  data: PatientData[];
+  arms: ArmDef[];
+  visits: VisitDef[];
+  biomarker: BiomarkerDef;
+  timepoint: Timepoint;
+}
+
+type WaterfallMode = 'best' | 'visit';
+
+// One bar per patient; large cohorts are thinned for display only
+const MAX_BARS = 1500;
+
+export const WaterfallChart: React.FC<WaterfallChartProps> = ({ data, arms, visits, biomarker, timepoint }) => {
+  const [mode, setMode] = useState<WaterfallMode>('best');
+  const [threshold, setThreshold] = useState('30');
+
+  const lowerIsBetter = biomarker.direction === 'lower_is_better';
+  const armColor = useMemo(() => new Map(arms.map(a => [a.name, a.color])), [arms]);
+
+  // Best (direction-aware) post-baseline % change, or the % change at the selected visit
+  const bars = useMemo(() => {
+    const eligible = new Set(mode === 'visit' ? [timepoint] : getFollowUpVisits(visits).map(v => v.label));
+    const result: { patientId: string; arm: string; value: number; visit: Timepoint }[] = [];
+    data.forEach(p => {
+      if (!armColor.has(p.arm)) return;
+      let best: { value: number; visit: Timepoint } | undefined;
+      p.measurements.forEach(m => {
+        if (m.biomarkerId !== biomarker.id || m.percentChange === undefined || !eligible.has(m.timepoint)) return;
+        const better = !best || (lowerIsBetter ? m.percentChange < best.value : m.percentChange > best.value);
+        if (better) best = { value: m.percentChange, visit: m.timepoint };
+      });
+      if (best) result.push({ patientId: p.patientId, arm: p.arm, ...best });
+    });
+    // Worst response on the left, best on the right
+    return result.sort((a, b) => (lowerIsBetter ? b.value - a.value : a.value - b.value));
+  }, [data, armColor, visits, biomarker.id, timepoint, mode, lowerIsBetter]);
+
+  const plotBars = useMemo(() => {
+    if (bars.length <= MAX_BARS) return bars;
+    return bars.filter(b => hashString(`${b.patientId}:display`) % bars.length < MAX_BARS);
+  }, [bars]);
+
+  const thresholdValue = parseFloat(threshold);
+  const responseLine = thresholdValue > 0 ? (lowerIsBetter ? -thresholdValue : thresholdValue) : undefined;
+  const responders = responseLine === undefined
+    ? 0
+    : bars.filter(b => (lowerIsBetter ? b.value <= responseLine : b.value >= responseLine)).length;
+
+  return (
+    <div className="w-full h-[400px] flex flex-col bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex justify-between items-start mb-2 gap-3">
+        <h3 className="text-lg font-semibold text-slate-800">
+          Waterfall: {mode === 'best' ? 'Best % Change' : `% Change at ${timepoint}`}
+          {plotBars.length < bars.length && (
+            <span className="ml-2 text-xs font-normal text-slate-400">
+              showing {plotBars.length.toLocaleString()} of {bars.length.toLocaleString()} patients
+            </span>
+          )}
+        </h3>
+        <div className="flex items-center gap-2 shrink-0 text-xs text-slate-500">
+          <div className="flex bg-slate-100 p-0.5 rounded-md">
+            {(['best', 'visit'] as WaterfallMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-2.5 py-1 text-xs font-medium rounded transition-all ${
+                  mode === m ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-800'
+                }`}
+              >
+                {m === 'best' ? 'Best' : timepoint}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-1" title="Response threshold line">
+            {lowerIsBetter ? '−' : '+'}
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              className="w-14 px-1.5 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-700 focus:outline-none"
+            />
+            %
+          </label>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3 mb-2 text-xs text-slate-500">
+        {arms.map(({ name, color }) => (
+          <span key={name} className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: color }}></span>
+            {name}
+          </span>
+        ))}
+        {responseLine !== undefined && bars.length > 0 && (
+          <span className="ml-auto">
+            {responders} of {bars.length} ({((responders / bars.length) * 100).toFixed(1)}%) beyond threshold
+          </span>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={plotBars} margin={{ top: 5, right: 20, left: 10, bottom: 5 }} barCategoryGap={0}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+            <XAxis dataKey="patientId" tick={false} stroke="#64748b" label={{ value: 'Patients (ranked)', position: 'insideBottom', offset: 0, fontSize: 12 }} />
+            <YAxis stroke="#64748b" fontSize={12} label={{ value: '% Change from Baseline', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }} />
+            <Tooltip
+              cursor={{ fill: 'rgba(148, 163, 184, 0.15)' }}
+              content={({ active, payload }) => {
+                if (active && payload && payload.length) {
+                  const d = payload[0].payload;
+                  return (
+                    <div className="bg-white p-2 border border-slate-200 rounded shadow text-sm">
+                      <p><strong>{d.patientId}</strong></p>
+                      <p>{d.arm}</p>
+                      <p>{d.value > 0 ? '+' : ''}{Number(d.value).toFixed(1)}% at {d.visit}</p>
+                    </div>
+                  );
+                }
+                return null;
+              }}
+            />
+            <ReferenceLine y={0} stroke="#94a3b8" />
+            {responseLine !== undefined && (
+              <ReferenceLine y={responseLine} stroke="#16a34a" strokeDasharray="4 4" label={{ value: `${responseLine > 0 ? '+' : ''}${responseLine}%`, position: 'right', fontSize: 10, fill: '#16a34a' }} />
+            )}
+            <Bar dataKey="value" isAnimationActive={false}>
+              {plotBars.map(b => (
+                <Cell key={b.patientId} fill={armColor.get(b.arm)} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
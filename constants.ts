@@ -1,35 +1,74 @@
 
-import { BiomarkerCategory, BiomarkerDef, Arm, Timepoint } from './types';
+import { ArmDef, BiomarkerCategory, BiomarkerDef, CovariateDef, VisitDef } from './types';
 
 export const BIOMARKERS: BiomarkerDef[] = [
   // Inflammation
-  { id: 'hsCRP', name: 'hs-CRP', category: BiomarkerCategory.INFLAMMATION, unit: 'mg/L', direction: 'lower_is_better', baselineMean: 3.5 },
-  { id: 'IL-6', name: 'IL-6', category: BiomarkerCategory.INFLAMMATION, unit: 'pg/mL', direction: 'lower_is_better', baselineMean: 5.0 },
-  { id: 'TNF-a', name: 'TNF-alpha', category: BiomarkerCategory.INFLAMMATION, unit: 'pg/mL', direction: 'lower_is_better', baselineMean: 15.0 },
+  { id: 'hsCRP', name: 'hs-CRP', category: BiomarkerCategory.INFLAMMATION, unit: 'mg/L', direction: 'lower_is_better', baselineMean: 3.5, distribution: 'lognormal', lloq: 0.3, uloq: 10 },
+  { id: 'IL-6', name: 'IL-6', category: BiomarkerCategory.INFLAMMATION, unit: 'pg/mL', direction: 'lower_is_better', baselineMean: 5.0, distribution: 'lognormal', lloq: 1.5 },
+  { id: 'TNF-a', name: 'TNF-alpha', category: BiomarkerCategory.INFLAMMATION, unit: 'pg/mL', direction: 'lower_is_better', baselineMean: 15.0, distribution: 'lognormal', lloq: 2 },
   
   // Fibrosis
   { id: 'Col1a1', name: 'Collagen 1a1', category: BiomarkerCategory.FIBROSIS, unit: 'ng/mL', direction: 'lower_is_better', baselineMean: 120 },
-  { id: 'TGF-b', name: 'TGF-beta', category: BiomarkerCategory.FIBROSIS, unit: 'ng/mL', direction: 'lower_is_better', baselineMean: 45 },
+  { id: 'TGF-b', name: 'TGF-beta', category: BiomarkerCategory.FIBROSIS, unit: 'ng/mL', direction: 'lower_is_better', baselineMean: 45, distribution: 'lognormal' },
   { id: 'a-SMA', name: 'alpha-SMA', category: BiomarkerCategory.FIBROSIS, unit: 'IU/L', direction: 'lower_is_better', baselineMean: 30 },
   
   // Oxidative Stress
-  { id: 'MDA', name: 'Malondialdehyde', category: BiomarkerCategory.OXIDATIVE_STRESS, unit: 'µM', direction: 'lower_is_better', baselineMean: 2.5 },
+  { id: 'MDA', name: 'Malondialdehyde', category: BiomarkerCategory.OXIDATIVE_STRESS, unit: 'µM', direction: 'lower_is_better', baselineMean: 2.5, distribution: 'gamma', lloq: 0.5 },
   { id: 'GSH', name: 'Glutathione', category: BiomarkerCategory.OXIDATIVE_STRESS, unit: 'µM', direction: 'higher_is_better', baselineMean: 800 },
 
   // Metabolic
   { id: 'HbA1c', name: 'HbA1c', category: BiomarkerCategory.METABOLIC_HEALTH, unit: '%', direction: 'lower_is_better', baselineMean: 6.2 },
-  { id: 'Adiponectin', name: 'Adiponectin', category: BiomarkerCategory.METABOLIC_HEALTH, unit: 'µg/mL', direction: 'higher_is_better', baselineMean: 10 },
+  { id: 'Adiponectin', name: 'Adiponectin', category: BiomarkerCategory.METABOLIC_HEALTH, unit: 'µg/mL', direction: 'higher_is_better', baselineMean: 10, distribution: 'lognormal' },
 ];
 
-export const ARM_COLORS = {
-  [Arm.PLACEBO]: '#94a3b8', // Slate 400
-  [Arm.DRUG_1MG]: '#3b82f6', // Blue 500
-  [Arm.DRUG_2MG]: '#7c3aed', // Violet 600
-};
+// Covariates with a fixed type and label; upload columns with these names (or the aliases in
+// services/covariates.ts) are mapped onto them, and simulation draws the same set
+export const STANDARD_COVARIATES: CovariateDef[] = [
+  { key: 'age', label: 'Age', type: 'numeric', unit: 'years' },
+  { key: 'sex', label: 'Sex', type: 'categorical' },
+  { key: 'bmi', label: 'BMI', type: 'numeric', unit: 'kg/m²' },
+  { key: 'region', label: 'Region', type: 'categorical' },
+  { key: 'site', label: 'Site', type: 'categorical' },
+  { key: 'stratum', label: 'Randomization Stratum', type: 'categorical' },
+];
+
+export const DEFAULT_ARMS: ArmDef[] = [
+  { name: 'Placebo', order: 0, color: '#94a3b8', dose: 0, isControl: true },     // Slate 400
+  { name: 'Drug X 1mg', order: 1, color: '#3b82f6', dose: 1, isControl: false }, // Blue 500
+  { name: 'Drug X 2mg', order: 2, color: '#7c3aed', dose: 2, isControl: false }, // Violet 600
+];
+
+// Fallback colors for arms discovered in uploaded data
+export const ARM_PALETTE = [
+  '#3b82f6', // Blue 500
+  '#7c3aed', // Violet 600
+  '#0d9488', // Teal 600
+  '#f59e0b', // Amber 500
+  '#e11d48', // Rose 600
+  '#16a34a', // Green 600
+  '#c026d3', // Fuchsia 600
+  '#0284c7', // Sky 600
+];
+
+export const CONTROL_ARM_COLOR = '#94a3b8'; // Slate 400
+
+export const BASELINE_VISIT = 'Baseline';
 
-export const TIMEPOINT_ORDER = [
-  Timepoint.BASELINE,
-  Timepoint.WEEK_4,
-  Timepoint.WEEK_12,
-  Timepoint.WEEK_24,
+export const DEFAULT_VISIT_SCHEDULE: VisitDef[] = [
+  { label: BASELINE_VISIT, day: 1, window: { start: -27, end: 1 }, isBaseline: true },
+  { label: 'Week 4', day: 29, window: { start: 26, end: 32 } },
+  { label: 'Week 12', day: 85, window: { start: 78, end: 92 } },
+  { label: 'Week 24', day: 169, window: { start: 155, end: 183 } },
 ];
+
+export const VISIT_SCHEDULE_PRESETS: Record<string, VisitDef[]> = {
+  'Standard 24-Week': DEFAULT_VISIT_SCHEDULE,
+  'Extended 52-Week': [
+    { label: BASELINE_VISIT, day: 1, window: { start: -27, end: 1 }, isBaseline: true },
+    { label: 'Week 2', day: 15, window: { start: 12, end: 18 } },
+    { label: 'Week 8', day: 57, window: { start: 50, end: 64 } },
+    { label: 'Week 12', day: 85, window: { start: 78, end: 92 } },
+    { label: 'Week 24', day: 169, window: { start: 155, end: 183 } },
+    { label: 'Week 52', day: 365, window: { start: 337, end: 393 } },
+  ],
+};
@@ -0,0 +1,149 @@
+import { ArmDef, BiomarkerDef, PatientData, Timepoint } from '../types';
+import { findStandardCovariate, formatCovariateName } from './covariates';
+
+// --- Analysis Populations ---
+// The set of patients every dashboard analysis and export runs on. ITT keeps every randomized
+// patient; per-protocol keeps patients observed at the final visit; a custom population applies
+// arm, covariate and baseline-range rules. Both restricted populations drop listed patient IDs
+// (e.g. protocol deviators).
+
+export type PopulationKind = 'itt' | 'per_protocol' | 'custom';
+
+export const POPULATION_LABELS: Record<PopulationKind, string> = {
+  itt: 'Intention-to-Treat (ITT)',
+  per_protocol: 'Per-Protocol',
+  custom: 'Custom',
+};
+
+// A rule only constrains what it sets: `levels` for categorical covariates, `min`/`max` for
+// numeric ones. Patients without a value fail any rule that sets a constraint.
+export interface CovariateRule {
+  key: string;
+  levels?: string[];
+  min?: number;
+  max?: number;
+}
+
+export interface BaselineRangeRule {
+  biomarkerId: string;
+  min?: number;
+  max?: number;
+}
+
+export interface AnalysisPopulation {
+  kind: PopulationKind;
+  excludedArms: string[];             // Custom only
+  covariateRules: CovariateRule[];    // Custom only
+  baselineRules: BaselineRangeRule[]; // Custom only
+  excludedPatientIds: string[];       // Per-protocol and custom
+}
+
+export const DEFAULT_POPULATION: AnalysisPopulation = {
+  kind: 'itt',
+  excludedArms: [],
+  covariateRules: [],
+  baselineRules: [],
+  excludedPatientIds: [],
+};
+
+// Categorical covariates with more levels (e.g. free text) cannot be used in rules
+export const MAX_RULE_LEVELS = 30;
+
+export type ExclusionReason = 'listed' | 'arm' | 'incomplete' | 'covariate' | 'baseline';
+
+export const EXCLUSION_REASON_LABELS: Record<ExclusionReason, string> = {
+  listed: 'Excluded by ID',
+  arm: 'Arm not included',
+  incomplete: 'Not observed at final visit',
+  covariate: 'Covariate rule',
+  baseline: 'Baseline range',
+};
+
+export interface PopulationResult {
+  data: PatientData[];
+  excluded: Record<ExclusionReason, number>; // Each patient counted under the first rule it fails
+  unknownPatientIds: string[];               // Listed IDs that are not in the cohort
+}
+
+const inRange = (v: number | undefined, min?: number, max?: number): boolean => {
+  if (min === undefined && max === undefined) return true;
+  if (v === undefined || !isFinite(v)) return false;
+  return (min === undefined || v >= min) && (max === undefined || v <= max);
+};
+
+const matchesCovariateRule = (p: PatientData, rule: CovariateRule): boolean => {
+  const v = p.covariates?.[rule.key];
+  if (rule.levels && (v === undefined || !rule.levels.includes(String(v)))) return false;
+  return inRange(typeof v === 'number' ? v : undefined, rule.min, rule.max);
+};
+
+const baselineValue = (p: PatientData, biomarkerId: string, baselineVisit: Timepoint): number | undefined =>
+  p.measurements.find(m => m.biomarkerId === biomarkerId && m.timepoint === baselineVisit)?.value;
+
+/**
+ * Patients of the population, with the number excluded by each rule. Completion for per-protocol
+ * is any measurement at the final visit; without a final visit only listed IDs are dropped.
+ */
+export const applyPopulation = (
+  data: PatientData[],
+  population: AnalysisPopulation,
+  baselineVisit: Timepoint,
+  finalVisit?: Timepoint
+): PopulationResult => {
+  const excluded: Record<ExclusionReason, number> = { listed: 0, arm: 0, incomplete: 0, covariate: 0, baseline: 0 };
+  if (population.kind === 'itt') return { data, excluded, unknownPatientIds: [] };
+
+  const listed = new Set(population.excludedPatientIds);
+  const custom = population.kind === 'custom';
+  const exclusionReason = (p: PatientData): ExclusionReason | undefined => {
+    if (listed.has(p.patientId)) return 'listed';
+    if (custom && population.excludedArms.includes(p.arm)) return 'arm';
+    if (!custom && finalVisit && !p.measurements.some(m => m.timepoint === finalVisit)) return 'incomplete';
+    if (custom && !population.covariateRules.every(rule => matchesCovariateRule(p, rule))) return 'covariate';
+    if (custom && !population.baselineRules.every(rule => inRange(baselineValue(p, rule.biomarkerId, baselineVisit), rule.min, rule.max))) return 'baseline';
+    return undefined;
+  };
+
+  const kept = data.filter(p => {
+    const reason = exclusionReason(p);
+    if (reason) excluded[reason]++;
+    return !reason;
+  });
+  const cohortIds = new Set(data.map(p => p.patientId));
+  return { data: kept, excluded, unknownPatientIds: population.excludedPatientIds.filter(id => !cohortIds.has(id)) };
+};
+
+// Arms shown in the dashboard: a custom population can leave whole arms out
+export const getPopulationArms = (arms: ArmDef[], population: AnalysisPopulation): ArmDef[] =>
+  population.kind === 'custom' ? arms.filter(a => !population.excludedArms.includes(a.name)) : arms;
+
+// Patient IDs from pasted text: separated by commas, semicolons, whitespace or new lines
+export const parsePatientIdList = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\s,;]+/).map(id => id.trim()).filter(Boolean)));
+
+const formatRange = (min?: number, max?: number): string =>
+  min !== undefined && max !== undefined ? `${min} to ${max}` : min !== undefined ? `≥ ${min}` : `≤ ${max}`;
+
+// One-line summary of the population's rules for export headers
+export const describePopulation = (population: AnalysisPopulation, biomarkers: BiomarkerDef[], finalVisit?: Timepoint): string => {
+  if (population.kind === 'itt') return POPULATION_LABELS.itt;
+  const parts: string[] = [];
+  if (population.kind === 'per_protocol') {
+    if (finalVisit) parts.push(`observed at ${finalVisit}`);
+  } else {
+    if (population.excludedArms.length > 0) parts.push(`excluding arms ${population.excludedArms.join(', ')}`);
+    population.covariateRules.forEach(rule => {
+      const name = findStandardCovariate(rule.key)?.label ?? formatCovariateName(rule.key);
+      if (rule.levels) parts.push(`${name} in {${rule.levels.join(', ')}}`);
+      if (rule.min !== undefined || rule.max !== undefined) parts.push(`${name} ${formatRange(rule.min, rule.max)}`);
+    });
+    population.baselineRules.forEach(rule => {
+      if (rule.min === undefined && rule.max === undefined) return;
+      const name = biomarkers.find(b => b.id === rule.biomarkerId)?.name ?? rule.biomarkerId;
+      parts.push(`baseline ${name} ${formatRange(rule.min, rule.max)}`);
+    });
+  }
+  const ids = population.excludedPatientIds;
+  if (ids.length > 0) parts.push(`${ids.length} patient${ids.length === 1 ? '' : 's'} excluded by ID (${ids.join(' ')})`);
+  return parts.length > 0 ? `${POPULATION_LABELS[population.kind]}: ${parts.join('; ')}` : POPULATION_LABELS[population.kind];
+};
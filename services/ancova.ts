@@ -0,0 +1,165 @@
+import { BiomarkerDef, Measurement, PatientData, Timepoint } from '../types';
+import { getDistribution, isMultiplicative } from './distributions';
+import { invert, multiply, multiplyVector, quadraticForm, transpose } from './linearAlgebra';
+import { studentTCdf, studentTQuantile } from './statistics';
+
+// --- Baseline-Adjusted ANCOVA ---
+// change ~ arm + baseline, fitted separately at each visit by ordinary least squares.
+// LS means are evaluated at the mean baseline of the analyzed patients.
+
+export interface AncovaObservation {
+  arm: string;
+  baseline: number;
+  response: number;
+}
+
+// Reporting scale: % change of skewed markers is modeled as log(value / baseline) with log
+// baseline as the covariate, then back-transformed to a geometric mean ratio in %
+export type AncovaScale = 'identity' | 'log_ratio';
+
+export interface LsMeanEstimate {
+  arm: string;
+  n: number;
+  estimate: number;
+  se: number;     // On the model scale
+  lower: number;  // 95% CI, on the reporting scale
+  upper: number;
+}
+
+export interface AncovaContrast {
+  arm: string;
+  estimate: number; // Difference vs the reference arm (ratio in % on the log scale)
+  se: number;       // On the model scale
+  lower: number;
+  upper: number;
+  pValue: number;
+}
+
+export interface AncovaResult {
+  referenceArm: string;
+  scale: AncovaScale;
+  df: number;
+  lsMeans: LsMeanEstimate[];
+  contrasts: AncovaContrast[];
+}
+
+export const backTransform = (scale: AncovaScale, v: number): number => (scale === 'log_ratio' ? (Math.exp(v) - 1) * 100 : v);
+
+/**
+ * Fits the ANCOVA for one visit. Arms without observations are dropped; the fit needs the
+ * reference arm, at least one other arm and residual degrees of freedom.
+ */
+export const fitAncova = (
+  observations: AncovaObservation[],
+  armOrder: string[],
+  referenceArm: string,
+  scale: AncovaScale = 'identity',
+  level: number = 0.95
+): AncovaResult | undefined => {
+  const counts = new Map<string, number>();
+  observations.forEach(o => counts.set(o.arm, (counts.get(o.arm) ?? 0) + 1));
+  if (!counts.has(referenceArm)) return undefined;
+  const others = armOrder.filter(a => a !== referenceArm && counts.has(a));
+  if (others.length === 0) return undefined;
+
+  // Columns: intercept (reference arm), one dummy per other arm, centered baseline
+  const p = 2 + others.length;
+  const n = observations.length;
+  const df = n - p;
+  if (df < 1) return undefined;
+
+  const baselineMean = observations.reduce((s, o) => s + o.baseline, 0) / n;
+  const X = observations.map(o => [1, ...others.map(a => (o.arm === a ? 1 : 0)), o.baseline - baselineMean]);
+  const y = observations.map(o => o.response);
+
+  const Xt = transpose(X);
+  const XtXInv = invert(multiply(Xt, X));
+  if (!XtXInv) return undefined;
+  const beta = multiplyVector(XtXInv, multiplyVector(Xt, y));
+  const residualSS = X.reduce((s, row, i) => s + (y[i] - row.reduce((acc, x, j) => acc + x * beta[j], 0)) ** 2, 0);
+  const sigma2 = residualSS / df;
+  const covBeta = XtXInv.map(row => row.map(v => v * sigma2));
+  const tCrit = studentTQuantile(1 - (1 - level) / 2, df);
+
+  const estimateOf = (c: number[]) => {
+    const est = c.reduce((s, x, j) => s + x * beta[j], 0);
+    const se = Math.sqrt(Math.max(0, quadraticForm(covBeta, c)));
+    return { est, se };
+  };
+
+  const lsMeans = [referenceArm, ...others].map((arm, idx) => {
+    const c = new Array(p).fill(0);
+    c[0] = 1;
+    if (idx > 0) c[idx] = 1;
+    const { est, se } = estimateOf(c);
+    return {
+      arm,
+      n: counts.get(arm)!,
+      estimate: backTransform(scale, est),
+      se,
+      lower: backTransform(scale, est - tCrit * se),
+      upper: backTransform(scale, est + tCrit * se),
+    };
+  });
+
+  const contrasts = others.map((arm, idx) => {
+    const c = new Array(p).fill(0);
+    c[idx + 1] = 1;
+    const { est, se } = estimateOf(c);
+    const t = se > 0 ? est / se : 0;
+    return {
+      arm,
+      estimate: backTransform(scale, est),
+      se,
+      lower: backTransform(scale, est - tCrit * se),
+      upper: backTransform(scale, est + tCrit * se),
+      pValue: 2 * (1 - studentTCdf(Math.abs(t), df)),
+    };
+  });
+
+  return { referenceArm, scale, df, lsMeans, contrasts };
+};
+
+// Model scale for a biomarker and endpoint
+export const getAncovaScale = (biomarker: BiomarkerDef, isPercent: boolean): AncovaScale =>
+  isPercent && isMultiplicative(getDistribution(biomarker)) ? 'log_ratio' : 'identity';
+
+// Covariate and response for one follow-up measurement on the model scale; undefined when unusable
+export const modelResponse = (
+  baseline: number,
+  followUp: Measurement,
+  isPercent: boolean,
+  scale: AncovaScale
+): { baseline: number; response: number } | undefined => {
+  if (scale === 'log_ratio') {
+    if (baseline <= 0 || followUp.value <= 0) return undefined;
+    return { baseline: Math.log(baseline), response: Math.log(followUp.value / baseline) };
+  }
+  const response = isPercent ? followUp.percentChange : followUp.changeFromBaseline;
+  return response === undefined ? undefined : { baseline, response };
+};
+
+// Patients with both a baseline and a follow-up value at the visit
+export const buildAncovaObservations = (
+  data: PatientData[],
+  biomarkerId: string,
+  baselineVisit: Timepoint,
+  timepoint: Timepoint,
+  isPercent: boolean,
+  scale: AncovaScale
+): AncovaObservation[] => {
+  const rows: AncovaObservation[] = [];
+  data.forEach(p => {
+    let baseline: number | undefined;
+    let followUp: Measurement | undefined;
+    p.measurements.forEach(m => {
+      if (m.biomarkerId !== biomarkerId) return;
+      if (m.timepoint === baselineVisit) baseline = m.value;
+      else if (m.timepoint === timepoint) followUp = m;
+    });
+    if (baseline === undefined || !followUp) return;
+    const row = modelResponse(baseline, followUp, isPercent, scale);
+    if (row) rows.push({ arm: p.arm, ...row });
+  });
+  return rows;
+};
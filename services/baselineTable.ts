@@ -0,0 +1,161 @@
+import { BiomarkerDef, PatientData, Timepoint } from '../types';
+import { listCovariates } from './covariates';
+import { invert, quadraticForm } from './linearAlgebra';
+
+// --- Baseline Characteristics ("Table 1") ---
+// Per-arm summaries of the covariates (and optionally baseline biomarker levels) with the
+// standardized mean difference of each arm against the reference arm as a balance check.
+
+// |SMD| above this is conventionally read as a meaningful imbalance
+export const SMD_IMBALANCE_THRESHOLD = 0.1;
+
+// Categorical covariates with more levels (e.g. free text) are left out of the table
+export const MAX_TABLE_LEVELS = 20;
+
+export interface ContinuousSummary {
+  n: number;
+  mean: number;
+  sd: number;
+  median: number;
+  q1: number;
+  q3: number;
+}
+
+interface CharacteristicBase {
+  key: string;
+  label: string;
+  missing: number[];          // Per arm, patients without a value
+  smd: (number | undefined)[]; // Per arm vs the reference arm; undefined for the reference itself
+}
+
+export interface ContinuousCharacteristic extends CharacteristicBase {
+  type: 'numeric';
+  unit?: string;
+  summaries: (ContinuousSummary | undefined)[]; // Per arm
+}
+
+export interface CategoricalCharacteristic extends CharacteristicBase {
+  type: 'categorical';
+  levels: string[];
+  counts: number[][]; // [arm][level]
+  n: number[];        // Per arm, patients with a value
+}
+
+export type BaselineCharacteristic = ContinuousCharacteristic | CategoricalCharacteristic;
+
+export interface BaselineTable {
+  arms: string[];
+  armSizes: number[];
+  referenceArm: string;
+  rows: BaselineCharacteristic[];
+}
+
+// Linear-interpolation quantile of sorted values
+const quantile = (sorted: number[], p: number): number => {
+  const h = (sorted.length - 1) * p;
+  const lo = Math.floor(h);
+  return sorted[lo] + (h - lo) * (sorted[Math.min(lo + 1, sorted.length - 1)] - sorted[lo]);
+};
+
+export const summarizeContinuous = (values: number[]): ContinuousSummary | undefined => {
+  const n = values.length;
+  if (n === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  const sd = n > 1 ? Math.sqrt(values.reduce((a, b) => a + (b - mean) ** 2, 0) / (n - 1)) : 0;
+  return { n, mean, sd, median: quantile(sorted, 0.5), q1: quantile(sorted, 0.25), q3: quantile(sorted, 0.75) };
+};
+
+// (mean₁ − mean₀) / pooled SD, with the pooled variance the average of the two arm variances
+const continuousSmd = (a?: ContinuousSummary, b?: ContinuousSummary): number | undefined => {
+  if (!a || !b || a.n < 2 || b.n < 2) return undefined;
+  const pooled = Math.sqrt((a.sd ** 2 + b.sd ** 2) / 2);
+  if (pooled === 0) return a.mean === b.mean ? 0 : undefined;
+  return (a.mean - b.mean) / pooled;
+};
+
+/**
+ * Multinomial SMD (Yang & Dalton): sqrt((p₁ − p₀)' S⁻¹ (p₁ − p₀)) over all but the last level,
+ * with S the average of the two multinomial covariance matrices. Reduces to the usual
+ * proportion SMD for two levels; unsigned.
+ */
+const categoricalSmd = (a: number[], na: number, b: number[], nb: number): number | undefined => {
+  if (na === 0 || nb === 0) return undefined;
+  const pa = a.map(c => c / na);
+  const pb = b.map(c => c / nb);
+  // Levels seen in neither arm carry no information and make S singular
+  const used = pa.map((_, i) => i).filter(i => pa[i] > 0 || pb[i] > 0);
+  if (used.length < 2) return 0;
+  const idx = used.slice(0, -1);
+  const diff = idx.map(i => pa[i] - pb[i]);
+  const S = idx.map(i => idx.map(j => (i === j
+    ? (pa[i] * (1 - pa[i]) + pb[i] * (1 - pb[i])) / 2
+    : -(pa[i] * pa[j] + pb[i] * pb[j]) / 2)));
+  const SInv = invert(S);
+  if (!SInv) return undefined;
+  return Math.sqrt(Math.max(0, quadraticForm(SInv, diff)));
+};
+
+export const buildBaselineTable = (
+  data: PatientData[],
+  armOrder: string[],
+  referenceArm: string,
+  biomarkers: BiomarkerDef[] = [],
+  baselineVisit?: Timepoint
+): BaselineTable => {
+  const byArm = armOrder.map(arm => data.filter(p => p.arm === arm));
+  const refIdx = armOrder.indexOf(referenceArm);
+  const rows: BaselineCharacteristic[] = [];
+
+  const continuous = (key: string, label: string, unit: string | undefined, valueOf: (p: PatientData) => number | undefined) => {
+    const values = byArm.map(patients => patients.map(valueOf).filter((v): v is number => v !== undefined && isFinite(v)));
+    const summaries = values.map(summarizeContinuous);
+    rows.push({
+      type: 'numeric',
+      key,
+      label,
+      unit,
+      summaries,
+      missing: byArm.map((patients, a) => patients.length - values[a].length),
+      smd: summaries.map((s, a) => (a === refIdx ? undefined : continuousSmd(s, summaries[refIdx]))),
+    });
+  };
+
+  listCovariates(data).forEach(info => {
+    if (info.type === 'numeric') {
+      continuous(`covariate:${info.key}`, info.label, info.unit, p => {
+        const v = p.covariates?.[info.key];
+        return typeof v === 'number' ? v : undefined;
+      });
+      return;
+    }
+    if (info.levels.length > MAX_TABLE_LEVELS) return;
+    const levelIndex = new Map(info.levels.map((level, i) => [level, i]));
+    const counts = byArm.map(patients => {
+      const c = new Array<number>(info.levels.length).fill(0);
+      patients.forEach(p => {
+        const v = p.covariates?.[info.key];
+        if (v !== undefined) c[levelIndex.get(String(v))!]++;
+      });
+      return c;
+    });
+    const n = counts.map(c => c.reduce((s, x) => s + x, 0));
+    rows.push({
+      type: 'categorical',
+      key: `covariate:${info.key}`,
+      label: info.label,
+      levels: info.levels,
+      counts,
+      n,
+      missing: byArm.map((patients, a) => patients.length - n[a]),
+      smd: counts.map((c, a) => (a === refIdx ? undefined : categoricalSmd(c, n[a], counts[refIdx], n[refIdx]))),
+    });
+  });
+
+  if (baselineVisit) {
+    biomarkers.forEach(b => continuous(`baseline:${b.id}`, `Baseline ${b.name}`, b.unit, p =>
+      p.measurements.find(m => m.biomarkerId === b.id && m.timepoint === baselineVisit)?.value));
+  }
+
+  return { arms: armOrder, armSizes: byArm.map(p => p.length), referenceArm, rows };
+};
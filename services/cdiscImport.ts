@@ -0,0 +1,321 @@
+import { BASELINE_VISIT } from '../constants';
+import { BiomarkerDef, CensoredSide, Measurement, PatientData, Timepoint } from '../types';
+import { parseCensoredToken, resolveCensoredLimit } from './censoring';
+import { parseVisitLabel } from './visitSchedule';
+import { DatedSample, summarizeWindowReport, VisitWindowReport, VisitWindowSettings, windowSamples } from './visitWindowing';
+
+// --- CDISC Domain Definitions ---
+
+export type CdiscDomain = 'SDTM_LB' | 'ADAM_ADLB';
+
+export interface CdiscImportReport {
+  domain: CdiscDomain;
+  rowsRead: number;
+  rowsImported: number;
+  rowsSkipped: number;
+  unmappedVisits: Record<string, number>;     // Visit label -> row count
+  unmappedParameters: Record<string, number>; // LBTESTCD / PARAMCD -> row count
+  unmappedArms: Record<string, number>;       // Rows with a blank treatment label
+  missingValues: number;                      // Rows without a numeric result
+  censoredValues: number;                     // "<LLOQ" / ">ULOQ" results imported at the limit
+  censoredWithoutLimit: Record<string, number>; // Biomarker -> censored rows skipped for lack of LLOQ/ULOQ
+  duplicateResults: number;                   // Repeated subject/parameter/visit results dropped (see preferResult)
+  derivedFromSource: boolean;                 // True when BASE/CHG/PCHG were taken from ADaM
+  windowing?: VisitWindowReport;              // Rows without a usable visit label, windowed by LBDY / ADY
+}
+
+export interface CdiscImportResult {
+  data: PatientData[];
+  report: CdiscImportReport;
+}
+
+// Minimum column sets that identify each standard
+const SDTM_LB_REQUIRED = ['usubjid', 'lbtestcd', 'lbstresn', 'visit'];
+const ADAM_ADLB_REQUIRED = ['usubjid', 'paramcd', 'aval'];
+
+// Column priority lists (first present wins)
+const ARM_COLUMNS = ['trt01p', 'trt01a', 'trtp', 'trta', 'arm', 'actarm'];
+const ADAM_VISIT_COLUMNS = ['avisit', 'visit'];
+const ADAM_DAY_COLUMNS = ['ady', 'lbdy'];
+
+// --- Helpers ---
+
+// Splits a single CSV line honoring double-quoted fields (SAS exports quote labels with commas)
+export const splitCSVLine = (line: string): string[] => {
+  const cols: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      cols.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cols.push(current.trim());
+  return cols;
+};
+
+const normalize = (s: string) => s.trim().toUpperCase().replace(/[\s_\-]+/g, '');
+
+const increment = (bucket: Record<string, number>, key: string) => {
+  bucket[key] = (bucket[key] || 0) + 1;
+};
+
+export const detectCdiscDomain = (headers: string[]): CdiscDomain | null => {
+  const lower = headers.map(h => h.trim().toLowerCase());
+  if (ADAM_ADLB_REQUIRED.every(c => lower.includes(c))) return 'ADAM_ADLB';
+  if (SDTM_LB_REQUIRED.every(c => lower.includes(c))) return 'SDTM_LB';
+  return null;
+};
+
+// Maps CDISC visit labels (e.g. "WEEK 12", "WK12", "Day 1") onto canonical visit labels.
+// Baseline flags (LBBLFL / ABLFL) take precedence over the label.
+export const mapVisitToTimepoint = (visit: string, isBaselineFlag: boolean): Timepoint | null => {
+  if (isBaselineFlag) return BASELINE_VISIT;
+  return parseVisitLabel(visit)?.label ?? null;
+};
+
+// Resolves a CDISC test/parameter code against the biomarker registry by id or display name
+export const mapParameter = (code: string, biomarkers: BiomarkerDef[]): BiomarkerDef | null => {
+  const n = normalize(code);
+  return biomarkers.find(b => normalize(b.id) === n || normalize(b.name) === n) || null;
+};
+
+const parseNumber = (raw: string | undefined): number | undefined => {
+  if (raw === undefined || raw.trim() === '') return undefined;
+  const val = parseFloat(raw);
+  return isNaN(val) ? undefined : val;
+};
+
+// --- Repeated Results ---
+
+interface CandidateResult {
+  measurement: Measurement;
+  baselineFlag: boolean;
+  row: number; // Line in the file; windowed samples use -1
+}
+
+/**
+ * Rule for several results of one subject, parameter and visit (re-tests, or unscheduled repeats
+ * mapped onto the same visit): a baseline-flagged row (LBBLFL / ABLFL) wins, then the latest study
+ * day (LBDY / ADY), then the later row in the file. Windowed samples lose ties to labelled rows.
+ * Missing results never get this far, so the kept result is always non-missing.
+ */
+const preferResult = (next: CandidateResult, current: CandidateResult): boolean => {
+  if (next.baselineFlag !== current.baselineFlag) return next.baselineFlag;
+  const nextDay = next.measurement.studyDay;
+  const currentDay = current.measurement.studyDay;
+  if (nextDay !== undefined && currentDay !== undefined && nextDay !== currentDay) return nextDay > currentDay;
+  return next.row > current.row;
+};
+
+// --- Importer ---
+
+export const parseCdiscCSV = (
+  content: string,
+  biomarkers: BiomarkerDef[],
+  windowSettings?: VisitWindowSettings
+): CdiscImportResult => {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) throw new Error("CSV file is empty or missing headers.");
+
+  const headers = splitCSVLine(lines[0]).map(h => h.toLowerCase());
+  const domain = detectCdiscDomain(headers);
+  if (!domain) throw new Error("File does not match SDTM LB or ADaM ADLB column requirements.");
+
+  const col = (name: string) => headers.indexOf(name);
+  const firstCol = (names: string[]) => names.map(col).find(i => i >= 0) ?? -1;
+
+  const isAdam = domain === 'ADAM_ADLB';
+  const idx = {
+    subject: col('usubjid'),
+    param: isAdam ? col('paramcd') : col('lbtestcd'),
+    value: isAdam ? col('aval') : col('lbstresn'),
+    valueText: isAdam ? col('avalc') : col('lbstresc'),
+    visit: isAdam ? firstCol(ADAM_VISIT_COLUMNS) : col('visit'),
+    studyDay: isAdam ? firstCol(ADAM_DAY_COLUMNS) : col('lbdy'),
+    baselineFlag: isAdam ? col('ablfl') : col('lbblfl'),
+    analysisFlag: col('anl01fl'),
+    arm: firstCol(ARM_COLUMNS),
+    base: col('base'),
+    chg: col('chg'),
+    pchg: col('pchg'),
+  };
+
+  if (idx.visit < 0) throw new Error("Missing visit column (AVISIT or VISIT).");
+  if (idx.arm < 0) throw new Error(`Missing treatment column. Expected one of: ${ARM_COLUMNS.map(c => c.toUpperCase()).join(', ')}.`);
+
+  const report: CdiscImportReport = {
+    domain,
+    rowsRead: lines.length - 1,
+    rowsImported: 0,
+    rowsSkipped: 0,
+    unmappedVisits: {},
+    unmappedParameters: {},
+    unmappedArms: {},
+    missingValues: 0,
+    censoredValues: 0,
+    censoredWithoutLimit: {},
+    duplicateResults: 0,
+    derivedFromSource: isAdam && idx.chg >= 0 && idx.pchg >= 0,
+  };
+
+  const patientMap = new Map<string, PatientData>();
+  const datedSamples: DatedSample[] = [];
+  // Patient -> biomarker|visit -> the result kept so far
+  const results = new Map<string, Map<string, CandidateResult>>();
+  const addResult = (patientId: string, candidate: CandidateResult) => {
+    if (!results.has(patientId)) results.set(patientId, new Map());
+    const cells = results.get(patientId)!;
+    const key = `${candidate.measurement.biomarkerId}|${candidate.measurement.timepoint}`;
+    const current = cells.get(key);
+    if (current) report.duplicateResults++;
+    if (!current || preferResult(candidate, current)) cells.set(key, candidate);
+  };
+
+  for (let i = 1; i < lines.length; i++) {
+    const cols = splitCSVLine(lines[i]);
+
+    // ADaM: only rows selected for analysis participate
+    if (idx.analysisFlag >= 0 && cols[idx.analysisFlag] !== 'Y') {
+      report.rowsSkipped++;
+      continue;
+    }
+
+    const paramCode = cols[idx.param] || '';
+    const biomarker = mapParameter(paramCode, biomarkers);
+    if (!biomarker) {
+      increment(report.unmappedParameters, paramCode || '(blank)');
+      report.rowsSkipped++;
+      continue;
+    }
+
+    const visitLabel = cols[idx.visit] || '';
+    const isBaseline = idx.baselineFlag >= 0 && cols[idx.baselineFlag] === 'Y';
+    const mapped = mapVisitToTimepoint(visitLabel, isBaseline);
+    const timepoint = mapped === 'Unscheduled' ? null : mapped;
+    const studyDay = idx.studyDay >= 0 ? parseNumber(cols[idx.studyDay]) : undefined;
+    const useWindowing = !timepoint && windowSettings !== undefined && studyDay !== undefined;
+    if (!timepoint && !useWindowing) {
+      increment(report.unmappedVisits, visitLabel || '(blank)');
+      report.rowsSkipped++;
+      continue;
+    }
+
+    // Treatment labels are taken verbatim; the arm registry is built from them after import
+    const arm = cols[idx.arm] || '';
+    if (!arm) {
+      increment(report.unmappedArms, '(blank)');
+      report.rowsSkipped++;
+      continue;
+    }
+
+    // Censored results have no numeric value; the character result carries e.g. "<LLOQ" or "<0.5"
+    let value = parseNumber(cols[idx.value]);
+    let censored: CensoredSide | undefined;
+    if (value === undefined && idx.valueText >= 0) {
+      const token = parseCensoredToken(cols[idx.valueText]);
+      const limit = token ? resolveCensoredLimit(token, biomarker) : undefined;
+      if (token && limit !== undefined) {
+        value = limit;
+        censored = token.side;
+        report.censoredValues++;
+      } else if (token) {
+        increment(report.censoredWithoutLimit, biomarker.id);
+      }
+    }
+    if (value === undefined) {
+      report.missingValues++;
+      report.rowsSkipped++;
+      continue;
+    }
+
+    const subjectId = cols[idx.subject];
+    if (!patientMap.has(subjectId)) {
+      patientMap.set(subjectId, { patientId: subjectId, arm, measurements: [] });
+    }
+
+    // Unscheduled / unlabelled rows are assigned to nominal visits after all rows are read
+    if (useWindowing) {
+      datedSamples.push({ patientId: subjectId, biomarkerId: biomarker.id, studyDay: studyDay!, value, censored });
+      continue;
+    }
+
+    const measurement: Measurement = { biomarkerId: biomarker.id, timepoint: timepoint!, value, studyDay };
+    if (censored) measurement.censored = censored;
+
+    // Honor sponsor-derived ADaM change variables instead of recomputing them
+    if (isAdam) {
+      const chg = parseNumber(cols[idx.chg]);
+      const pchg = parseNumber(cols[idx.pchg]);
+      const base = parseNumber(cols[idx.base]);
+      if (timepoint === BASELINE_VISIT) {
+        measurement.changeFromBaseline = 0;
+        measurement.percentChange = 0;
+      } else {
+        if (chg !== undefined) measurement.changeFromBaseline = chg;
+        else if (base !== undefined) measurement.changeFromBaseline = value - base;
+        if (pchg !== undefined) measurement.percentChange = pchg;
+        else if (base !== undefined && base !== 0) measurement.percentChange = ((value - base) / base) * 100;
+      }
+    }
+
+    addResult(subjectId, { measurement, baselineFlag: isBaseline, row: i });
+    report.rowsImported++;
+  }
+
+  if (windowSettings && datedSamples.length > 0) {
+    const { measurementsByPatient, report: windowReport } = windowSamples(datedSamples, windowSettings);
+    measurementsByPatient.forEach((measurements, patientId) => {
+      measurements.forEach(measurement => addResult(patientId, { measurement, baselineFlag: false, row: -1 }));
+    });
+    report.windowing = windowReport;
+    report.rowsImported += windowReport.samplesAssigned;
+    report.rowsSkipped += windowReport.outOfWindow.length;
+  }
+
+  // Baseline and change from baseline must not depend on row order, so each visit keeps one result
+  results.forEach((cells, patientId) => {
+    patientMap.get(patientId)!.measurements = Array.from(cells.values(), c => c.measurement);
+  });
+  report.rowsImported -= report.duplicateResults;
+  report.rowsSkipped += report.duplicateResults;
+
+  return { data: Array.from(patientMap.values()), report };
+};
+
+// Human readable summary used in the upload confirmation dialog
+export const summarizeCdiscReport = (report: CdiscImportReport): string => {
+  const label = report.domain === 'ADAM_ADLB' ? 'ADaM ADLB' : 'SDTM LB';
+  const list = (bucket: Record<string, number>) =>
+    Object.entries(bucket).map(([k, n]) => `${k} (${n})`).join(', ');
+
+  const lines = [
+    `Detected ${label}: ${report.rowsImported} of ${report.rowsRead} rows imported.`,
+  ];
+  if (report.derivedFromSource) lines.push('BASE/CHG/PCHG taken from the dataset.');
+  if (Object.keys(report.unmappedParameters).length) lines.push(`Unmapped parameters: ${list(report.unmappedParameters)}`);
+  if (Object.keys(report.unmappedVisits).length) lines.push(`Unmapped visits: ${list(report.unmappedVisits)}`);
+  if (Object.keys(report.unmappedArms).length) lines.push(`Unmapped arms: ${list(report.unmappedArms)}`);
+  if (report.censoredValues) lines.push(`Censored results (outside LLOQ/ULOQ) imported at the limit: ${report.censoredValues}`);
+  if (Object.keys(report.censoredWithoutLimit).length) lines.push(`Censored results without a defined limit: ${list(report.censoredWithoutLimit)}`);
+  if (report.duplicateResults) lines.push(`Repeated results for a subject, parameter and visit dropped: ${report.duplicateResults} (kept the baseline-flagged row, else the latest by study day)`);
+  if (report.missingValues) lines.push(`Rows without numeric result: ${report.missingValues}`);
+  if (report.windowing) lines.push(summarizeWindowReport(report.windowing));
+  return lines.join('\n');
+};
@@ -0,0 +1,222 @@
+import { BASELINE_VISIT } from '../constants';
+import { BiomarkerDef, CensoredSide, Measurement, PatientData } from '../types';
+import { getDistribution, isMultiplicative } from './distributions';
+import { normalCdf, normalPdf } from './statistics';
+
+// --- Censored Assay Results ---
+// Results outside the quantification range are stored at the limit with a `censored` flag.
+// The analysis rule decides what value (if any) they take in summaries and tests.
+
+export type CensoringRule = 'half_lloq' | 'lloq_sqrt2' | 'exclude' | 'tobit_imputation';
+
+export const CENSORING_RULE_LABELS: Record<CensoringRule, string> = {
+  half_lloq: 'LLOQ / 2',
+  lloq_sqrt2: 'LLOQ / √2',
+  exclude: 'Exclude censored',
+  tobit_imputation: 'Tobit conditional-mean imputation (understates SEs)',
+};
+
+// Methods text for exports
+export const CENSORING_RULE_METHODS: Record<CensoringRule, string> = {
+  half_lloq: 'Below-LLOQ results set to LLOQ/2; above-ULOQ results kept at the limit',
+  lloq_sqrt2: 'Below-LLOQ results set to LLOQ/√2; above-ULOQ results kept at the limit',
+  exclude: 'Censored results excluded',
+  tobit_imputation: 'Censored results singly imputed with their conditional mean under a censored normal (Tobit) fit per biomarker, arm and visit; '
+    + 'imputed values are analyzed as observed, so standard errors and p-values are understated',
+};
+
+export const DEFAULT_CENSORING_RULE: CensoringRule = 'half_lloq';
+
+export interface CensoredToken {
+  side: CensoredSide;
+  limit?: number; // Limit reported with the result (e.g. "<0.5"); otherwise the biomarker's LLOQ/ULOQ
+}
+
+const BELOW_KEYWORDS = /^(?:<\s*)?(?:lloq|loq|llq|blq|bloq|bql|below\s+lloq)$/i;
+const ABOVE_KEYWORDS = /^(?:>\s*)?(?:uloq|alq|aloq|aql|above\s+uloq)$/i;
+const LIMIT_PATTERN = /^(<=?|≤|>=?|≥)\s*(\d+(?:\.\d+)?(?:e[+-]?\d+)?)$/i;
+
+// Recognizes censored result tokens such as "<LLOQ", "BLQ", "<0.5", ">ULOQ" or ">250"
+export const parseCensoredToken = (raw: string | undefined): CensoredToken | null => {
+  const s = (raw ?? '').trim();
+  if (!s) return null;
+  if (BELOW_KEYWORDS.test(s)) return { side: 'below' };
+  if (ABOVE_KEYWORDS.test(s)) return { side: 'above' };
+  const match = s.match(LIMIT_PATTERN);
+  if (!match) return null;
+  return { side: /^[<≤]/.test(match[1]) ? 'below' : 'above', limit: parseFloat(match[2]) };
+};
+
+// Limit a censored token stands for, or undefined when neither the token nor the biomarker defines it
+export const resolveCensoredLimit = (token: CensoredToken, biomarker?: BiomarkerDef): number | undefined =>
+  token.limit ?? (token.side === 'below' ? biomarker?.lloq : biomarker?.uloq);
+
+// Applies the biomarker's quantification range to a measured value (used by the simulator)
+export const censorValue = (value: number, biomarker: BiomarkerDef): { value: number; censored?: CensoredSide } => {
+  if (biomarker.lloq !== undefined && value < biomarker.lloq) return { value: biomarker.lloq, censored: 'below' };
+  if (biomarker.uloq !== undefined && value > biomarker.uloq) return { value: biomarker.uloq, censored: 'above' };
+  return { value };
+};
+
+// --- Censoring Summary ---
+
+export interface CensoringSummaryRow {
+  biomarkerId: string;
+  lloq?: number;
+  uloq?: number;
+  samples: number;
+  below: number;
+  above: number;
+}
+
+export const hasCensoredData = (data: PatientData[]): boolean =>
+  data.some(p => p.measurements.some(m => m.censored !== undefined));
+
+export const summarizeCensoring = (data: PatientData[], biomarkers: BiomarkerDef[]): CensoringSummaryRow[] => {
+  const rows = new Map<string, CensoringSummaryRow>(biomarkers.map(b => [b.id, {
+    biomarkerId: b.id, lloq: b.lloq, uloq: b.uloq, samples: 0, below: 0, above: 0,
+  }]));
+  data.forEach(p => p.measurements.forEach(m => {
+    const row = rows.get(m.biomarkerId);
+    if (!row) return;
+    row.samples++;
+    if (m.censored === 'below') row.below++;
+    if (m.censored === 'above') row.above++;
+  }));
+  return Array.from(rows.values()).filter(r => r.samples > 0);
+};
+
+// --- Censored Normal (Tobit) Fit ---
+
+export interface CensoredNormalFit {
+  mean: number;
+  sd: number;
+}
+
+/**
+ * Maximum likelihood mean and SD of a normal sample with left- and right-censored values,
+ * fitted by EM: censored values are replaced by their conditional moments given the current
+ * estimates until the estimates stabilize.
+ */
+export const fitCensoredNormal = (observed: number[], belowLimits: number[], aboveLimits: number[]): CensoredNormalFit | undefined => {
+  const n = observed.length + belowLimits.length + aboveLimits.length;
+  if (observed.length < 2 || n < 3) return undefined;
+
+  const all = [...observed, ...belowLimits, ...aboveLimits];
+  let mean = all.reduce((a, b) => a + b, 0) / n;
+  let sd = Math.sqrt(all.reduce((a, b) => a + (b - mean) ** 2, 0) / n) || 1e-6;
+
+  for (let iter = 0; iter < 500; iter++) {
+    let s1 = 0, s2 = 0;
+    observed.forEach(y => { s1 += y; s2 += y * y; });
+    belowLimits.forEach(c => {
+      const a = (c - mean) / sd;
+      const lambda = normalPdf(a) / Math.max(normalCdf(a), 1e-12);
+      const ey = mean - sd * lambda;
+      const vy = sd * sd * Math.max(1e-12, 1 - a * lambda - lambda * lambda);
+      s1 += ey; s2 += vy + ey * ey;
+    });
+    aboveLimits.forEach(d => {
+      const b = (d - mean) / sd;
+      const lambda = normalPdf(b) / Math.max(1 - normalCdf(b), 1e-12);
+      const ey = mean + sd * lambda;
+      const vy = sd * sd * Math.max(1e-12, 1 + b * lambda - lambda * lambda);
+      s1 += ey; s2 += vy + ey * ey;
+    });
+    const nextMean = s1 / n;
+    const nextSd = Math.sqrt(Math.max(1e-12, s2 / n - nextMean * nextMean));
+    const converged = Math.abs(nextMean - mean) < 1e-8 * (1 + Math.abs(mean)) && Math.abs(nextSd - sd) < 1e-8 * (1 + sd);
+    mean = nextMean;
+    sd = nextSd;
+    if (converged) break;
+  }
+  return isFinite(mean) && isFinite(sd) ? { mean, sd } : undefined;
+};
+
+// Conditional expectation of a censored value under a fitted normal
+const conditionalMean = (fit: CensoredNormalFit, limit: number, side: CensoredSide): number => {
+  const z = (limit - fit.mean) / fit.sd;
+  return side === 'below'
+    ? fit.mean - fit.sd * normalPdf(z) / Math.max(normalCdf(z), 1e-12)
+    : fit.mean + fit.sd * normalPdf(z) / Math.max(1 - normalCdf(z), 1e-12);
+};
+
+// --- Applying a Rule ---
+
+// Substitute for a censored value under the simple rules; above-ULOQ results keep the limit
+const substitute = (limit: number, side: CensoredSide, rule: CensoringRule): number => {
+  if (side === 'above') return limit;
+  return rule === 'lloq_sqrt2' ? limit / Math.SQRT2 : limit / 2;
+};
+
+/**
+ * Resolves censored results according to the analysis rule and recomputes change from
+ * baseline for every affected patient/biomarker series. The Tobit rule fits a censored normal
+ * per biomarker, arm and visit (on the log scale for skewed markers) and imputes each censored
+ * value with its conditional expectation, falling back to LLOQ/√2 when a cell has too few
+ * quantified results to fit. This is single imputation: later analyses treat the imputed
+ * values as exact and so understate their uncertainty.
+ */
+export const applyCensoringRule = (data: PatientData[], biomarkers: BiomarkerDef[], rule: CensoringRule): PatientData[] => {
+  if (!hasCensoredData(data)) return data;
+
+  const logScale = new Map(biomarkers.map(b => [b.id, isMultiplicative(getDistribution(b))]));
+  const toScale = (id: string, v: number) => (logScale.get(id) ? Math.log(Math.max(v, 1e-12)) : v);
+  const fromScale = (id: string, v: number) => (logScale.get(id) ? Math.exp(v) : v);
+
+  const fits = new Map<string, CensoredNormalFit | undefined>();
+  if (rule === 'tobit_imputation') {
+    const cells = new Map<string, { observed: number[]; below: number[]; above: number[] }>();
+    data.forEach(p => p.measurements.forEach(m => {
+      const key = `${m.biomarkerId}|${p.arm}|${m.timepoint}`;
+      if (!cells.has(key)) cells.set(key, { observed: [], below: [], above: [] });
+      const cell = cells.get(key)!;
+      const y = toScale(m.biomarkerId, m.value);
+      if (m.censored === 'below') cell.below.push(y);
+      else if (m.censored === 'above') cell.above.push(y);
+      else cell.observed.push(y);
+    }));
+    cells.forEach((cell, key) => {
+      if (cell.below.length || cell.above.length) fits.set(key, fitCensoredNormal(cell.observed, cell.below, cell.above));
+    });
+  }
+
+  const resolve = (m: Measurement, arm: string): Measurement | null => {
+    if (!m.censored) return m;
+    if (rule === 'exclude') return null;
+    if (rule === 'tobit_imputation') {
+      const fit = fits.get(`${m.biomarkerId}|${arm}|${m.timepoint}`);
+      if (fit) {
+        return { ...m, value: fromScale(m.biomarkerId, conditionalMean(fit, toScale(m.biomarkerId, m.value), m.censored)) };
+      }
+      return { ...m, value: substitute(m.value, m.censored, 'lloq_sqrt2') };
+    }
+    return { ...m, value: substitute(m.value, m.censored, rule) };
+  };
+
+  return data.map(patient => {
+    const affected = new Set(patient.measurements.filter(m => m.censored).map(m => m.biomarkerId));
+    if (affected.size === 0) return patient;
+
+    const resolved = patient.measurements
+      .map(m => (affected.has(m.biomarkerId) ? resolve(m, patient.arm) : m))
+      .filter((m): m is Measurement => m !== null);
+
+    // Change from baseline must follow the substituted values
+    const baselines = new Map<string, number>();
+    resolved.forEach(m => {
+      if (affected.has(m.biomarkerId) && m.timepoint === BASELINE_VISIT) baselines.set(m.biomarkerId, m.value);
+    });
+    const measurements = resolved.map(m => {
+      if (!affected.has(m.biomarkerId)) return m;
+      const base = baselines.get(m.biomarkerId);
+      if (base === undefined) return { ...m, changeFromBaseline: undefined, percentChange: undefined };
+      return {
+        ...m,
+        changeFromBaseline: m.value - base,
+        percentChange: base !== 0 ? ((m.value - base) / base) * 100 : undefined,
+      };
+    });
+    return { ...patient, measurements };
+  });
+};
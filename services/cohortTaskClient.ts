@@ -0,0 +1,62 @@
+import { CohortTaskRequest, CohortTaskResponse, CohortTaskResult, executeCohortTask } from './cohortTasks';
+
+// --- Cohort Task Client ---
+// Kept apart from the task definitions so the worker bundle does not import itself.
+
+export interface CohortTask<T> {
+  result: Promise<T | null>; // null when cancelled
+  cancel: () => void;
+}
+
+/**
+ * Starts a cohort task in a dedicated worker. Cancelling terminates the worker, so a
+ * cancelled or superseded task never delivers a result.
+ */
+export const startCohortTask = <R extends CohortTaskRequest>(
+  request: R,
+  onProgress?: (completed: number, total: number) => void
+): CohortTask<CohortTaskResult<R>> => {
+  if (typeof Worker === 'undefined') {
+    let cancelled = false;
+    const result = new Promise<CohortTaskResult<R> | null>((resolve, reject) => {
+      setTimeout(() => {
+        if (cancelled) return resolve(null);
+        try {
+          resolve(executeCohortTask(request, onProgress));
+        } catch (err) {
+          reject(err);
+        }
+      }, 0);
+    });
+    return { result, cancel: () => { cancelled = true; } };
+  }
+
+  const worker = new Worker(new URL('./cohortTasks.worker.ts', import.meta.url), { type: 'module' });
+  let settle: (data: CohortTaskResult<R> | null) => void = () => {};
+  const result = new Promise<CohortTaskResult<R> | null>((resolve, reject) => {
+    settle = resolve;
+    worker.onmessage = (event: MessageEvent<CohortTaskResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.completed, message.total);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'result') resolve(message.data as CohortTaskResult<R>);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'The cohort worker failed.'));
+    };
+  });
+  worker.postMessage(request);
+
+  return {
+    result,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    },
+  };
+};
@@ -0,0 +1,79 @@
+import { BiomarkerDef, PatientData, Timepoint } from '../types';
+import { augmentDataWithBiomarker, generateSimulatedData, SimulationConfig } from './simulation';
+import { calculateDerivedMetrics } from './derivedMetrics';
+import { AncovaScale } from './ancova';
+import { CovarianceStructure, DfMethod, fitMmrm, MmrmResult } from './mmrm';
+import { clusterPatients, PatientClusteringResult, PcaMissingStrategy } from './pca';
+
+// --- Cohort Tasks ---
+// Simulation (whole cohorts or one added biomarker), derived-metric computation and the heavier
+// model fits run in a Web Worker so large cohorts (tens of thousands of patients) do not block the page.
+
+export type CohortTaskRequest =
+  | { type: 'generate'; patientCount: number; biomarkers: BiomarkerDef[]; config: SimulationConfig }
+  | { type: 'augment'; patients: PatientData[]; biomarker: BiomarkerDef; config: SimulationConfig }
+  | { type: 'derive'; patients: PatientData[] }
+  | {
+      type: 'mmrm';
+      patients: PatientData[];
+      biomarkerId: string;
+      baselineVisit: Timepoint;
+      visits: Timepoint[];
+      armOrder: string[];
+      referenceArm: string;
+      isPercent: boolean;
+      scale: AncovaScale;
+      structure: CovarianceStructure;
+      dfMethod: DfMethod;
+    }
+  | {
+      type: 'cluster';
+      values: Map<string, (number | undefined)[]>; // Per biomarker, one value per patient
+      biomarkerIds: string[];
+      missing: PcaMissingStrategy;
+      k: number;
+      seed: number;
+    };
+
+// What each request type resolves to
+export interface CohortTaskResults {
+  generate: PatientData[];
+  augment: PatientData[];
+  derive: PatientData[];
+  mmrm: MmrmResult | undefined;
+  cluster: PatientClusteringResult;
+}
+
+export type CohortTaskResult<R extends CohortTaskRequest> = CohortTaskResults[R['type']];
+
+export type CohortTaskResponse =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'result'; data: CohortTaskResults[keyof CohortTaskResults] }
+  | { type: 'error'; message: string };
+
+const runRequest = (
+  request: CohortTaskRequest,
+  onProgress?: (completed: number, total: number) => void
+): CohortTaskResults[keyof CohortTaskResults] => {
+  switch (request.type) {
+    case 'generate':
+      return generateSimulatedData(request.patientCount, request.biomarkers, request.config, onProgress);
+    case 'augment':
+      return augmentDataWithBiomarker(request.patients, request.biomarker, request.config, onProgress);
+    case 'derive':
+      return calculateDerivedMetrics(request.patients, onProgress);
+    case 'mmrm':
+      return fitMmrm(
+        request.patients, request.biomarkerId, request.baselineVisit, request.visits, request.armOrder,
+        request.referenceArm, request.isPercent, request.scale, request.structure, request.dfMethod, 0.95, onProgress
+      );
+    case 'cluster':
+      return clusterPatients(request.values, request.biomarkerIds, request.missing, request.k, request.seed);
+  }
+};
+
+// Executes a request in the current thread (shared by the worker and the no-worker fallback)
+export const executeCohortTask = <R extends CohortTaskRequest>(
+  request: R,
+  onProgress?: (completed: number, total: number) => void
+): CohortTaskResult<R> => runRequest(request, onProgress) as CohortTaskResult<R>;
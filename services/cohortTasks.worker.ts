@@ -0,0 +1,16 @@
+import { CohortTaskRequest, CohortTaskResponse, executeCohortTask } from './cohortTasks';
+import { throttleProgress } from './workerProgress';
+
+// --- Cohort Task Worker ---
+
+const ctx = self as unknown as Worker;
+const post = (message: CohortTaskResponse) => ctx.postMessage(message);
+
+ctx.onmessage = (event: MessageEvent<CohortTaskRequest>) => {
+  try {
+    const data = executeCohortTask(event.data, throttleProgress((completed, total) => post({ type: 'progress', completed, total })));
+    post({ type: 'result', data });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,164 @@
+import { BiomarkerDef, PatientData, Timepoint } from '../types';
+import { midRanks } from './nonparametric';
+import { studentTCdf } from './statistics';
+
+// --- Cross-Biomarker Correlation ---
+// Observed correlations between biomarkers on the loaded cohort, computed on pairwise-complete
+// patients. Distinct from services/multivariate.ts, which sets the correlations the simulator uses.
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+export const CORRELATION_METHOD_LABELS: Record<CorrelationMethod, string> = {
+  pearson: 'Pearson',
+  spearman: 'Spearman',
+};
+
+// What is correlated: baseline levels, or the change from baseline at one visit
+export type CorrelationSource = 'baseline' | 'change';
+
+export interface CorrelationEstimate {
+  r: number;
+  n: number;
+  pValue: number;
+}
+
+export interface CorrelationMatrix {
+  biomarkerIds: string[];
+  estimates: (CorrelationEstimate | undefined)[][];
+}
+
+/**
+ * One value per patient and biomarker (undefined when missing), in data order. Change uses
+ * % change or absolute change from baseline at the visit.
+ */
+export const extractBiomarkerValues = (
+  data: PatientData[],
+  biomarkers: BiomarkerDef[],
+  source: CorrelationSource,
+  baselineVisit: Timepoint,
+  timepoint: Timepoint,
+  isPercent: boolean
+): Map<string, (number | undefined)[]> => {
+  const values = new Map(biomarkers.map(b => [b.id, new Array<number | undefined>(data.length).fill(undefined)]));
+  data.forEach((p, i) => p.measurements.forEach(m => {
+    const column = values.get(m.biomarkerId);
+    if (!column) return;
+    if (source === 'baseline') {
+      if (m.timepoint === baselineVisit) column[i] = m.value;
+    } else if (m.timepoint === timepoint) {
+      column[i] = isPercent ? m.percentChange : m.changeFromBaseline;
+    }
+  }));
+  return values;
+};
+
+// Pairs where both values are present
+export const completePairs = (x: (number | undefined)[], y: (number | undefined)[]): { xs: number[]; ys: number[]; index: number[] } => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const index: number[] = [];
+  x.forEach((v, i) => {
+    const w = y[i];
+    if (v === undefined || w === undefined || !isFinite(v) || !isFinite(w)) return;
+    xs.push(v);
+    ys.push(w);
+    index.push(i);
+  });
+  return { xs, ys, index };
+};
+
+const pearson = (x: number[], y: number[]): number | undefined => {
+  const n = x.length;
+  const mx = x.reduce((a, b) => a + b, 0) / n;
+  const my = y.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0, sxx = 0, syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) ** 2;
+    syy += (y[i] - my) ** 2;
+  }
+  if (sxx === 0 || syy === 0) return undefined;
+  return sxy / Math.sqrt(sxx * syy);
+};
+
+/**
+ * Pearson or Spearman (Pearson on mid-ranks) correlation with a two-sided t-test of r = 0 on
+ * n − 2 df. Undefined with fewer than three complete pairs or a constant variable.
+ */
+export const correlate = (
+  x: (number | undefined)[],
+  y: (number | undefined)[],
+  method: CorrelationMethod
+): CorrelationEstimate | undefined => {
+  const { xs, ys } = completePairs(x, y);
+  const n = xs.length;
+  if (n < 3) return undefined;
+  const r = method === 'spearman' ? pearson(midRanks(xs).ranks, midRanks(ys).ranks) : pearson(xs, ys);
+  if (r === undefined) return undefined;
+  const clipped = Math.max(-1, Math.min(1, r));
+  const t = Math.abs(clipped) === 1 ? Infinity : clipped * Math.sqrt((n - 2) / (1 - clipped * clipped));
+  const pValue = isFinite(t) ? 2 * (1 - studentTCdf(Math.abs(t), n - 2)) : 0;
+  return { r: clipped, n, pValue };
+};
+
+export const computeCorrelationMatrix = (
+  values: Map<string, (number | undefined)[]>,
+  biomarkerIds: string[],
+  method: CorrelationMethod
+): CorrelationMatrix => {
+  const estimates = biomarkerIds.map(() => new Array<CorrelationEstimate | undefined>(biomarkerIds.length).fill(undefined));
+  biomarkerIds.forEach((a, i) => {
+    for (let j = i; j < biomarkerIds.length; j++) {
+      const est = correlate(values.get(a)!, values.get(biomarkerIds[j])!, method);
+      estimates[i][j] = est;
+      estimates[j][i] = est;
+    }
+  });
+  return { biomarkerIds, estimates };
+};
+
+/**
+ * Leaf order from average-linkage hierarchical clustering on 1 − r, so strongly correlated
+ * markers sit next to each other in the heatmap. Missing correlations count as r = 0.
+ */
+export const clusterOrder = (matrix: CorrelationMatrix): number[] => {
+  const k = matrix.biomarkerIds.length;
+  const distance = (i: number, j: number) => 1 - (matrix.estimates[i][j]?.r ?? 0);
+  let clusters = Array.from({ length: k }, (_, i) => [i]);
+
+  const linkage = (a: number[], b: number[]) => {
+    let sum = 0;
+    a.forEach(i => b.forEach(j => { sum += distance(i, j); }));
+    return sum / (a.length * b.length);
+  };
+
+  while (clusters.length > 1) {
+    let best = { i: 0, j: 1, d: Infinity };
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        const d = linkage(clusters[i], clusters[j]);
+        if (d < best.d) best = { i, j, d };
+      }
+    }
+    const merged = [...clusters[best.i], ...clusters[best.j]];
+    clusters = clusters.filter((_, idx) => idx !== best.i && idx !== best.j);
+    clusters.push(merged);
+  }
+  return clusters[0] ?? [];
+};
+
+// Ordinary least squares line y = intercept + slope · x, for the scatter explorer
+export const fitLine = (x: number[], y: number[]): { slope: number; intercept: number } | undefined => {
+  const n = x.length;
+  if (n < 2) return undefined;
+  const mx = x.reduce((a, b) => a + b, 0) / n;
+  const my = y.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0, sxx = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) ** 2;
+  }
+  if (sxx === 0) return undefined;
+  const slope = sxy / sxx;
+  return { slope, intercept: my - slope * mx };
+};
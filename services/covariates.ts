@@ -0,0 +1,124 @@
+import { STANDARD_COVARIATES } from '../constants';
+import { CovariateDef, CovariateType, CovariateValue, PatientData } from '../types';
+
+// --- Patient Covariates ---
+// Patient-level characteristics carried alongside the measurements, from upload columns, JSON or
+// simulation. Standard covariates (constants.ts) always have their declared type; any other
+// covariate can be typed in its name ("score:categorical") and is otherwise numeric only when
+// every observed value is a number.
+
+export interface CovariateInfo extends CovariateDef {
+  levels: string[];  // Distinct values of a categorical covariate, sorted
+  observed: number;  // Patients with a value
+}
+
+// Alternative names for the standard covariates, compared on lower-case letters and digits only
+const COVARIATE_ALIASES: Record<string, string> = {
+  gender: 'sex',
+  ageyears: 'age',
+  bodymassindex: 'bmi',
+  siteid: 'site',
+  center: 'site',
+  centre: 'site',
+  strata: 'stratum',
+  randstratum: 'stratum',
+  stratification: 'stratum',
+};
+
+const MISSING_TOKENS = /^(na|n\/a|nan|null|missing|\.)$/i;
+const TYPE_SUFFIX = /^(.*?)\s*:\s*(numeric|categorical)$/i;
+
+const canonicalName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const findStandardCovariate = (key: string): CovariateDef | undefined => {
+  const name = canonicalName(key);
+  const target = COVARIATE_ALIASES[name] ?? name;
+  return STANDARD_COVARIATES.find(d => d.key === target);
+};
+
+/**
+ * Upload column or JSON key → covariate key and type. Standard covariates are matched by name or
+ * alias ("Gender" → sex); other names keep their spelling and take the type of a ":numeric" or
+ * ":categorical" suffix when present.
+ */
+export const resolveCovariateKey = (name: string): { key: string; type?: CovariateType } => {
+  const match = name.trim().match(TYPE_SUFFIX);
+  const base = match ? match[1].trim() : name.trim();
+  const standard = findStandardCovariate(base);
+  if (standard) return { key: standard.key, type: standard.type };
+  return { key: base, type: match ? (match[2].toLowerCase() as CovariateType) : undefined };
+};
+
+// Raw value → covariate value of the given type; blanks, missing-value codes and non-numeric
+// values of a numeric covariate are undefined. Untyped values are numbers when they parse as one.
+export const parseCovariateValue = (raw: unknown, type?: CovariateType): CovariateValue | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw === 'number') {
+    if (!isFinite(raw)) return undefined;
+    return type === 'categorical' ? String(raw) : raw;
+  }
+  const text = String(raw).trim();
+  if (text === '' || MISSING_TOKENS.test(text)) return undefined;
+  if (type === 'categorical') return text;
+  const num = Number(text);
+  if (isFinite(num)) return num;
+  return type === 'numeric' ? undefined : text;
+};
+
+/**
+ * Covariates of one uploaded JSON patient, keyed and typed like CSV columns. Throws when the
+ * field is present but not an object.
+ */
+export const normalizeCovariates = (raw: unknown, patientId: string): Record<string, CovariateValue> | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Patient '${patientId}': covariates must be an object of name → value.`);
+  }
+  const result: Record<string, CovariateValue> = {};
+  Object.entries(raw as Record<string, unknown>).forEach(([name, value]) => {
+    const { key, type } = resolveCovariateKey(name);
+    const parsed = parseCovariateValue(value, type);
+    if (parsed !== undefined) result[key] = parsed;
+  });
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+export const formatCovariateName = (key: string): string => {
+  const spaced = key.replace(/[_-]+/g, ' ').trim();
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+};
+
+// Covariates present in the cohort; standard covariates first, in their declared order
+export const listCovariates = (data: PatientData[]): CovariateInfo[] => {
+  const byKey = new Map<string, { numeric: boolean; values: Set<string>; observed: number }>();
+  data.forEach(p => {
+    if (!p.covariates) return;
+    Object.entries(p.covariates).forEach(([key, value]) => {
+      if (value === undefined || value === null) return;
+      const entry = byKey.get(key) ?? { numeric: true, values: new Set<string>(), observed: 0 };
+      if (typeof value !== 'number') entry.numeric = false;
+      entry.values.add(String(value));
+      entry.observed++;
+      byKey.set(key, entry);
+    });
+  });
+
+  const standardOrder = (key: string) => {
+    const idx = STANDARD_COVARIATES.findIndex(d => d.key === key);
+    return idx < 0 ? STANDARD_COVARIATES.length : idx;
+  };
+  return Array.from(byKey.entries())
+    .map(([key, entry]): CovariateInfo => {
+      const standard = STANDARD_COVARIATES.find(d => d.key === key);
+      const type: CovariateType = standard?.type ?? (entry.numeric ? 'numeric' : 'categorical');
+      return {
+        key,
+        label: standard?.label ?? formatCovariateName(key),
+        type,
+        unit: standard?.unit,
+        levels: type === 'categorical' ? Array.from(entry.values).sort((a, b) => a.localeCompare(b, undefined, { numeric: true })) : [],
+        observed: entry.observed,
+      };
+    })
+    .sort((a, b) => standardOrder(a.key) - standardOrder(b.key));
+};
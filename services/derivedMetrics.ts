@@ -0,0 +1,43 @@
+import { BASELINE_VISIT } from '../constants';
+import { Measurement, PatientData } from '../types';
+
+// --- Derived Metrics ---
+
+// Fills in change and % change from baseline where the source did not provide them
+export const calculateDerivedMetrics = (
+  patients: PatientData[],
+  onProgress?: (completed: number, total: number) => void
+): PatientData[] => {
+  return patients.map((patient, i) => {
+    const measurementsByBio: Record<string, Measurement[]> = {};
+    patient.measurements.forEach(m => {
+      if (!measurementsByBio[m.biomarkerId]) measurementsByBio[m.biomarkerId] = [];
+      measurementsByBio[m.biomarkerId].push(m);
+    });
+
+    const enrichedMeasurements: Measurement[] = [];
+
+    Object.keys(measurementsByBio).forEach(bioId => {
+      const bioMeasurements = measurementsByBio[bioId];
+      const baseline = bioMeasurements.find(m => m.timepoint === BASELINE_VISIT);
+      const baselineVal = baseline ? baseline.value : undefined;
+
+      bioMeasurements.forEach(m => {
+        let change = 0;
+        let pct = 0;
+        if (baselineVal !== undefined && baselineVal !== 0) {
+           change = m.value - baselineVal;
+           pct = ((m.value - baselineVal) / baselineVal) * 100;
+        }
+        enrichedMeasurements.push({
+          ...m,
+          changeFromBaseline: m.changeFromBaseline ?? change,
+          percentChange: m.percentChange ?? pct
+        });
+      });
+    });
+
+    onProgress?.(i + 1, patients.length);
+    return { ...patient, measurements: enrichedMeasurements };
+  });
+};
@@ -0,0 +1,88 @@
+import { BiomarkerDef, DistributionFamily } from '../types';
+import { gammaQuantile, normalCdf } from './statistics';
+
+// --- Distribution Families ---
+// Normal markers are simulated with additive noise and summarized with arithmetic means.
+// Log-normal and gamma markers are strictly positive and right-skewed: treatment effects and
+// noise act multiplicatively, and summaries are taken on the log scale (geometric means).
+
+export const DISTRIBUTION_LABELS: Record<DistributionFamily, string> = {
+  normal: 'Normal',
+  lognormal: 'Log-Normal',
+  gamma: 'Gamma',
+};
+
+export const getDistribution = (biomarker: BiomarkerDef): DistributionFamily => biomarker.distribution ?? 'normal';
+
+export const isMultiplicative = (family: DistributionFamily): boolean => family !== 'normal';
+
+/**
+ * Maps a standard normal draw to a variate with the given mean and coefficient of variation,
+ * preserving rank so correlated latent draws stay correlated (Gaussian copula).
+ * Gamma uses the exact gamma quantile function, so every draw is strictly positive.
+ */
+export const variateFromNormal = (family: DistributionFamily, z: number, mean: number, cv: number): number => {
+  switch (family) {
+    case 'lognormal': {
+      const sigma2 = Math.log(1 + cv * cv);
+      return mean * Math.exp(Math.sqrt(sigma2) * z - sigma2 / 2);
+    }
+    case 'gamma': {
+      if (cv <= 0) return mean;
+      const shape = 1 / (cv * cv);
+      // Map through the smaller tail so extreme draws keep their precision
+      const x = z > 0 ? gammaQuantile(normalCdf(-z), shape, true) : gammaQuantile(normalCdf(z), shape);
+      return (mean * x) / shape;
+    }
+    case 'normal':
+    default:
+      return mean * (1 + cv * z);
+  }
+};
+
+// --- Scale-Aware Summaries ---
+
+export interface ScaleSummary {
+  mean: number;
+  sem: number;
+  n: number;
+}
+
+const arithmetic = (values: number[]): ScaleSummary => {
+  const n = values.length;
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  const variance = n > 1 ? values.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (n - 1) : 0;
+  return { mean, sem: Math.sqrt(variance / n), n };
+};
+
+// Geometric mean with a delta-method SEM (SEM on the log scale times the geometric mean)
+const geometric = (values: number[]): ScaleSummary => {
+  const logs = arithmetic(values.map(Math.log));
+  const gm = Math.exp(logs.mean);
+  return { mean: gm, sem: gm * logs.sem, n: logs.n };
+};
+
+// Summary of measured values: geometric mean for multiplicative families
+export const summarizeLevels = (values: number[], family: DistributionFamily): ScaleSummary | undefined => {
+  const usable = isMultiplicative(family) ? values.filter(v => v > 0) : values;
+  if (usable.length === 0) return undefined;
+  return isMultiplicative(family) ? geometric(usable) : arithmetic(usable);
+};
+
+// Summary of % change from baseline: geometric mean ratio expressed as % for multiplicative families
+export const summarizePercentChange = (percentChanges: number[], family: DistributionFamily): ScaleSummary | undefined => {
+  if (!isMultiplicative(family)) return percentChanges.length ? arithmetic(percentChanges) : undefined;
+  const ratios = percentChanges.map(pc => 1 + pc / 100).filter(r => r > 0);
+  if (ratios.length === 0) return undefined;
+  const g = geometric(ratios);
+  return { mean: (g.mean - 1) * 100, sem: g.sem * 100, n: g.n };
+};
+
+// Absolute change can be negative, so it is always summarized arithmetically
+export const summarizeChange = (values: number[], family: DistributionFamily, isPercent: boolean): ScaleSummary | undefined => {
+  if (isPercent) return summarizePercentChange(values, family);
+  return values.length ? arithmetic(values) : undefined;
+};
+
+// Label prefix for charts and exports
+export const meanLabel = (family: DistributionFamily): string => (isMultiplicative(family) ? 'Geometric Mean' : 'Mean');
@@ -0,0 +1,73 @@
+import { ArmDef } from '../types';
+
+// --- Dose-Response Models ---
+// Each model gives the fraction of the maximal drug effect reached at a dose. Fractions are
+// normalized to the highest dose in the study, so the configured drug effect size is always
+// the effect of the top dose and the models only shape how lower doses fall off.
+
+export type DoseResponseModelType = 'linear' | 'emax' | 'log_linear' | 'sigmoid';
+
+export interface DoseResponseConfig {
+  model: DoseResponseModelType;
+  ed50: number; // Dose giving half the maximal effect (Emax, sigmoid)
+  hill: number; // Steepness: Hill coefficient (Emax) or logistic slope per dose unit (sigmoid)
+}
+
+export const DOSE_RESPONSE_MODEL_LABELS: Record<DoseResponseModelType, string> = {
+  linear: 'Linear',
+  emax: 'Emax',
+  log_linear: 'Log-Linear',
+  sigmoid: 'Sigmoid',
+};
+
+// Hyperbolic Emax with ED50 = 1.5 puts a 1mg arm at 70% of the 2mg effect
+export const DEFAULT_DOSE_RESPONSE: DoseResponseConfig = {
+  model: 'emax',
+  ed50: 1.5,
+  hill: 1,
+};
+
+// Unnormalized effect at a dose; zero at dose 0 for every model
+const rawEffect = (dose: number, config: DoseResponseConfig): number => {
+  const d = Math.max(0, dose);
+  switch (config.model) {
+    case 'linear':
+      return d;
+    case 'log_linear':
+      return Math.log(1 + d); // log(dose + 1) keeps placebo (dose 0) at zero effect
+    case 'sigmoid': {
+      const logistic = (x: number) => 1 / (1 + Math.exp(-config.hill * (x - config.ed50)));
+      return logistic(d) - logistic(0);
+    }
+    case 'emax':
+    default: {
+      const dh = Math.pow(d, config.hill);
+      return dh / (Math.pow(config.ed50, config.hill) + dh);
+    }
+  }
+};
+
+// Fraction (0..1) of the top-dose effect reached at a dose
+export const getDoseResponseFraction = (dose: number, maxDose: number, config: DoseResponseConfig): number => {
+  const top = rawEffect(maxDose, config);
+  return top > 0 ? rawEffect(dose, config) / top : 1;
+};
+
+export const getMaxDose = (arms: ArmDef[]): number | undefined => {
+  const doses = arms.filter(a => !a.isControl && a.dose !== undefined).map(a => a.dose as number);
+  return doses.length ? Math.max(...doses) : undefined;
+};
+
+// Effect multiplier for an arm; arms without a nominal dose are treated as full-dose
+export const getDoseFactor = (arm: ArmDef, arms: ArmDef[], config: DoseResponseConfig): number => {
+  const maxDose = getMaxDose(arms);
+  if (arm.dose === undefined || maxDose === undefined) return 1.0;
+  return getDoseResponseFraction(arm.dose, maxDose, config);
+};
+
+// Sampled model curve from 0 to the top dose, for previews and chart overlays
+export const sampleDoseResponseCurve = (maxDose: number, config: DoseResponseConfig, points: number = 40): { dose: number; fraction: number }[] =>
+  Array.from({ length: points + 1 }, (_, i) => {
+    const dose = (maxDose * i) / points;
+    return { dose, fraction: getDoseResponseFraction(dose, maxDose, config) };
+  });
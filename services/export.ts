@@ -0,0 +1,27 @@
+// --- CSV Export ---
+
+// Provenance written as leading "# key: value" lines (read.csv(comment.char = '#'), pandas comment='#')
+export type ExportMetadata = Record<string, string | number>;
+
+const escapeCell = (cell: string | number): string => {
+  const s = String(cell);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const buildCSV = (rows: (string | number)[][], meta?: ExportMetadata): string => {
+  const metaLines = meta ? Object.entries(meta).map(([k, v]) => `# ${k}: ${v}`) : [];
+  return [...metaLines, ...rows.map(r => r.map(escapeCell).join(','))].join('\n');
+};
+
+export const downloadCSV = (fileName: string, rows: (string | number)[][], meta?: ExportMetadata) => {
+  const blob = new Blob([buildCSV(rows, meta)], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
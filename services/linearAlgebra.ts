@@ -0,0 +1,127 @@
+// --- Dense Matrix Helpers ---
+// Small dense routines for the model fits (designs have a handful of columns, so clarity wins over speed).
+
+export type Matrix = number[][];
+
+export const zeros = (rows: number, cols: number): Matrix => Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+export const identity = (n: number): Matrix => zeros(n, n).map((row, i) => { row[i] = 1; return row; });
+
+export const transpose = (a: Matrix): Matrix => (a.length ? a[0].map((_, j) => a.map(row => row[j])) : []);
+
+export const multiply = (a: Matrix, b: Matrix): Matrix => {
+  const out = zeros(a.length, b[0]?.length ?? 0);
+  for (let i = 0; i < a.length; i++) {
+    for (let k = 0; k < b.length; k++) {
+      const aik = a[i][k];
+      if (aik === 0) continue;
+      for (let j = 0; j < out[i].length; j++) out[i][j] += aik * b[k][j];
+    }
+  }
+  return out;
+};
+
+export const multiplyVector = (a: Matrix, v: number[]): number[] =>
+  a.map(row => row.reduce((sum, x, j) => sum + x * v[j], 0));
+
+export const dot = (a: number[], b: number[]): number => a.reduce((sum, x, i) => sum + x * b[i], 0);
+
+// Quadratic form c' A c
+export const quadraticForm = (a: Matrix, c: number[]): number => dot(c, multiplyVector(a, c));
+
+// Inverse by Gauss-Jordan elimination with partial pivoting; null when (numerically) singular
+export const invert = (m: Matrix): Matrix | null => {
+  const n = m.length;
+  const a = m.map((row, i) => [...row, ...identity(n)[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const p = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col || a[r][col] === 0) continue;
+      const f = a[r][col];
+      for (let j = 0; j < 2 * n; j++) a[r][j] -= f * a[col][j];
+    }
+  }
+  return a.map(row => row.slice(n));
+};
+
+// Lower-triangular Cholesky factor; null when a pivot is not above `minPivot` (not positive definite)
+export const cholesky = (m: Matrix, minPivot = 0): Matrix | null => {
+  const n = m.length;
+  const L = zeros(n, n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = m[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (!(sum > minPivot)) return null;
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+  return L;
+};
+
+// log-determinant of a symmetric positive definite matrix via Cholesky; NaN when not positive definite
+export const logDetSPD = (m: Matrix): number => {
+  const L = cholesky(m);
+  return L ? L.reduce((sum, row, i) => sum + 2 * Math.log(row[i]), 0) : NaN;
+};
+
+// Trace of the product A·B without forming it
+export const traceProduct = (a: Matrix, b: Matrix): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) for (let j = 0; j < b.length; j++) sum += a[i][j] * b[j][i];
+  return sum;
+};
+
+/**
+ * Eigen-decomposition of a symmetric matrix by cyclic Jacobi rotations. Eigenvalues are sorted
+ * in decreasing order; vectors[i] is the unit eigenvector for values[i].
+ */
+export const symmetricEigen = (m: Matrix, tolerance = 1e-12, maxSweeps = 100): { values: number[]; vectors: number[][] } => {
+  const n = m.length;
+  const a = m.map(row => [...row]);
+  const v = identity(n);
+  for (let sweep = 0; sweep < maxSweeps; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += a[p][q] ** 2;
+    if (off < tolerance) break;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+        // Rotation angle that zeroes a[p][q]
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  const order = Array.from({ length: n }, (_, i) => i).sort((i, j) => a[j][j] - a[i][i]);
+  return { values: order.map(i => a[i][i]), vectors: order.map(i => v.map(row => row[i])) };
+};
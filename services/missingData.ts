@@ -0,0 +1,97 @@
+import { ArmDef, BiomarkerDef, Measurement, PatientLatentTraits, Timepoint, VisitDef } from '../types';
+import { Rng } from './random';
+
+// --- Missing Data Configuration ---
+// Dropout is monotone: once a patient discontinues, every later visit is missing for all biomarkers.
+// Sample failure removes single follow-up measurements and leaves the rest of the visit intact.
+
+export interface MissingDataConfig {
+  dropoutRate: number;             // MCAR: per-visit probability of discontinuing, unrelated to outcomes
+  worseningDropoutRate: number;    // MAR: added per-visit probability after an observed worsening from baseline
+  nonResponderDropoutRate: number; // MNAR: added per-visit probability for non-responders on active treatment
+  sampleFailureRate: number;       // Per-sample probability that a follow-up measurement is lost
+}
+
+export const NO_MISSING_DATA: MissingDataConfig = {
+  dropoutRate: 0,
+  worseningDropoutRate: 0,
+  nonResponderDropoutRate: 0,
+  sampleFailureRate: 0,
+};
+
+export const hasMissingData = (config: MissingDataConfig): boolean =>
+  config.dropoutRate > 0 || config.worseningDropoutRate > 0 || config.nonResponderDropoutRate > 0 || config.sampleFailureRate > 0;
+
+// One-line description for export metadata
+export const describeMissingData = (config: MissingDataConfig): string => {
+  if (!hasMissingData(config)) return 'None';
+  const pct = (x: number) => `${(x * 100).toFixed(0)}%`;
+  return [
+    `MCAR ${pct(config.dropoutRate)}/visit`,
+    `MAR ${pct(config.worseningDropoutRate)}/visit`,
+    `MNAR ${pct(config.nonResponderDropoutRate)}/visit`,
+    `sample failure ${pct(config.sampleFailureRate)}`,
+  ].join(', ');
+};
+
+// --- Mechanisms ---
+
+// Mean % change across the panel at a visit, oriented so that positive = worse
+const meanWorsening = (measurements: Measurement[], visit: Timepoint, biomarkers: BiomarkerDef[]): number => {
+  const changes: number[] = [];
+  biomarkers.forEach(bio => {
+    const m = measurements.find(x => x.biomarkerId === bio.id && x.timepoint === visit);
+    if (m && m.percentChange !== undefined) {
+      changes.push(bio.direction === 'lower_is_better' ? m.percentChange : -m.percentChange);
+    }
+  });
+  return changes.length ? changes.reduce((a, b) => a + b, 0) / changes.length : 0;
+};
+
+/**
+ * First follow-up visit a patient misses through dropout, or undefined if they complete the study.
+ * The hazard at each visit combines the MCAR rate, the MAR rate when the previous (observed) visit
+ * was worse than baseline, and the MNAR rate for latent non-responders on active treatment.
+ * One uniform is drawn per visit regardless of the rates, so the same seed gives nested dropout
+ * patterns as the rates are increased.
+ */
+export const drawDropoutVisit = (
+  measurements: Measurement[],
+  traits: PatientLatentTraits,
+  arm: ArmDef,
+  followUpVisits: VisitDef[],
+  biomarkers: BiomarkerDef[],
+  config: MissingDataConfig,
+  rng: Rng
+): Timepoint | undefined => {
+  let discontinuedAt: Timepoint | undefined;
+  let previous: Timepoint | undefined;
+  followUpVisits.forEach(visit => {
+    const u = rng.uniform();
+    if (discontinuedAt) return;
+    let hazard = config.dropoutRate;
+    if (previous && meanWorsening(measurements, previous, biomarkers) > 0) hazard += config.worseningDropoutRate;
+    if (!arm.isControl && !traits.isResponder) hazard += config.nonResponderDropoutRate;
+    if (u < Math.min(1, hazard)) discontinuedAt = visit.label;
+    previous = visit.label;
+  });
+  return discontinuedAt;
+};
+
+// Removes measurements at and after the dropout visit, then applies per-sample failure to follow-ups
+export const applyMissingData = (
+  measurements: Measurement[],
+  followUpVisits: VisitDef[],
+  discontinuedAt: Timepoint | undefined,
+  sampleFailureRate: number,
+  rng: Rng
+): Measurement[] => {
+  const visitIndex = new Map(followUpVisits.map((v, i) => [v.label, i]));
+  const dropoutIndex = discontinuedAt !== undefined ? visitIndex.get(discontinuedAt) ?? Infinity : Infinity;
+  return measurements.filter(m => {
+    const idx = visitIndex.get(m.timepoint);
+    if (idx === undefined) return true; // Baseline is always kept
+    const failed = rng.uniform() < sampleFailureRate;
+    return idx < dropoutIndex && !failed;
+  });
+};
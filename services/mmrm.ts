@@ -0,0 +1,493 @@
+import { Measurement, PatientData, Timepoint } from '../types';
+import { AncovaScale, backTransform, modelResponse } from './ancova';
+import { invert, logDetSPD, Matrix, multiply, traceProduct, zeros } from './linearAlgebra';
+import { studentTCdf, studentTQuantile } from './statistics';
+
+// --- Mixed Model for Repeated Measures ---
+// change ~ arm × visit + baseline × visit, with a within-patient covariance over the follow-up
+// visits. Fitted by REML (Fisher scoring); patients contribute whatever visits they have, so
+// the estimates are valid under missing-at-random dropout.
+
+export type CovarianceStructure = 'unstructured' | 'compound_symmetry' | 'ar1';
+
+export const COVARIANCE_LABELS: Record<CovarianceStructure, string> = {
+  unstructured: 'Unstructured',
+  compound_symmetry: 'Compound Symmetry',
+  ar1: 'AR(1)',
+};
+
+export type DfMethod = 'kenward_roger' | 'satterthwaite';
+
+export const DF_METHOD_LABELS: Record<DfMethod, string> = {
+  kenward_roger: 'Kenward-Roger',
+  satterthwaite: 'Satterthwaite',
+};
+
+export interface MmrmEstimate {
+  visit: Timepoint;
+  arm: string;
+  n: number;        // Patients observed at the visit
+  estimate: number; // Reporting scale
+  se: number;       // Model scale
+  df: number;
+  lower: number;
+  upper: number;
+}
+
+export interface MmrmContrast extends MmrmEstimate {
+  pValue: number; // Two-sided, vs the reference arm
+}
+
+export interface MmrmResult {
+  structure: CovarianceStructure;
+  dfMethod: DfMethod;
+  scale: AncovaScale;
+  referenceArm: string;
+  visits: Timepoint[];
+  patients: number;
+  observations: number;
+  converged: boolean;
+  iterations: number;
+  remlLogLik: number;
+  covariance: Matrix; // Estimated within-patient covariance over the follow-up visits
+  lsMeans: MmrmEstimate[];
+  contrasts: MmrmContrast[];
+}
+
+// --- Covariance Structures ---
+// Parameterized so that each element of Σ is a simple function of θ: unstructured and compound
+// symmetry are linear in θ (no second-derivative term in the Kenward-Roger adjustment).
+
+interface CovarianceModel {
+  start: (visitVariances: number[]) => number[];
+  build: (theta: number[]) => Matrix;
+  derivatives: (theta: number[]) => Matrix[];
+  secondDerivative?: (theta: number[], i: number, j: number) => Matrix;
+}
+
+const covarianceModel = (structure: CovarianceStructure, T: number): CovarianceModel => {
+  const average = (v: number[]) => v.reduce((a, b) => a + b, 0) / v.length;
+
+  if (structure === 'compound_symmetry') {
+    // θ = [between-patient variance, within-patient variance]
+    return {
+      start: (vars) => [average(vars) / 2, average(vars) / 2],
+      build: ([sb, se]) => zeros(T, T).map((row, j) => row.map((_, k) => sb + (j === k ? se : 0))),
+      derivatives: () => [
+        zeros(T, T).map(row => row.map(() => 1)),
+        zeros(T, T).map((row, j) => row.map((_, k) => (j === k ? 1 : 0))),
+      ],
+    };
+  }
+
+  if (structure === 'ar1') {
+    // θ = [variance, correlation between adjacent visits]; lag counts visits, not days
+    const lag = (j: number, k: number) => Math.abs(j - k);
+    const pow = (rho: number, e: number) => (e < 0 ? 0 : Math.pow(rho, e));
+    const fill = (f: (d: number) => number) => zeros(T, T).map((row, j) => row.map((_, k) => f(lag(j, k))));
+    return {
+      start: (vars) => [average(vars), 0.5],
+      build: ([s2, rho]) => fill(d => s2 * pow(rho, d)),
+      derivatives: ([s2, rho]) => [
+        fill(d => pow(rho, d)),
+        fill(d => (d === 0 ? 0 : s2 * d * pow(rho, d - 1))),
+      ],
+      secondDerivative: ([s2, rho], i, j) => {
+        if (i === 0 && j === 0) return zeros(T, T);
+        if (i !== j) return fill(d => (d === 0 ? 0 : d * pow(rho, d - 1)));
+        return fill(d => (d < 2 ? 0 : s2 * d * (d - 1) * pow(rho, d - 2)));
+      },
+    };
+  }
+
+  // Unstructured: θ = lower-triangle elements of Σ
+  const pairs: [number, number][] = [];
+  for (let j = 0; j < T; j++) for (let k = 0; k <= j; k++) pairs.push([j, k]);
+  return {
+    start: (vars) => pairs.map(([j, k]) => (j === k ? vars[j] : 0)),
+    build: (theta) => {
+      const m = zeros(T, T);
+      pairs.forEach(([j, k], idx) => { m[j][k] = theta[idx]; m[k][j] = theta[idx]; });
+      return m;
+    },
+    derivatives: () => pairs.map(([j, k]) => {
+      const m = zeros(T, T);
+      m[j][k] = 1;
+      m[k][j] = 1;
+      return m;
+    }),
+  };
+};
+
+// --- Design ---
+// Each observation row has two non-zero columns: its arm × visit cell and its visit's
+// baseline slope (times the patient's centered baseline), so X is never formed densely.
+
+interface PatientRows {
+  arm: string;
+  visitIdx: number[];
+  cells: number[];
+  slopes: number[];
+  bc: number;  // Centered baseline covariate
+  y: number[];
+}
+
+const subMatrix = (m: Matrix, idx: number[]): Matrix => idx.map(i => idx.map(j => m[i][j]));
+
+// target += X_k' A X_k
+const addXtAX = (target: Matrix, pt: PatientRows, a: Matrix, weight: number = 1) => {
+  const { cells, slopes, bc } = pt;
+  for (let r = 0; r < cells.length; r++) {
+    for (let s = 0; s < cells.length; s++) {
+      const v = a[r][s] * weight;
+      if (v === 0) continue;
+      target[cells[r]][cells[s]] += v;
+      target[cells[r]][slopes[s]] += v * bc;
+      target[slopes[r]][cells[s]] += v * bc;
+      target[slopes[r]][slopes[s]] += v * bc * bc;
+    }
+  }
+};
+
+// X_k Φ X_k'
+const xPhiXt = (pt: PatientRows, phi: Matrix): Matrix => {
+  const { cells, slopes, bc } = pt;
+  return cells.map((cr, r) => cells.map((cs, s) =>
+    phi[cr][cs] + bc * (phi[cr][slopes[s]] + phi[slopes[r]][cs]) + bc * bc * phi[slopes[r]][slopes[s]]));
+};
+
+// --- REML Evaluation ---
+
+interface RemlState {
+  logLik: number;
+  phi: Matrix;       // (X' V⁻¹ X)⁻¹
+  beta: number[];
+  vInv: Matrix[];    // Per patient
+  resid: number[][]; // V⁻¹ r per patient
+}
+
+const evaluateReml = (patients: PatientRows[], p: number, sigma: Matrix): RemlState | null => {
+  if (isNaN(logDetSPD(sigma))) return null;
+  const xtvx = zeros(p, p);
+  const xtvy = new Array<number>(p).fill(0);
+  let logDetV = 0;
+  const vInv: Matrix[] = [];
+
+  for (const pt of patients) {
+    const v = subMatrix(sigma, pt.visitIdx);
+    const inv = invert(v);
+    if (!inv) return null;
+    logDetV += logDetSPD(v);
+    vInv.push(inv);
+    addXtAX(xtvx, pt, inv);
+    const viy = inv.map(row => row.reduce((s, x, j) => s + x * pt.y[j], 0));
+    viy.forEach((v2, r) => { xtvy[pt.cells[r]] += v2; xtvy[pt.slopes[r]] += v2 * pt.bc; });
+  }
+
+  const phi = invert(xtvx);
+  const logDetXtVX = logDetSPD(xtvx);
+  if (!phi || isNaN(logDetXtVX)) return null;
+  const beta = phi.map(row => row.reduce((s, x, j) => s + x * xtvy[j], 0));
+
+  let quad = 0;
+  const resid = patients.map((pt, k) => {
+    const r = pt.y.map((y, i) => y - beta[pt.cells[i]] - pt.bc * beta[pt.slopes[i]]);
+    const u = vInv[k].map(row => row.reduce((s, x, j) => s + x * r[j], 0));
+    quad += r.reduce((s, x, i) => s + x * u[i], 0);
+    return u;
+  });
+
+  return { logLik: -0.5 * (logDetV + logDetXtVX + quad), phi, beta, vInv, resid };
+};
+
+// P_m = Σ X' V⁻¹ (∂V/∂θ_m) V⁻¹ X for every covariance parameter
+const computeP = (patients: PatientRows[], p: number, state: RemlState, derivs: Matrix[][]): Matrix[] =>
+  derivs[0].map((_, m) => {
+    const P = zeros(p, p);
+    patients.forEach((pt, k) => addXtAX(P, pt, multiply(multiply(state.vInv[k], derivs[k][m]), state.vInv[k])));
+    return P;
+  });
+
+/**
+ * Score and expected information of the REML log-likelihood in θ. With the REML projection
+ * P̃ = V⁻¹ − V⁻¹XΦX'V⁻¹, the information is ½ tr(P̃ ∂V_m P̃ ∂V_n), expanded per patient.
+ */
+const scoreAndInformation = (patients: PatientRows[], state: RemlState, derivs: Matrix[][], P: Matrix[]) => {
+  const q = P.length;
+  const score = new Array<number>(q).fill(0);
+  const info = zeros(q, q);
+
+  patients.forEach((pt, k) => {
+    const vInv = state.vInv[k];
+    const u = state.resid[k];
+    const H = multiply(multiply(vInv, xPhiXt(pt, state.phi)), vInv);
+    const vd = derivs[k].map(d => multiply(vInv, d)); // V⁻¹ ∂V_m
+    for (let m = 0; m < q; m++) {
+      const d = derivs[k][m];
+      const ud = d.reduce((s, row, i) => s + u[i] * row.reduce((acc, x, j) => acc + x * u[j], 0), 0);
+      let tr = 0;
+      for (let i = 0; i < vd[m].length; i++) tr += vd[m][i][i];
+      score[m] += -0.5 * (tr - ud);
+      const hd = multiply(H, d);
+      for (let n = m; n < q; n++) {
+        info[m][n] += 0.5 * (traceProduct(vd[m], vd[n]) - 2 * traceProduct(hd, vd[n]));
+      }
+    }
+  });
+
+  for (let m = 0; m < q; m++) {
+    score[m] += 0.5 * traceProduct(state.phi, P[m]);
+    const phiPm = multiply(state.phi, P[m]);
+    for (let n = m; n < q; n++) {
+      info[m][n] += 0.5 * traceProduct(phiPm, multiply(state.phi, P[n]));
+      info[n][m] = info[m][n];
+    }
+  }
+  return { score, info };
+};
+
+const MAX_ITERATIONS = 100;
+
+/**
+ * Fits the MMRM for one biomarker. Each patient needs a baseline and at least one follow-up
+ * value; arm × visit cells without data are dropped from the model. Returns undefined when
+ * the model cannot be fitted (no reference arm data, singular design or covariance).
+ * `onProgress` is called after every Fisher scoring iteration.
+ */
+export const fitMmrm = (
+  data: PatientData[],
+  biomarkerId: string,
+  baselineVisit: Timepoint,
+  visits: Timepoint[],
+  armOrder: string[],
+  referenceArm: string,
+  isPercent: boolean,
+  scale: AncovaScale,
+  structure: CovarianceStructure,
+  dfMethod: DfMethod,
+  level: number = 0.95,
+  onProgress?: (iteration: number, maxIterations: number) => void
+): MmrmResult | undefined => {
+  // Visits where the biomarker was never measured carry no information; leave them out
+  const measured = new Set<Timepoint>();
+  data.forEach(p => p.measurements.forEach(m => { if (m.biomarkerId === biomarkerId) measured.add(m.timepoint); }));
+  visits = visits.filter(v => measured.has(v));
+  const T = visits.length;
+  if (T === 0) return undefined;
+  const visitIndex = new Map(visits.map((v, i) => [v, i]));
+
+  // 1. Observations on the model scale
+  const raw: { arm: string; baseline: number; visitIdx: number[]; y: number[] }[] = [];
+  data.forEach(p => {
+    if (!armOrder.includes(p.arm)) return;
+    let baseline: number | undefined;
+    const followUps: Measurement[] = [];
+    p.measurements.forEach(m => {
+      if (m.biomarkerId !== biomarkerId) return;
+      if (m.timepoint === baselineVisit) baseline = m.value;
+      else if (visitIndex.has(m.timepoint)) followUps.push(m);
+    });
+    if (baseline === undefined) return;
+    const rows = followUps
+      .map(m => ({ t: visitIndex.get(m.timepoint)!, row: modelResponse(baseline!, m, isPercent, scale) }))
+      .filter((r): r is { t: number; row: { baseline: number; response: number } } => r.row !== undefined)
+      .sort((a, b) => a.t - b.t);
+    if (rows.length === 0) return;
+    raw.push({ arm: p.arm, baseline: rows[0].row.baseline, visitIdx: rows.map(r => r.t), y: rows.map(r => r.row.response) });
+  });
+  if (raw.length === 0) return undefined;
+
+  // 2. Columns: observed arm × visit cells, then one baseline slope per visit
+  const cellIndex = new Map<string, number>();
+  const cellCounts = new Map<string, number>();
+  armOrder.forEach(arm => visits.forEach((_, t) => {
+    const n = raw.filter(r => r.arm === arm && r.visitIdx.includes(t)).length;
+    if (n > 0) {
+      cellIndex.set(`${arm}|${t}`, cellIndex.size);
+      cellCounts.set(`${arm}|${t}`, n);
+    }
+  }));
+  const observedVisits = visits.map((_, t) => raw.some(r => r.visitIdx.includes(t)));
+  if (observedVisits.some(o => !o)) return undefined;
+  const p = cellIndex.size + T;
+  const observations = raw.reduce((s, r) => s + r.y.length, 0);
+  if (observations <= p) return undefined;
+
+  const baselineMean = raw.reduce((s, r) => s + r.baseline, 0) / raw.length;
+  const patients: PatientRows[] = raw.map(r => ({
+    arm: r.arm,
+    visitIdx: r.visitIdx,
+    cells: r.visitIdx.map(t => cellIndex.get(`${r.arm}|${t}`)!),
+    slopes: r.visitIdx.map(t => cellIndex.size + t),
+    bc: r.baseline - baselineMean,
+    y: r.y,
+  }));
+
+  // 3. Starting values from per-visit variances around the arm means
+  const visitVariances = visits.map((_, t) => {
+    const byArm = new Map<string, number[]>();
+    raw.forEach(r => {
+      const i = r.visitIdx.indexOf(t);
+      if (i < 0) return;
+      if (!byArm.has(r.arm)) byArm.set(r.arm, []);
+      byArm.get(r.arm)!.push(r.y[i]);
+    });
+    let ss = 0, n = 0;
+    byArm.forEach(vals => {
+      const mean = vals.reduce((a, b) => a + b, 0) / vals.length;
+      vals.forEach(v => { ss += (v - mean) ** 2; n++; });
+    });
+    return Math.max(ss / Math.max(1, n - byArm.size), 1e-8);
+  });
+
+  const model = covarianceModel(structure, T);
+  const patientDerivs = (theta: number[]) => {
+    const full = model.derivatives(theta);
+    return patients.map(pt => full.map(d => subMatrix(d, pt.visitIdx)));
+  };
+
+  // 4. Fisher scoring with step halving
+  let theta = model.start(visitVariances);
+  let state = evaluateReml(patients, p, model.build(theta));
+  if (!state) return undefined;
+  let converged = false;
+  let iterations = 0;
+
+  for (; iterations < MAX_ITERATIONS && !converged; iterations++) {
+    const derivs = patientDerivs(theta);
+    const P = computeP(patients, p, state, derivs);
+    const { score, info } = scoreAndInformation(patients, state, derivs, P);
+    const infoInv = invert(info);
+    if (!infoInv) break;
+    const step = infoInv.map(row => row.reduce((s, x, j) => s + x * score[j], 0));
+
+    let accepted = false;
+    for (let half = 0; half < 30; half++) {
+      const factor = Math.pow(0.5, half);
+      const candidate = theta.map((t, i) => t + factor * step[i]);
+      const next = evaluateReml(patients, p, model.build(candidate));
+      if (next && next.logLik >= state.logLik - 1e-10 * (1 + Math.abs(state.logLik))) {
+        converged = Math.abs(next.logLik - state.logLik) < 1e-9 * (1 + Math.abs(state.logLik));
+        theta = candidate;
+        state = next;
+        accepted = true;
+        break;
+      }
+    }
+    if (!accepted) {
+      converged = true; // No improving step: at the optimum to numerical precision
+      break;
+    }
+    onProgress?.(iterations + 1, MAX_ITERATIONS);
+  }
+
+  // 5. Inference: Φ (optionally Kenward-Roger adjusted) and per-contrast degrees of freedom
+  const derivs = patientDerivs(theta);
+  const P = computeP(patients, p, state, derivs);
+  const { info } = scoreAndInformation(patients, state, derivs, P);
+  const W = invert(info);
+  if (!W) return undefined;
+  const phi = state.phi;
+  const q = theta.length;
+
+  let phiAdjusted = phi;
+  if (dfMethod === 'kenward_roger') {
+    // Φ_A = Φ + 2Φ [Σ W_mn (Q_mn − P_m Φ P_n − ¼ R_mn)] Φ
+    const inner = zeros(p, p);
+    patients.forEach((pt, k) => {
+      const vInv = state!.vInv[k];
+      const S = zeros(pt.y.length, pt.y.length);
+      for (let m = 0; m < q; m++) {
+        const dmv = multiply(derivs[k][m], vInv);
+        for (let n = 0; n < q; n++) {
+          if (W[m][n] === 0) continue;
+          const term = multiply(dmv, derivs[k][n]);
+          for (let i = 0; i < S.length; i++) for (let j = 0; j < S.length; j++) S[i][j] += W[m][n] * term[i][j];
+        }
+      }
+      if (model.secondDerivative) {
+        for (let m = 0; m < q; m++) for (let n = 0; n < q; n++) {
+          const r = subMatrix(model.secondDerivative(theta, m, n), pt.visitIdx);
+          for (let i = 0; i < S.length; i++) for (let j = 0; j < S.length; j++) S[i][j] -= 0.25 * W[m][n] * r[i][j];
+        }
+      }
+      addXtAX(inner, pt, multiply(multiply(vInv, S), vInv));
+    });
+    for (let m = 0; m < q; m++) {
+      const G = zeros(p, p);
+      for (let n = 0; n < q; n++) {
+        if (W[m][n] === 0) continue;
+        for (let i = 0; i < p; i++) for (let j = 0; j < p; j++) G[i][j] += W[m][n] * P[n][i][j];
+      }
+      const pgp = multiply(multiply(P[m], phi), G);
+      for (let i = 0; i < p; i++) for (let j = 0; j < p; j++) inner[i][j] -= pgp[i][j];
+    }
+    const correction = multiply(multiply(phi, inner), phi);
+    phiAdjusted = phi.map((row, i) => row.map((v, j) => v + 2 * correction[i][j]));
+  }
+
+  // Single-contrast df: 2 v² / g'Wg with g_m = (ΦL)' P_m (ΦL). Satterthwaite uses v = L'ΦL.
+  // For one contrast the Kenward-Roger scaling factor is 1 and its df takes the same form with
+  // the adjusted variance v = L'Φ_A L, so the two df differ (slightly, unless samples are small).
+  const infer = (L: Map<number, number>) => {
+    const terms = Array.from(L);
+    const quad = (m: Matrix) => terms.reduce((s, [i, wi]) => s + wi * terms.reduce((acc, [j, wj]) => acc + m[i][j] * wj, 0), 0);
+    const phiL = phi.map(row => terms.reduce((s, [j, w]) => s + row[j] * w, 0));
+    const variance = Math.max(quad(phiAdjusted), 1e-300);
+    const g = P.map(Pm => phiL.reduce((s, a, i) => s + a * Pm[i].reduce((acc, x, j) => acc + x * phiL[j], 0), 0));
+    const gWg = g.reduce((s, gi, i) => s + gi * g.reduce((acc, gj, j) => acc + W[i][j] * gj, 0), 0);
+    const df = gWg > 0 ? Math.max(1, (2 * variance * variance) / gWg) : observations - p;
+    const estimate = terms.reduce((s, [j, w]) => s + state!.beta[j] * w, 0);
+    return { estimate, se: Math.sqrt(variance), df };
+  };
+
+  const lsMeans: MmrmEstimate[] = [];
+  const contrasts: MmrmContrast[] = [];
+  visits.forEach((visit, t) => {
+    const refCell = cellIndex.get(`${referenceArm}|${t}`);
+    armOrder.forEach(arm => {
+      const cell = cellIndex.get(`${arm}|${t}`);
+      if (cell === undefined) return;
+      const n = cellCounts.get(`${arm}|${t}`)!;
+      const ls = infer(new Map([[cell, 1]]));
+      const tCrit = studentTQuantile(1 - (1 - level) / 2, ls.df);
+      lsMeans.push({
+        visit, arm, n,
+        estimate: backTransform(scale, ls.estimate),
+        se: ls.se,
+        df: ls.df,
+        lower: backTransform(scale, ls.estimate - tCrit * ls.se),
+        upper: backTransform(scale, ls.estimate + tCrit * ls.se),
+      });
+
+      if (arm === referenceArm || refCell === undefined) return;
+      const c = infer(new Map([[cell, 1], [refCell, -1]]));
+      const cCrit = studentTQuantile(1 - (1 - level) / 2, c.df);
+      contrasts.push({
+        visit, arm, n,
+        estimate: backTransform(scale, c.estimate),
+        se: c.se,
+        df: c.df,
+        lower: backTransform(scale, c.estimate - cCrit * c.se),
+        upper: backTransform(scale, c.estimate + cCrit * c.se),
+        pValue: 2 * (1 - studentTCdf(Math.abs(c.estimate / c.se), c.df)),
+      });
+    });
+  });
+
+  return {
+    structure,
+    dfMethod,
+    scale,
+    referenceArm,
+    visits,
+    patients: patients.length,
+    observations,
+    converged,
+    iterations,
+    remlLogLik: state.logLik,
+    covariance: model.build(theta),
+    lsMeans,
+    contrasts,
+  };
+};
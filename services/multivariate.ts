@@ -0,0 +1,63 @@
+import { BiomarkerCategory, BiomarkerDef } from '../types';
+import { cholesky } from './linearAlgebra';
+import { Rng } from './random';
+
+// --- Correlation Configuration ---
+
+export interface CorrelationConfig {
+  withinCategory: number;                 // Default correlation between biomarkers of the same category
+  betweenCategory: number;                // Default correlation across categories
+  pairOverrides: Record<string, number>;  // Explicit pair correlations keyed by pairKey()
+}
+
+export const DEFAULT_CORRELATION: CorrelationConfig = {
+  withinCategory: 0.5,
+  betweenCategory: 0.15,
+  pairOverrides: {},
+};
+
+// Order-independent key for a biomarker pair
+export const pairKey = (idA: string, idB: string): string => (idA < idB ? `${idA}|${idB}` : `${idB}|${idA}`);
+
+/**
+ * Correlation between two biomarkers on the latent "disease severity" scale.
+ * Custom biomarkers have no category affinity and use the between-category default.
+ */
+export const getPairCorrelation = (a: BiomarkerDef, b: BiomarkerDef, config: CorrelationConfig): number => {
+  if (a.id === b.id) return 1;
+  const override = config.pairOverrides[pairKey(a.id, b.id)];
+  if (override !== undefined) return override;
+  const sameCategory = a.category === b.category && a.category !== BiomarkerCategory.CUSTOM;
+  return sameCategory ? config.withinCategory : config.betweenCategory;
+};
+
+export const buildCorrelationMatrix = (biomarkers: BiomarkerDef[], config: CorrelationConfig): number[][] =>
+  biomarkers.map(a => biomarkers.map(b => getPairCorrelation(a, b, config)));
+
+// --- Linear Algebra ---
+
+/**
+ * Cholesky factor of a correlation matrix. Hand-edited pair correlations can be mutually
+ * inconsistent (not positive definite); those are shrunk toward the identity until valid.
+ * Returns the factor and the shrinkage applied (0 = matrix used as entered).
+ */
+export const correlationFactor = (corr: number[][]): { L: number[][]; shrinkage: number } => {
+  for (let step = 0; step <= 20; step++) {
+    const lambda = step / 20;
+    const shrunk = corr.map((row, i) => row.map((r, j) => (i === j ? 1 : (1 - lambda) * r)));
+    const L = cholesky(shrunk, 1e-10);
+    if (L) return { L, shrinkage: lambda };
+  }
+  // Identity always factors; unreachable in practice
+  return { L: corr.map((row, i) => row.map((_, j) => (i === j ? 1 : 0))), shrinkage: 1 };
+};
+
+// Draws a vector of correlated standard normals: z = L · e, e ~ N(0, I)
+export const drawCorrelatedNormals = (L: number[][], rng: Rng): number[] => {
+  const e = L.map(() => rng.normal());
+  return L.map(row => {
+    let sum = 0;
+    for (let k = 0; k < row.length; k++) sum += row[k] * e[k];
+    return sum;
+  });
+};
@@ -0,0 +1,227 @@
+import { AncovaObservation, AncovaScale, backTransform } from './ancova';
+import { normalCdf, normalQuantile } from './statistics';
+
+// --- Rank-Based Comparisons ---
+// Wilcoxon rank-sum and van Elteren tests with Hodges-Lehmann shift estimates, for skewed
+// markers where a t-test or ANCOVA on change is hard to defend. Tests use the normal
+// approximation with a tie correction; at trial sample sizes it is indistinguishable from exact.
+
+export type RankMethod = 'wilcoxon' | 'van_elteren';
+
+export interface RankGroupSummary {
+  arm: string;
+  n: number;
+  median: number; // Reporting scale
+}
+
+export interface RankContrast {
+  arm: string;
+  estimate: number; // Hodges-Lehmann shift vs the reference arm (ratio in % on the log scale)
+  lower: number;    // Distribution-free (Moses) CI
+  upper: number;
+  statistic: number; // Standardized rank statistic (z)
+  pValue: number;
+}
+
+export interface RankComparisonResult {
+  method: RankMethod;
+  referenceArm: string;
+  scale: AncovaScale;
+  strata: number;
+  groups: RankGroupSummary[];
+  contrasts: RankContrast[];
+}
+
+const median = (sorted: number[]): number => {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Mid-ranks (1-based) of the pooled sample plus the tie correction term Σ(t³ − t)
+export const midRanks = (values: number[]): { ranks: number[]; ties: number } => {
+  const order = values.map((v, i) => i).sort((a, b) => values[a] - values[b]);
+  const ranks = new Array<number>(values.length);
+  let ties = 0;
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && values[order[j + 1]] === values[order[i]]) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k]] = rank;
+    const t = j - i + 1;
+    ties += t * t * t - t;
+    i = j + 1;
+  }
+  return { ranks, ties };
+};
+
+interface RankSumComponent {
+  deviation: number; // W − E[W]
+  variance: number;
+}
+
+const rankSumComponent = (treated: number[], control: number[]): RankSumComponent | undefined => {
+  const n1 = treated.length;
+  const n0 = control.length;
+  const N = n1 + n0;
+  if (n1 === 0 || n0 === 0 || N < 2) return undefined;
+  const { ranks, ties } = midRanks([...treated, ...control]);
+  let w = 0;
+  for (let i = 0; i < n1; i++) w += ranks[i];
+  const variance = ((n1 * n0) / 12) * (N + 1 - ties / (N * (N - 1)));
+  return { deviation: w - (n1 * (N + 1)) / 2, variance };
+};
+
+/**
+ * Rank-sum z statistic over strata. Each stratum's rank sum is weighted by 1 / (N_s + 1)
+ * (van Elteren, locally most powerful when the shift is common across strata); a single
+ * stratum is the Wilcoxon rank-sum test. Strata missing either arm carry no information.
+ */
+export const stratifiedRankSumTest = (
+  treated: number[][],
+  control: number[][]
+): { statistic: number; pValue: number } | undefined => {
+  let num = 0;
+  let variance = 0;
+  treated.forEach((t, s) => {
+    const comp = rankSumComponent(t, control[s] ?? []);
+    if (!comp) return;
+    const weight = treated.length > 1 ? 1 / (t.length + control[s].length + 1) : 1;
+    num += weight * comp.deviation;
+    variance += weight * weight * comp.variance;
+  });
+  if (variance <= 0) return undefined;
+  const statistic = num / Math.sqrt(variance);
+  return { statistic, pValue: 2 * (1 - normalCdf(Math.abs(statistic))) };
+};
+
+// Number of pairwise differences x_i − y_j ≤ d, for ascending x and y (two pointers, O(m + n))
+const countDifferencesAtMost = (x: number[], y: number[], d: number): number => {
+  let count = 0;
+  let j = 0;
+  for (let i = 0; i < x.length; i++) {
+    while (j < y.length && y[j] < x[i] - d) j++;
+    count += y.length - j;
+  }
+  return count;
+};
+
+// Largest pairwise difference that does not exceed d
+const differenceAtOrBelow = (x: number[], y: number[], d: number): number => {
+  let best = -Infinity;
+  x.forEach(xi => {
+    // Smallest y_j ≥ xi − d gives the largest xi − y_j ≤ d
+    let lo = 0;
+    let hi = y.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (y[mid] < xi - d) lo = mid + 1; else hi = mid;
+    }
+    if (lo < y.length) best = Math.max(best, xi - y[lo]);
+  });
+  return best;
+};
+
+/**
+ * k-th smallest (1-based) of the m·n pairwise differences without forming them: bisection on
+ * the value with a linear-time count, then snapped to the actual difference. Keeps the
+ * Hodges-Lehmann estimate usable on cohorts of tens of thousands of patients.
+ */
+const kthPairwiseDifference = (x: number[], y: number[], k: number): number => {
+  let lo = x[0] - y[y.length - 1];
+  let hi = x[x.length - 1] - y[0];
+  if (countDifferencesAtMost(x, y, lo) >= k) return lo;
+  for (let iter = 0; iter < 200 && hi - lo > 1e-12 * (1 + Math.abs(hi)); iter++) {
+    const mid = (lo + hi) / 2;
+    if (countDifferencesAtMost(x, y, mid) >= k) hi = mid; else lo = mid;
+  }
+  return differenceAtOrBelow(x, y, hi);
+};
+
+/**
+ * Hodges-Lehmann shift (median of all treated − control differences) with the Moses
+ * distribution-free confidence interval from the order statistics of those differences.
+ */
+export const hodgesLehmann = (
+  treated: number[],
+  control: number[],
+  level: number = 0.95
+): { estimate: number; lower: number; upper: number } | undefined => {
+  const m = treated.length;
+  const n = control.length;
+  if (m === 0 || n === 0) return undefined;
+  const x = [...treated].sort((a, b) => a - b);
+  const y = [...control].sort((a, b) => a - b);
+  const total = m * n;
+
+  const estimate = total % 2
+    ? kthPairwiseDifference(x, y, (total + 1) / 2)
+    : (kthPairwiseDifference(x, y, total / 2) + kthPairwiseDifference(x, y, total / 2 + 1)) / 2;
+
+  const z = normalQuantile(1 - (1 - level) / 2);
+  const k = Math.max(1, Math.floor(total / 2 - z * Math.sqrt((total * (m + n + 1)) / 12)));
+  return {
+    estimate,
+    lower: kthPairwiseDifference(x, y, k),
+    upper: kthPairwiseDifference(x, y, total - k + 1),
+  };
+};
+
+// Baseline strata (van Elteren, CMH): equal-count groups of the pooled baseline values
+export const assignBaselineStrata = (baselines: number[], strata: number): number[] => {
+  const sorted = [...baselines].sort((a, b) => a - b);
+  const cuts = Array.from({ length: strata - 1 }, (_, i) => sorted[Math.floor(((i + 1) * sorted.length) / strata)]);
+  return baselines.map(v => cuts.filter(c => v >= c).length);
+};
+
+export const DEFAULT_BASELINE_STRATA = 3;
+
+/**
+ * Compares every arm with the reference arm at one visit. Responses are on the same model
+ * scale as the ANCOVA, so the shift of a skewed marker's % change is a ratio (in %).
+ */
+export const compareRanks = (
+  observations: AncovaObservation[],
+  armOrder: string[],
+  referenceArm: string,
+  scale: AncovaScale,
+  method: RankMethod,
+  strata: number = DEFAULT_BASELINE_STRATA,
+  level: number = 0.95
+): RankComparisonResult | undefined => {
+  const stratumCount = method === 'van_elteren' ? strata : 1;
+  const stratumOf = stratumCount > 1 ? assignBaselineStrata(observations.map(o => o.baseline), stratumCount) : observations.map(() => 0);
+
+  const byArm = new Map<string, number[][]>();
+  observations.forEach((o, i) => {
+    if (!byArm.has(o.arm)) byArm.set(o.arm, Array.from({ length: stratumCount }, () => []));
+    byArm.get(o.arm)![stratumOf[i]].push(o.response);
+  });
+  const control = byArm.get(referenceArm);
+  if (!control) return undefined;
+  const pooled = (groups: number[][]) => groups.flat();
+
+  const groups = armOrder.filter(a => byArm.has(a)).map(arm => {
+    const values = pooled(byArm.get(arm)!).sort((a, b) => a - b);
+    return { arm, n: values.length, median: backTransform(scale, median(values)) };
+  });
+
+  const contrasts: RankContrast[] = [];
+  armOrder.forEach(arm => {
+    const treated = byArm.get(arm);
+    if (arm === referenceArm || !treated) return;
+    const test = stratifiedRankSumTest(treated, control);
+    const shift = hodgesLehmann(pooled(treated), pooled(control), level);
+    if (!test || !shift) return;
+    contrasts.push({
+      arm,
+      estimate: backTransform(scale, shift.estimate),
+      lower: backTransform(scale, shift.lower),
+      upper: backTransform(scale, shift.upper),
+      statistic: test.statistic,
+      pValue: test.pValue,
+    });
+  });
+  if (contrasts.length === 0) return undefined;
+
+  return { method, referenceArm, scale, strata: stratumCount, groups, contrasts };
+};
@@ -0,0 +1,22 @@
+import { PatientData } from '../types';
+
+// --- Saved Patient Groupings ---
+// A named partition of the cohort (e.g. k-means clusters) that the deep dive can filter on.
+
+export interface PatientGrouping {
+  name: string;                        // e.g. "k-means (k = 3) on baseline values"
+  groups: string[];                    // Group labels in display order
+  assignments: Record<string, string>; // patientId → group label
+}
+
+export const ALL_GROUPS = 'all';
+
+// Patients outside the grouping (e.g. dropped for missing data) are only kept by ALL_GROUPS
+export const filterByGroup = (data: PatientData[], grouping: PatientGrouping | null, group: string): PatientData[] =>
+  !grouping || group === ALL_GROUPS ? data : data.filter(p => grouping.assignments[p.patientId] === group);
+
+export const countGroupMembers = (grouping: PatientGrouping): Record<string, number> => {
+  const counts: Record<string, number> = Object.fromEntries(grouping.groups.map(g => [g, 0]));
+  Object.values(grouping.assignments).forEach(g => { counts[g] = (counts[g] ?? 0) + 1; });
+  return counts;
+};
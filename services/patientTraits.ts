@@ -0,0 +1,40 @@
+import { PatientData, PatientLatentTraits } from '../types';
+
+// --- Latent Trait Filters ---
+// Simulated patients carry the latent traits they were generated from; these filters
+// let the dashboard look at e.g. responders only, to see what a "true" effect looks like.
+
+export type TraitFilter = 'all' | 'responders' | 'non_responders' | 'high_severity' | 'low_severity' | 'high_sensitivity' | 'low_sensitivity';
+
+export const TRAIT_FILTER_LABELS: Record<TraitFilter, string> = {
+  all: 'All Patients',
+  responders: 'Responders',
+  non_responders: 'Non-Responders',
+  high_severity: 'High Baseline Severity',
+  low_severity: 'Low Baseline Severity',
+  high_sensitivity: 'High Drug Sensitivity',
+  low_sensitivity: 'Low Drug Sensitivity',
+};
+
+// Severity is a z-score and sensitivity has median 1, so both split the cohort roughly in half
+const matchesTraitFilter = (traits: PatientLatentTraits, filter: TraitFilter): boolean => {
+  switch (filter) {
+    case 'responders':       return traits.isResponder;
+    case 'non_responders':   return !traits.isResponder;
+    case 'high_severity':    return traits.severity > 0;
+    case 'low_severity':     return traits.severity <= 0;
+    case 'high_sensitivity': return traits.sensitivity > 1;
+    case 'low_sensitivity':  return traits.sensitivity <= 1;
+    case 'all':
+    default:                 return true;
+  }
+};
+
+export const hasLatentTraits = (data: PatientData[]): boolean => data.some(p => p.latent !== undefined);
+
+// Patients without traits (e.g. uploaded data) are only kept by the 'all' filter
+export const filterByTraits = (data: PatientData[], filter: TraitFilter): PatientData[] =>
+  filter === 'all' ? data : data.filter(p => p.latent !== undefined && matchesTraitFilter(p.latent, filter));
+
+export const formatTraits = (traits: PatientLatentTraits): string =>
+  `${traits.isResponder ? 'Responder' : 'Non-responder'} · Sensitivity ${traits.sensitivity.toFixed(2)} · Severity ${traits.severity >= 0 ? '+' : ''}${traits.severity.toFixed(2)}`;
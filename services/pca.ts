@@ -0,0 +1,227 @@
+import { Matrix, symmetricEigen } from './linearAlgebra';
+import { createRng } from './random';
+
+// --- Patient-Level PCA and k-Means ---
+// Principal components of the standardized patient × biomarker matrix (i.e. of the correlation
+// matrix), and k-means clusters of patients in the same standardized space.
+
+export type PcaMissingStrategy = 'impute_mean' | 'complete_cases';
+
+export const PCA_MISSING_LABELS: Record<PcaMissingStrategy, string> = {
+  impute_mean: 'Mean imputation',
+  complete_cases: 'Complete cases',
+};
+
+// Markers or patients missing more than this share of values are left out under mean imputation
+export const MAX_MISSING_FRACTION = 0.5;
+
+export interface StandardizedMatrix {
+  biomarkerIds: string[];
+  rows: number[];   // Index into the source data of each retained patient
+  z: Matrix;        // rows × biomarkerIds, centered and scaled to unit SD
+  imputed: number;  // Values filled with the marker mean
+  droppedBiomarkers: string[];
+}
+
+export interface PcaResult {
+  biomarkerIds: string[];
+  eigenvalues: number[];
+  explained: number[];   // Share of total variance per component
+  loadings: number[][];  // [component][biomarker]: correlation of the marker with the component
+  scores: number[][];    // [row][component]
+}
+
+export interface KMeansResult {
+  k: number;
+  assignments: number[]; // Cluster per row, numbered by decreasing size
+  centers: number[][];
+  sizes: number[];
+  withinSS: number;
+  betweenShare: number;  // Between-cluster share of the total sum of squares
+}
+
+/**
+ * Centers and scales each marker over its observed values. Complete cases keeps only patients
+ * with every retained marker; mean imputation fills gaps with 0 (the marker mean) after
+ * dropping markers and patients missing more than MAX_MISSING_FRACTION.
+ */
+export const standardizeMatrix = (
+  values: Map<string, (number | undefined)[]>,
+  biomarkerIds: string[],
+  strategy: PcaMissingStrategy
+): StandardizedMatrix => {
+  const columns = biomarkerIds.map(id => values.get(id) ?? []);
+  const n = columns[0]?.length ?? 0;
+  const present = (v: number | undefined): v is number => v !== undefined && isFinite(v);
+
+  const keptColumns: number[] = [];
+  const droppedBiomarkers: string[] = [];
+  columns.forEach((col, j) => {
+    const observed = col.filter(present).length;
+    const tooSparse = strategy === 'impute_mean' && observed < (1 - MAX_MISSING_FRACTION) * n;
+    if (observed < 3 || tooSparse) droppedBiomarkers.push(biomarkerIds[j]);
+    else keptColumns.push(j);
+  });
+
+  const rows: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const missing = keptColumns.filter(j => !present(columns[j][i])).length;
+    const keep = strategy === 'complete_cases' ? missing === 0 : missing <= MAX_MISSING_FRACTION * keptColumns.length;
+    if (keep && keptColumns.length > 0) rows.push(i);
+  }
+
+  // Constant markers carry no information and would divide by zero
+  const stats = keptColumns.map(j => {
+    const xs = rows.map(i => columns[j][i]).filter(present);
+    const mean = xs.reduce((a, b) => a + b, 0) / xs.length;
+    const sd = Math.sqrt(xs.reduce((a, b) => a + (b - mean) ** 2, 0) / (xs.length - 1));
+    return { j, mean, sd };
+  });
+  const usable = stats.filter(s => s.sd > 0 && isFinite(s.sd));
+  stats.filter(s => !usable.includes(s)).forEach(s => droppedBiomarkers.push(biomarkerIds[s.j]));
+
+  let imputed = 0;
+  const z = rows.map(i => usable.map(({ j, mean, sd }) => {
+    const v = columns[j][i];
+    if (present(v)) return (v - mean) / sd;
+    imputed++;
+    return 0;
+  }));
+
+  return { biomarkerIds: usable.map(s => biomarkerIds[s.j]), rows, z, imputed, droppedBiomarkers };
+};
+
+/**
+ * PCA of a standardized matrix via the eigen-decomposition of Z'Z / (n − 1). Each component's
+ * sign is fixed so its largest loading is positive, keeping plots stable between recomputations.
+ */
+export const computePca = (matrix: StandardizedMatrix): PcaResult | undefined => {
+  const { z, biomarkerIds } = matrix;
+  const n = z.length;
+  const p = biomarkerIds.length;
+  if (n < 3 || p < 2) return undefined;
+
+  const cov: Matrix = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+  z.forEach(row => {
+    for (let a = 0; a < p; a++) for (let b = a; b < p; b++) cov[a][b] += row[a] * row[b];
+  });
+  for (let a = 0; a < p; a++) for (let b = a; b < p; b++) {
+    cov[a][b] /= n - 1;
+    cov[b][a] = cov[a][b];
+  }
+
+  const { values, vectors } = symmetricEigen(cov);
+  const eigenvalues = values.map(v => Math.max(v, 0));
+  const total = eigenvalues.reduce((a, b) => a + b, 0);
+  const oriented = vectors.map(vec => {
+    const largest = vec.reduce((best, x) => (Math.abs(x) > Math.abs(best) ? x : best), 0);
+    return largest < 0 ? vec.map(x => -x) : vec;
+  });
+
+  return {
+    biomarkerIds,
+    eigenvalues,
+    explained: eigenvalues.map(v => (total > 0 ? v / total : 0)),
+    loadings: oriented.map((vec, c) => vec.map(x => x * Math.sqrt(eigenvalues[c]))),
+    scores: z.map(row => oriented.map(vec => vec.reduce((sum, x, b) => sum + x * row[b], 0))),
+  };
+};
+
+const squaredDistance = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return sum;
+};
+
+// k-means++ seeding: each new center is drawn with probability proportional to D²
+const seedCenters = (points: number[][], k: number, uniform: () => number): number[][] => {
+  const centers = [points[Math.floor(uniform() * points.length)]];
+  const nearest = points.map(p => squaredDistance(p, centers[0]));
+  while (centers.length < k) {
+    const total = nearest.reduce((a, b) => a + b, 0);
+    let target = uniform() * total;
+    let index = 0;
+    while (index < points.length - 1 && target >= nearest[index]) target -= nearest[index++];
+    centers.push(points[index]);
+    points.forEach((p, i) => { nearest[i] = Math.min(nearest[i], squaredDistance(p, points[index])); });
+  }
+  return centers.map(c => [...c]);
+};
+
+/**
+ * Lloyd's k-means with k-means++ starts; the run with the smallest within-cluster sum of
+ * squares wins. Seeded so the same data always gives the same clusters.
+ */
+export const kMeans = (points: number[][], k: number, seed: number, restarts = 5, maxIterations = 100): KMeansResult | undefined => {
+  const n = points.length;
+  const dims = points[0]?.length ?? 0;
+  if (k < 1 || n < k || dims === 0) return undefined;
+  const rng = createRng(seed);
+
+  let best: { assignments: number[]; centers: number[][]; withinSS: number } | undefined;
+  for (let run = 0; run < restarts; run++) {
+    let centers = seedCenters(points, k, rng.uniform);
+    const assignments = new Array<number>(n).fill(-1);
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      let changed = false;
+      points.forEach((p, i) => {
+        let cluster = 0;
+        let distance = Infinity;
+        centers.forEach((c, j) => {
+          const d = squaredDistance(p, c);
+          if (d < distance) { distance = d; cluster = j; }
+        });
+        if (assignments[i] !== cluster) { assignments[i] = cluster; changed = true; }
+      });
+      if (!changed) break;
+      const sums = Array.from({ length: k }, () => new Array<number>(dims).fill(0));
+      const counts = new Array<number>(k).fill(0);
+      points.forEach((p, i) => {
+        counts[assignments[i]]++;
+        p.forEach((x, d) => { sums[assignments[i]][d] += x; });
+      });
+      // An emptied cluster keeps its previous center
+      centers = sums.map((s, j) => (counts[j] > 0 ? s.map(x => x / counts[j]) : centers[j]));
+    }
+    const withinSS = points.reduce((sum, p, i) => sum + squaredDistance(p, centers[assignments[i]]), 0);
+    if (!best || withinSS < best.withinSS) best = { assignments, centers, withinSS };
+  }
+  if (!best) return undefined;
+
+  // Number clusters by decreasing size so labels do not depend on the random start
+  const sizes = new Array<number>(k).fill(0);
+  best.assignments.forEach(c => { sizes[c]++; });
+  const order = sizes.map((_, j) => j).sort((a, b) => sizes[b] - sizes[a] || a - b);
+  const relabel = new Map(order.map((old, idx) => [old, idx]));
+  const mean = new Array<number>(dims).fill(0);
+  points.forEach(p => p.forEach((x, d) => { mean[d] += x / n; }));
+  const totalSS = points.reduce((sum, p) => sum + squaredDistance(p, mean), 0);
+
+  return {
+    k,
+    assignments: best.assignments.map(c => relabel.get(c)!),
+    centers: order.map(j => best!.centers[j]),
+    sizes: order.map(j => sizes[j]),
+    withinSS: best.withinSS,
+    betweenShare: totalSS > 0 ? 1 - best.withinSS / totalSS : 0,
+  };
+};
+
+export interface PatientClusteringResult {
+  matrix: StandardizedMatrix;
+  pca?: PcaResult;
+  clusters?: KMeansResult;
+}
+
+// Standardization, PCA and k-means in one pass; run as a cohort task on large cohorts
+export const clusterPatients = (
+  values: Map<string, (number | undefined)[]>,
+  biomarkerIds: string[],
+  strategy: PcaMissingStrategy,
+  k: number,
+  seed: number
+): PatientClusteringResult => {
+  const matrix = standardizeMatrix(values, biomarkerIds, strategy);
+  const pca = computePca(matrix);
+  return { matrix, pca, clusters: pca ? kMeans(matrix.z, k, seed) : undefined };
+};
@@ -0,0 +1,51 @@
+// --- Seedable Pseudo-Random Number Generation ---
+// Every simulated quantity is drawn from an Rng so a cohort can be regenerated exactly from its seed.
+
+export interface Rng {
+  uniform: () => number; // [0, 1)
+  normal: () => number;  // Standard normal
+}
+
+export const MAX_SEED = 2 ** 31 - 1;
+
+// New random seed for the "roll" action (the only place Math.random is used for simulation)
+export const randomSeed = (): number => Math.floor(Math.random() * MAX_SEED) + 1;
+
+// Mulberry32: small, fast, 32-bit state generator with good statistical quality for simulation
+const mulberry32 = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createRng = (seed: number): Rng => {
+  const uniform = mulberry32(seed);
+
+  // Box-Muller transform for normal distribution
+  const normal = (): number => {
+    let u = 0, v = 0;
+    while (u === 0) u = uniform();
+    while (v === 0) v = uniform();
+    return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+  };
+
+  return { uniform, normal };
+};
+
+// FNV-1a string hash, used to derive stable sub-seeds (e.g. per biomarker or per patient)
+export const hashString = (s: string): number => {
+  let h = 0x811C9DC5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Combines a base seed with a label into an independent, reproducible stream seed
+export const deriveSeed = (seed: number, label: string): number => (hashString(`${seed}:${label}`) % MAX_SEED) + 1;
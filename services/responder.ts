@@ -0,0 +1,218 @@
+import { BiomarkerDef, PatientData, Timepoint } from '../types';
+import { assignBaselineStrata, DEFAULT_BASELINE_STRATA } from './nonparametric';
+import { normalCdf, normalQuantile } from './statistics';
+
+// --- Responder Analysis ---
+// Classifies each patient at each visit against a threshold rule and compares response rates
+// between arms. Improvement is direction aware: a reduction for lower-is-better markers.
+
+export type ResponderThresholdType = 'percent' | 'absolute';
+
+export interface ResponderRule {
+  type: ResponderThresholdType;
+  threshold: number;             // Minimum improvement, in % or in the biomarker's unit
+  consecutiveVisits: number;     // 1 = single visit; n = threshold met at this and the n − 1 preceding visits
+  missingAsNonResponder: boolean; // Non-responder imputation for missed visits
+}
+
+export const DEFAULT_RESPONDER_RULE: ResponderRule = {
+  type: 'percent',
+  threshold: 30,
+  consecutiveVisits: 1,
+  missingAsNonResponder: true,
+};
+
+export const describeResponderRule = (rule: ResponderRule, biomarker: BiomarkerDef): string => {
+  const amount = rule.type === 'percent' ? `${rule.threshold}%` : `${rule.threshold} ${biomarker.unit}`;
+  const change = biomarker.direction === 'lower_is_better' ? 'reduction' : 'increase';
+  const confirmed = rule.consecutiveVisits > 1 ? `, sustained over ${rule.consecutiveVisits} consecutive visits` : '';
+  const missing = rule.missingAsNonResponder ? '; missing = non-responder' : '; observed cases';
+  return `≥${amount} ${change}${confirmed}${missing}`;
+};
+
+export interface ResponderRate {
+  arm: string;
+  responders: number;
+  n: number;
+  rate: number; // Proportion
+}
+
+export interface ResponderContrast {
+  arm: string;
+  riskDifference: number; // Proportion, vs the reference arm
+  rdLower: number;
+  rdUpper: number;
+  oddsRatio: number;
+  orLower: number;
+  orUpper: number;
+  chiSquarePValue?: number; // Pearson, no continuity correction
+  cmhPValue?: number;       // Cochran-Mantel-Haenszel, stratified by baseline
+}
+
+export interface ResponderVisitResult {
+  visit: Timepoint;
+  rates: ResponderRate[];
+  contrasts: ResponderContrast[];
+}
+
+// --- Classification ---
+
+interface PatientResponse {
+  arm: string;
+  baseline: number;
+  status: (boolean | undefined)[]; // Per follow-up visit; undefined = not evaluable
+}
+
+/**
+ * Per-patient response status at each follow-up visit. Patients without a baseline value are
+ * not evaluable at all. A sustained rule needs the threshold met at every visit in the window;
+ * a failed visit anywhere in it makes the patient a non-responder, a missed one not evaluable.
+ */
+export const classifyResponders = (
+  data: PatientData[],
+  biomarker: BiomarkerDef,
+  baselineVisit: Timepoint,
+  visits: Timepoint[],
+  rule: ResponderRule
+): PatientResponse[] => {
+  const sign = biomarker.direction === 'lower_is_better' ? -1 : 1;
+  const span = Math.max(1, Math.round(rule.consecutiveVisits));
+  const result: PatientResponse[] = [];
+
+  data.forEach(p => {
+    let baseline: number | undefined;
+    const meets = new Map<Timepoint, boolean>();
+    p.measurements.forEach(m => {
+      if (m.biomarkerId !== biomarker.id) return;
+      if (m.timepoint === baselineVisit) baseline = m.value;
+      const change = rule.type === 'percent' ? m.percentChange : m.changeFromBaseline;
+      if (change !== undefined) meets.set(m.timepoint, sign * change >= rule.threshold);
+    });
+    if (baseline === undefined) return;
+
+    const status = visits.map((_, t) => {
+      if (t + 1 < span) return rule.missingAsNonResponder ? false : undefined;
+      let evaluable = true;
+      for (let k = t - span + 1; k <= t; k++) {
+        const met = meets.get(visits[k]);
+        if (met === false) return false;
+        if (met === undefined) evaluable = false;
+      }
+      if (evaluable) return true;
+      return rule.missingAsNonResponder ? false : undefined;
+    });
+    result.push({ arm: p.arm, baseline, status });
+  });
+  return result;
+};
+
+// --- 2 × 2 Comparisons ---
+
+interface TwoByTwo {
+  a: number; // Treated responders
+  b: number; // Treated non-responders
+  c: number; // Control responders
+  d: number; // Control non-responders
+}
+
+const twoSidedFromChiSquare1 = (chi2: number): number => 2 * (1 - normalCdf(Math.sqrt(chi2)));
+
+const pearsonChiSquareP = ({ a, b, c, d }: TwoByTwo): number | undefined => {
+  const n = a + b + c + d;
+  const denom = (a + b) * (c + d) * (a + c) * (b + d);
+  if (denom === 0) return undefined;
+  return twoSidedFromChiSquare1((n * (a * d - b * c) ** 2) / denom);
+};
+
+const cmhP = (tables: TwoByTwo[]): number | undefined => {
+  let deviation = 0;
+  let variance = 0;
+  tables.forEach(({ a, b, c, d }) => {
+    const n = a + b + c + d;
+    if (n < 2) return;
+    deviation += a - ((a + b) * (a + c)) / n;
+    variance += ((a + b) * (c + d) * (a + c) * (b + d)) / (n * n * (n - 1));
+  });
+  if (variance <= 0) return undefined;
+  return twoSidedFromChiSquare1((deviation * deviation) / variance);
+};
+
+/**
+ * Response rates per arm and visit, with the risk difference (Wald CI), odds ratio (Woolf
+ * logit CI, with 0.5 added to every cell when one is empty) and chi-square / CMH tests of
+ * each arm against the reference arm.
+ */
+export const analyzeResponders = (
+  data: PatientData[],
+  biomarker: BiomarkerDef,
+  baselineVisit: Timepoint,
+  visits: Timepoint[],
+  armOrder: string[],
+  referenceArm: string,
+  rule: ResponderRule,
+  level: number = 0.95
+): ResponderVisitResult[] => {
+  const patients = classifyResponders(data, biomarker, baselineVisit, visits, rule);
+  const strata = assignBaselineStrata(patients.map(p => p.baseline), DEFAULT_BASELINE_STRATA);
+  const z = normalQuantile(1 - (1 - level) / 2);
+
+  return visits.map((visit, t) => {
+    // counts[arm][stratum] = [responders, evaluable]
+    const counts = new Map<string, [number, number][]>();
+    patients.forEach((p, i) => {
+      const status = p.status[t];
+      if (status === undefined) return;
+      if (!counts.has(p.arm)) counts.set(p.arm, Array.from({ length: DEFAULT_BASELINE_STRATA }, () => [0, 0]));
+      const cell = counts.get(p.arm)![strata[i]];
+      if (status) cell[0]++;
+      cell[1]++;
+    });
+    const total = (arm: string): [number, number] =>
+      (counts.get(arm) ?? []).reduce<[number, number]>((acc, [r, n]) => [acc[0] + r, acc[1] + n], [0, 0]);
+
+    const rates = armOrder.filter(arm => counts.has(arm)).map(arm => {
+      const [responders, n] = total(arm);
+      return { arm, responders, n, rate: n > 0 ? responders / n : 0 };
+    });
+
+    const [refResponders, refN] = total(referenceArm);
+    const contrasts: ResponderContrast[] = [];
+    if (refN > 0) {
+      armOrder.forEach(arm => {
+        if (arm === referenceArm) return;
+        const [responders, n] = total(arm);
+        if (n === 0) return;
+        const table: TwoByTwo = { a: responders, b: n - responders, c: refResponders, d: refN - refResponders };
+
+        const p1 = responders / n;
+        const p0 = refResponders / refN;
+        const rdSe = Math.sqrt((p1 * (1 - p1)) / n + (p0 * (1 - p0)) / refN);
+
+        const zeroCell = table.a === 0 || table.b === 0 || table.c === 0 || table.d === 0;
+        const [a, b, c, d] = [table.a, table.b, table.c, table.d].map(v => v + (zeroCell ? 0.5 : 0));
+        const logOr = Math.log((a * d) / (b * c));
+        const logOrSe = Math.sqrt(1 / a + 1 / b + 1 / c + 1 / d);
+
+        const stratified = Array.from({ length: DEFAULT_BASELINE_STRATA }, (_, s) => {
+          const [rt, nt] = counts.get(arm)![s];
+          const [rc, nc] = counts.get(referenceArm)![s];
+          return { a: rt, b: nt - rt, c: rc, d: nc - rc };
+        });
+
+        contrasts.push({
+          arm,
+          riskDifference: p1 - p0,
+          rdLower: p1 - p0 - z * rdSe,
+          rdUpper: p1 - p0 + z * rdSe,
+          oddsRatio: Math.exp(logOr),
+          orLower: Math.exp(logOr - z * logOrSe),
+          orUpper: Math.exp(logOr + z * logOrSe),
+          chiSquarePValue: pearsonChiSquareP(table),
+          cmhPValue: cmhP(stratified),
+        });
+      });
+    }
+
+    return { visit, rates, contrasts };
+  });
+};
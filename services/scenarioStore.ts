@@ -0,0 +1,36 @@
+import { SCENARIO_PRESETS, SimulationConfig } from './simulation';
+
+// --- Saved Scenarios ---
+// User-defined scenarios (including custom time profiles) are kept in localStorage next to
+// the built-in presets. Saved configs are merged over a default preset on load so scenarios
+// saved before a config field existed still produce a complete config.
+
+const STORAGE_KEY = 'biotrial_saved_scenarios';
+
+export const loadSavedScenarios = (): Record<string, SimulationConfig> => {
+  try {
+    const str = localStorage.getItem(STORAGE_KEY);
+    const saved: Record<string, Partial<SimulationConfig>> = str ? JSON.parse(str) : {};
+    const result: Record<string, SimulationConfig> = {};
+    Object.entries(saved).forEach(([name, config]) => {
+      result[name] = { ...SCENARIO_PRESETS['Standard Efficacy'], ...config, scenarioName: name };
+    });
+    return result;
+  } catch {
+    return {};
+  }
+};
+
+export const saveScenario = (name: string, config: SimulationConfig): Record<string, SimulationConfig> => {
+  const saved = loadSavedScenarios();
+  saved[name] = { ...config, scenarioName: name };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  return saved;
+};
+
+export const deleteScenario = (name: string): Record<string, SimulationConfig> => {
+  const saved = loadSavedScenarios();
+  delete saved[name];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  return saved;
+};
@@ -1,111 +1,230 @@
 
-import { BIOMARKERS, TIMEPOINT_ORDER } from '../constants';
-import { Arm, BiomarkerDef, Measurement, PatientData, Timepoint } from '../types';
+import { BIOMARKERS, DEFAULT_ARMS, DEFAULT_VISIT_SCHEDULE } from '../constants';
+import { ArmDef, BiomarkerDef, CovariateValue, Measurement, PatientData, PatientLatentTraits, VisitDef } from '../types';
+import { inferArmDef } from './studyArms';
+import { getBaselineVisit, getFollowUpVisits } from './visitSchedule';
+import { createRng, deriveSeed, Rng } from './random';
+import { buildCorrelationMatrix, correlationFactor, CorrelationConfig, DEFAULT_CORRELATION, drawCorrelatedNormals } from './multivariate';
+import { CustomTimeProfile, DEFAULT_CUSTOM_PROFILE, getEffectFactorAtDay, TimeProfileType } from './timeProfile';
+import { getDistribution, isMultiplicative, variateFromNormal } from './distributions';
+import { censorValue } from './censoring';
+import { DEFAULT_DOSE_RESPONSE, DoseResponseConfig, getDoseFactor } from './doseResponse';
+import { applyMissingData, drawDropoutVisit, MissingDataConfig, NO_MISSING_DATA } from './missingData';
 
 // --- Configuration Types ---
 
-export type TimeProfileType = 'linear' | 'immediate' | 'delayed' | 'biphasic' | 'peak_drop';
-
 export interface SimulationConfig {
   scenarioName: string;
+  patientCount: number;        // Cohort size, randomized round-robin across arms
   drugEffectSize: number;      // -1.0 to 1.0 (Negative = reduction, Positive = increase)
   placeboEffectSize: number;   // -1.0 to 1.0
   variability: number;         // 0.0 to 2.0 (Coefficient of Variation / Noise factor)
   responderRate: number;       // 0.0 to 1.0 (Percentage of patients who respond to drug)
   timeProfile: TimeProfileType;
+  customTimeProfile: CustomTimeProfile; // Used when timeProfile is 'custom'
   drift: number;               // 0.0 to 0.5 (Random longitudinal drift)
+  arms: ArmDef[];              // Study arms patients are randomized across (round-robin)
+  doseResponse: DoseResponseConfig; // Shapes each dosed arm's share of the top-dose drug effect
+  visits: VisitDef[];          // Visit schedule; follow-up visits are generated at their nominal day
+  seed: number;                // PRNG seed; the same config and seed reproduce an identical cohort
+  correlation: CorrelationConfig; // Between-biomarker correlation of baselines, responses and visit noise
+  missingData: MissingDataConfig; // Dropout (MCAR/MAR/MNAR) and per-sample failure
+  applyAssayLimits: boolean;   // Censor simulated values outside each biomarker's LLOQ/ULOQ
+  simulateCovariates: boolean; // Draw the standard covariates (age, sex, BMI, region, site, stratum)
+}
+
+// Standard normal draws for one patient and biomarker. Drawn jointly across biomarkers
+// (multivariate normal) so that baselines, treatment responses and visit-to-visit noise
+// co-vary between related markers. Oriented on a "severity" scale: positive means worse.
+export interface BiomarkerLatentDraws {
+  baseline: number;
+  response: number;   // Positive = stronger than average treatment response
+  noise: number[];    // One per follow-up visit
 }
 
+export const DEFAULT_SEED = 20240601;
+export const DEFAULT_PATIENT_COUNT = 600;
+// Generation runs in a worker, so cohorts of this size stay responsive
+export const MAX_PATIENT_COUNT = 50000;
+
+// Between-patient spread of drug sensitivity (SD of log-sensitivity)
+const SENSITIVITY_LOG_SD = 0.25;
+// Share of each biomarker's baseline deviation explained by the patient's overall severity
+const SEVERITY_LOADING = 0.3;
+// Floor on the fold-change at full effect for multiplicative (log-normal / gamma) markers
+const MIN_EFFECT_RATIO = 0.05;
+
 // --- Presets ---
 
 export const SCENARIO_PRESETS: Record<string, SimulationConfig> = {
   'Standard Efficacy': {
     scenarioName: 'Standard Efficacy',
+    patientCount: DEFAULT_PATIENT_COUNT,
     drugEffectSize: -0.25, // 25% improvement
     placeboEffectSize: -0.02,
     variability: 0.15,
     responderRate: 1.0,
     timeProfile: 'linear',
-    drift: 0.02
+    customTimeProfile: DEFAULT_CUSTOM_PROFILE,
+    drift: 0.02,
+    arms: DEFAULT_ARMS,
+    doseResponse: DEFAULT_DOSE_RESPONSE,
+    visits: DEFAULT_VISIT_SCHEDULE,
+    seed: DEFAULT_SEED,
+    correlation: DEFAULT_CORRELATION,
+    missingData: NO_MISSING_DATA,
+    applyAssayLimits: false,
+    simulateCovariates: true
   },
   'High Placebo': {
     scenarioName: 'High Placebo Response',
+    patientCount: DEFAULT_PATIENT_COUNT,
     drugEffectSize: -0.25,
     placeboEffectSize: -0.15, // High placebo
     variability: 0.20,
     responderRate: 1.0,
     timeProfile: 'linear',
-    drift: 0.05
+    customTimeProfile: DEFAULT_CUSTOM_PROFILE,
+    drift: 0.05,
+    arms: DEFAULT_ARMS,
+    doseResponse: DEFAULT_DOSE_RESPONSE,
+    visits: DEFAULT_VISIT_SCHEDULE,
+    seed: DEFAULT_SEED,
+    correlation: DEFAULT_CORRELATION,
+    missingData: NO_MISSING_DATA,
+    applyAssayLimits: false,
+    simulateCovariates: true
   },
   'Mixed Results': {
     scenarioName: 'Mixed Results',
+    patientCount: DEFAULT_PATIENT_COUNT,
     drugEffectSize: -0.20,
     placeboEffectSize: -0.01,
     variability: 0.40, // High noise
     responderRate: 0.60, // Only 60% respond
     timeProfile: 'delayed',
-    drift: 0.05
+    customTimeProfile: DEFAULT_CUSTOM_PROFILE,
+    drift: 0.05,
+    arms: DEFAULT_ARMS,
+    doseResponse: DEFAULT_DOSE_RESPONSE,
+    visits: DEFAULT_VISIT_SCHEDULE,
+    seed: DEFAULT_SEED,
+    correlation: DEFAULT_CORRELATION,
+    missingData: NO_MISSING_DATA,
+    applyAssayLimits: false,
+    simulateCovariates: true
   },
   'Failed Trial': {
     scenarioName: 'Failed Trial',
+    patientCount: DEFAULT_PATIENT_COUNT,
     drugEffectSize: -0.03,
     placeboEffectSize: -0.03,
     variability: 0.10,
     responderRate: 0.0,
     timeProfile: 'linear',
-    drift: 0.02
+    customTimeProfile: DEFAULT_CUSTOM_PROFILE,
+    drift: 0.02,
+    arms: DEFAULT_ARMS,
+    doseResponse: DEFAULT_DOSE_RESPONSE,
+    visits: DEFAULT_VISIT_SCHEDULE,
+    seed: DEFAULT_SEED,
+    correlation: DEFAULT_CORRELATION,
+    missingData: NO_MISSING_DATA,
+    applyAssayLimits: false,
+    simulateCovariates: true
   },
   'Biphasic': {
     scenarioName: 'Biphasic Response',
+    patientCount: DEFAULT_PATIENT_COUNT,
     drugEffectSize: -0.30,
     placeboEffectSize: -0.02,
     variability: 0.15,
     responderRate: 0.9,
     timeProfile: 'biphasic',
-    drift: 0.02
+    customTimeProfile: DEFAULT_CUSTOM_PROFILE,
+    drift: 0.02,
+    arms: DEFAULT_ARMS,
+    doseResponse: DEFAULT_DOSE_RESPONSE,
+    visits: DEFAULT_VISIT_SCHEDULE,
+    seed: DEFAULT_SEED,
+    correlation: DEFAULT_CORRELATION,
+    missingData: NO_MISSING_DATA,
+    applyAssayLimits: false,
+    simulateCovariates: true
   }
 };
 
 // --- Helpers ---
 
-// Box-Muller transform for normal distribution
-function randn_bm(): number {
-  let u = 0, v = 0;
-  while (u === 0) u = Math.random();
-  while (v === 0) v = Math.random();
-  return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
-}
+// Draws the patient-level traits shared by all of a patient's biomarkers
+export const drawPatientTraits = (rng: Rng, config: SimulationConfig): PatientLatentTraits => ({
+  isResponder: rng.uniform() < config.responderRate,
+  sensitivity: Math.exp(SENSITIVITY_LOG_SD * rng.normal()),
+  severity: rng.normal(),
+});
 
-const getTimeProfileMultipliers = (type: TimeProfileType): [number, number, number] => {
-  switch (type) {
-    case 'immediate': return [0.8, 0.9, 1.0];
-    case 'delayed':   return [0.05, 0.4, 1.0];
-    case 'biphasic':  return [0.7, 1.0, 0.2]; // Strong mid-term, then washout
-    case 'peak_drop': return [1.0, 0.5, 0.1]; // Peak early then drop
-    case 'linear':    
-    default:          return [0.33, 0.66, 1.0];
-  }
+// Regions with their enrollment shares and sites (patients are spread evenly over a region's sites)
+const SIMULATED_REGIONS: { region: string; share: number; sites: string[] }[] = [
+  { region: 'North America', share: 0.4, sites: ['101', '102', '103'] },
+  { region: 'Europe', share: 0.4, sites: ['201', '202', '203'] },
+  { region: 'Asia-Pacific', share: 0.2, sites: ['301', '302'] },
+];
+
+/**
+ * Standard covariates for a simulated patient. Demographics are independent of the outcome, so
+ * simulated subgroups share the overall effect; the randomization stratum records the patient's
+ * latent baseline severity, as a screening severity score would.
+ */
+export const drawPatientCovariates = (rng: Rng, traits: PatientLatentTraits): Record<string, CovariateValue> => {
+  const age = Math.round(Math.min(85, Math.max(18, 55 + 12 * rng.normal())));
+  const sex = rng.uniform() < 0.5 ? 'Female' : 'Male';
+  const bmi = Math.round(10 * Math.min(50, Math.max(17, 28 + 5 * rng.normal()))) / 10;
+  const u = rng.uniform();
+  let cumulative = 0;
+  const { region, sites } = SIMULATED_REGIONS.find(r => (cumulative += r.share) > u) ?? SIMULATED_REGIONS[0];
+  const site = sites[Math.floor(rng.uniform() * sites.length)];
+  const stratum = traits.severity > 0 ? 'High severity' : 'Low severity';
+  return { age, sex, bmi, region, site, stratum };
 };
 
 // --- Generators ---
 
 export const generateMeasurementsForBiomarker = (
   biomarker: BiomarkerDef,
-  arm: Arm,
+  arm: ArmDef,
   config: SimulationConfig,
-  isResponder: boolean
+  traits: PatientLatentTraits,
+  rng: Rng,
+  latent?: BiomarkerLatentDraws
 ): Measurement[] => {
   const measurements: Measurement[] = [];
+  const baselineVisit = getBaselineVisit(config.visits);
+  const followUpVisits = getFollowUpVisits(config.visits);
+
+  // Without joint draws (e.g. a single added biomarker) the latent values are independent
+  const draws: BiomarkerLatentDraws = latent ?? {
+    baseline: rng.normal(),
+    response: rng.normal(),
+    noise: followUpVisits.map(() => rng.normal()),
+  };
+  // Severity is "higher is worse"; flip for markers where higher values are better
+  const severitySign = biomarker.direction === 'lower_is_better' ? 1 : -1;
   
   // 1. Establish Baseline
   const baseMean = biomarker.baselineMean || 10;
-  // Individual patient baseline variability
-  const patientBase = baseMean + (randn_bm() * (baseMean * config.variability)); 
+  // Individual patient baseline variability: a shared severity component plus the marker-specific draw
+  const baselineZ = SEVERITY_LOADING * traits.severity + Math.sqrt(1 - SEVERITY_LOADING ** 2) * draws.baseline;
+  const family = getDistribution(biomarker);
+  const multiplicative = isMultiplicative(family);
+  // Floored before use, so follow-up values and changes are relative to the stored baseline
+  const patientBase = Math.max(0.01, multiplicative
+    ? variateFromNormal(family, severitySign * baselineZ, baseMean, config.variability)
+    : baseMean + (severitySign * baselineZ * (baseMean * config.variability)));
   
   measurements.push({
     biomarkerId: biomarker.id,
-    timepoint: Timepoint.BASELINE,
-    value: Math.max(0.01, patientBase),
+    timepoint: baselineVisit.label,
+    value: patientBase,
     changeFromBaseline: 0,
     percentChange: 0
   });
@@ -132,23 +251,20 @@ export const generateMeasurementsForBiomarker = (
   // If the biomarker is "Higher is better" (e.g. Adiponectin), the preset should have positive effect.
   // However, to make the UI sliders easy (Improvement vs Worsening), let's calculate relative to direction.
   
-  const isActive = arm === Arm.DRUG_1MG || arm === Arm.DRUG_2MG;
-  
-  if (arm === Arm.PLACEBO) {
+  if (arm.isControl) {
     // Placebo effect is applied directly
     // Adjust placebo direction to match biomarker direction roughly or just use raw config
     // Usually placebo effect is in the direction of "improvement" (placebo response)
     const placeboDir = biomarker.direction === 'lower_is_better' ? -1 : 1;
     targetEffect = Math.abs(config.placeboEffectSize) * placeboDir; 
-  } else if (isActive) {
-      if (isResponder) {
-          // Dose response: 2mg gets full effect, 1mg gets 70% of effect
-          const doseFactor = arm === Arm.DRUG_2MG ? 1.0 : 0.7;
+  } else {
+      if (traits.isResponder) {
+          const doseFactor = getDoseFactor(arm, config.arms, config.doseResponse);
           
           // Apply directionality automatically based on biomarker definition
           // If we say "30% Effect" (0.3), it implies Improvement.
           const improvementDir = biomarker.direction === 'lower_is_better' ? -1 : 1;
-          targetEffect = Math.abs(config.drugEffectSize) * improvementDir * doseFactor;
+          targetEffect = Math.abs(config.drugEffectSize) * improvementDir * doseFactor * traits.sensitivity;
       } else {
           // Non-responder behaves like placebo
           const placeboDir = biomarker.direction === 'lower_is_better' ? -1 : 1;
@@ -156,64 +272,110 @@ export const generateMeasurementsForBiomarker = (
       }
   }
 
-  // 3. Generate Follow-up Points
-  const profileMultipliers = getTimeProfileMultipliers(config.timeProfile);
-  const timepoints = [Timepoint.WEEK_4, Timepoint.WEEK_12, Timepoint.WEEK_24];
+  // 3. Generate Follow-up Points (profile is evaluated at each visit's nominal day)
+  const startDay = baselineVisit.day ?? 1;
+  const endDay = followUpVisits.length ? followUpVisits[followUpVisits.length - 1].day! : startDay;
 
-  timepoints.forEach((tp, idx) => {
-    const timeFactor = profileMultipliers[idx];
-    
-    // Calculate deterministic trend component
-    const trendDelta = patientBase * targetEffect * timeFactor;
+  followUpVisits.forEach((visit, idx) => {
+    const timeFactor = getEffectFactorAtDay(config.timeProfile, config.customTimeProfile, visit.day!, startDay, endDay);
     
-    // Add randomness (Intra-patient variability + Drift)
-    const noiseSD = patientBase * (config.variability * 0.4); // Intra-patient noise is lower than inter-patient
-    const randomNoise = randn_bm() * noiseSD;
-    const drift = randn_bm() * (patientBase * config.drift * (idx + 1)); // Drift increases with time
+    // Calculate trend component; individual response magnitude varies around the arm target
+    const responseScale = 1 + config.variability * draws.response;
+    let val: number;
+
+    if (multiplicative) {
+      // Effects, noise and drift act as fold-changes, so values stay positive without clipping
+      const effectRatio = Math.pow(Math.max(MIN_EFFECT_RATIO, 1 + targetEffect), timeFactor * responseScale);
+      const noiseRatio = variateFromNormal(family, severitySign * draws.noise[idx], 1, config.variability * 0.4);
+      const driftRatio = Math.exp(rng.normal() * config.drift * (idx + 1));
+      val = patientBase * effectRatio * noiseRatio * driftRatio;
+    } else {
+      const trendDelta = patientBase * targetEffect * timeFactor * responseScale;
+      
+      // Add randomness (Intra-patient variability + Drift)
+      const noiseSD = patientBase * (config.variability * 0.4); // Intra-patient noise is lower than inter-patient
+      const randomNoise = severitySign * draws.noise[idx] * noiseSD;
+      const drift = rng.normal() * (patientBase * config.drift * (idx + 1)); // Drift increases with time
 
-    let val = patientBase + trendDelta + randomNoise + drift;
-    val = Math.max(0.01, val); // Clip negative
+      val = patientBase + trendDelta + randomNoise + drift;
+      val = Math.max(0.01, val); // Clip negative
+    }
 
     measurements.push({
       biomarkerId: biomarker.id,
-      timepoint: tp,
+      timepoint: visit.label,
       value: val,
       changeFromBaseline: val - patientBase,
       percentChange: ((val - patientBase) / patientBase) * 100
     });
   });
 
+  // Report values outside the assay range the way a lab would: at the limit, flagged as censored
+  if (config.applyAssayLimits) {
+    return measurements.map(m => {
+      const { value, censored } = censorValue(m.value, biomarker);
+      return censored ? { ...m, value, censored } : m;
+    });
+  }
+
   return measurements;
 };
 
 export const generateSimulatedData = (
-  patientCount: number = 600, 
+  patientCount: number = DEFAULT_PATIENT_COUNT, 
   biomarkers: BiomarkerDef[] = BIOMARKERS,
-  config: SimulationConfig = SCENARIO_PRESETS['Standard Efficacy']
+  config: SimulationConfig = SCENARIO_PRESETS['Standard Efficacy'],
+  onProgress?: (completed: number, total: number) => void
 ): PatientData[] => {
   const patients: PatientData[] = [];
-  const arms = [Arm.PLACEBO, Arm.DRUG_1MG, Arm.DRUG_2MG];
+  const arms = [...config.arms].sort((a, b) => a.order - b.order);
+  const rng = createRng(config.seed);
+  const { L } = correlationFactor(buildCorrelationMatrix(biomarkers, config.correlation));
+  const followUpVisits = getFollowUpVisits(config.visits);
+  const followUpCount = followUpVisits.length;
+  // Separate stream so switching missingness on or off leaves the underlying values unchanged
+  const missingRng = createRng(deriveSeed(config.seed, 'missing-data'));
+  const covariateRng = createRng(deriveSeed(config.seed, 'covariates'));
+  const idWidth = Math.max(4, String(patientCount).length);
 
   for (let i = 0; i < patientCount; i++) {
-    const arm = arms[i % 3];
-    const patientId = `PT-${(i + 1).toString().padStart(4, '0')}`;
+    const arm = arms[i % arms.length];
+    const patientId = `PT-${(i + 1).toString().padStart(idWidth, '0')}`;
     
-    // Determine Responder Status (Patient Level)
+    // Determine Responder Status, sensitivity and severity (Patient Level)
     // Placebo is always "responder" to placebo effect. Drug arms depend on rate.
-    const isResponder = Math.random() < config.responderRate;
+    const traits = drawPatientTraits(rng, config);
+
+    // Joint draws across the biomarker panel
+    const baselineZ = drawCorrelatedNormals(L, rng);
+    const responseZ = drawCorrelatedNormals(L, rng);
+    const noiseZ = Array.from({ length: followUpCount }, () => drawCorrelatedNormals(L, rng));
 
     let measurements: Measurement[] = [];
-    
-    biomarkers.forEach(bio => {
-      const bioMeasurements = generateMeasurementsForBiomarker(bio, arm, config, isResponder);
-      measurements = [...measurements, ...bioMeasurements];
+
+    biomarkers.forEach((bio, b) => {
+      const latent: BiomarkerLatentDraws = {
+        baseline: baselineZ[b],
+        response: responseZ[b],
+        noise: noiseZ.map(z => z[b]),
+      };
+      const bioMeasurements = generateMeasurementsForBiomarker(bio, arm, config, traits, rng, latent);
+      for (const m of bioMeasurements) measurements.push(m);
     });
 
+    // Dropout is decided on the complete data, then removes the unobserved visits
+    const discontinuedAt = drawDropoutVisit(measurements, traits, arm, followUpVisits, biomarkers, config.missingData, missingRng);
+    measurements = applyMissingData(measurements, followUpVisits, discontinuedAt, config.missingData.sampleFailureRate, missingRng);
+
     patients.push({
       patientId,
-      arm,
-      measurements
+      arm: arm.name,
+      measurements,
+      covariates: config.simulateCovariates ? drawPatientCovariates(covariateRng, traits) : undefined,
+      latent: traits,
+      discontinuedAt
     });
+    onProgress?.(i + 1, patientCount);
   }
 
   return patients;
@@ -222,23 +384,35 @@ export const generateSimulatedData = (
 export const augmentDataWithBiomarker = (
   currentData: PatientData[], 
   newBiomarker: BiomarkerDef,
-  config: SimulationConfig = SCENARIO_PRESETS['Standard Efficacy']
+  config: SimulationConfig = SCENARIO_PRESETS['Standard Efficacy'],
+  onProgress?: (completed: number, total: number) => void
 ): PatientData[] => {
-  return currentData.map(patient => {
-    // We can't recover the exact "isResponder" state from previous generation easily without storing it,
-    // so we re-roll probability. In a real app, patient metadata would store "responderStatus".
-    // For prototype, we assume the same rate probability.
-    const isResponder = Math.random() < config.responderRate;
-    
+  const knownArms = new Map(config.arms.map(a => [a.name, a]));
+  // Independent stream per added biomarker so re-adding it under the same seed is reproducible
+  const rng = createRng(deriveSeed(config.seed, newBiomarker.id));
+  const missingRng = createRng(deriveSeed(config.seed, `${newBiomarker.id}:missing-data`));
+  const followUpVisits = getFollowUpVisits(config.visits);
+
+  return currentData.map((patient, i) => {
+    // Reuse the stored traits so a responder stays a responder on the new marker.
+    // Uploaded patients have none; draw them once and keep them for later additions.
+    const traits = patient.latent ?? drawPatientTraits(rng, config);
+
+    const arm = knownArms.get(patient.arm) || inferArmDef(patient.arm);
     const newMeasurements = generateMeasurementsForBiomarker(
       newBiomarker,
-      patient.arm,
+      arm,
       config,
-      isResponder
+      traits,
+      rng
     );
+    // Patients who discontinued stay missing from their dropout visit onwards
+    const observed = applyMissingData(newMeasurements, followUpVisits, patient.discontinuedAt, config.missingData.sampleFailureRate, missingRng);
+    onProgress?.(i + 1, currentData.length);
     return {
       ...patient,
-      measurements: [...patient.measurements, ...newMeasurements]
+      measurements: [...patient.measurements, ...observed],
+      latent: traits
     };
   });
 };
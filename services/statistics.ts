@@ -0,0 +1,260 @@
+// --- Distribution Functions ---
+// Shared numerical routines for the dashboard analyses (no external stats dependency).
+
+export const normalPdf = (z: number): number => Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+
+// Standard normal CDF via the complementary error function (Numerical Recipes erfc, |error| < 1.2e-7)
+export const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.5 * x);
+  const erfc = t * Math.exp(-x * x - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277)))))))));
+  return z >= 0 ? 1 - erfc / 2 : erfc / 2;
+};
+
+// Natural log of the gamma function (Lanczos approximation, g = 7)
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+export const logGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let a = LANCZOS[0];
+  const t = z + 7.5;
+  for (let i = 1; i < 9; i++) a += LANCZOS[i] / (z + i);
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(a);
+};
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+const betaContinuedFraction = (a: number, b: number, x: number): number => {
+  const TINY = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d; if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c; if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d; if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c; if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return h;
+};
+
+// Regularized incomplete beta function I_x(a, b)
+export const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+};
+
+// Student t CDF; df may be fractional (Welch-Satterthwaite)
+export const studentTCdf = (t: number, df: number): number => {
+  if (!isFinite(df) || df > 1e6) return normalCdf(t);
+  const tail = 0.5 * incompleteBeta(df / (df + t * t), df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+};
+
+// F distribution CDF with d1 and d2 degrees of freedom
+export const fDistributionCdf = (f: number, d1: number, d2: number): number =>
+  f <= 0 ? 0 : incompleteBeta((d1 * f) / (d1 * f + d2), d1 / 2, d2 / 2);
+
+// Regularized incomplete gamma tails P(a, x) and Q(a, x) = 1 - P: series below a + 1, continued
+// fraction above (Numerical Recipes), so the smaller tail is always computed directly
+const incompleteGammaTails = (x: number, a: number): { lower: number; upper: number } => {
+  if (x <= 0) return { lower: 0, upper: 1 };
+  const front = Math.exp(a * Math.log(x) - x - logGamma(a));
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n <= 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-14) break;
+    }
+    const lower = Math.min(1, front * sum);
+    return { lower, upper: 1 - lower };
+  }
+  const TINY = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i <= 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b; if (Math.abs(d) < TINY) d = TINY;
+    c = b + an / c; if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  const upper = Math.min(1, front * h);
+  return { lower: 1 - upper, upper };
+};
+
+/**
+ * Quantile of the standard gamma distribution (scale 1) with the given shape: the x with
+ * P(X <= x) = p, or P(X > x) = p when `upperTail` is set (keeps precision for p near 1).
+ * Newton iterations on log x from a Wilson-Hilferty start, so the result is always positive.
+ */
+export const gammaQuantile = (p: number, shape: number, upperTail = false): number => {
+  if (p <= 0) return upperTail ? Infinity : 0;
+  if (p >= 1) return upperTail ? 0 : Infinity;
+  const z = upperTail ? -normalQuantile(p) : normalQuantile(p);
+  const c = 1 / (9 * shape);
+  const wh = 1 - c + z * Math.sqrt(c);
+  // Wilson-Hilferty fails in the far left tail; there P(a, x) ≈ x^a / Γ(a + 1)
+  let logX = wh > 0.1 ? Math.log(shape) + 3 * Math.log(wh) : (Math.log(upperTail ? 1 - p : p) + logGamma(shape + 1)) / shape;
+  for (let iter = 0; iter < 100; iter++) {
+    const x = Math.exp(logX);
+    const tails = incompleteGammaTails(x, shape);
+    const diff = upperTail ? p - tails.upper : tails.lower - p;
+    // d/d(log x) of P(a, x) is the density times x
+    const slope = Math.exp(shape * logX - x - logGamma(shape));
+    if (!(slope > 0)) break;
+    const step = Math.max(-2, Math.min(2, diff / slope));
+    logX -= step;
+    if (Math.abs(step) < 1e-12) break;
+  }
+  return Math.exp(logX);
+};
+
+// Inverse standard normal CDF (Acklam's rational approximation, relative error < 1.2e-9)
+export const normalQuantile = (p: number): number => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) return -normalQuantile(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+// Inverse Student t CDF by bisection on the CDF (bracketed, so robust for small df)
+export const studentTQuantile = (p: number, df: number): number => {
+  if (!isFinite(df) || df > 1e6) return normalQuantile(p);
+  if (p === 0.5) return 0;
+  let lo = -1, hi = 1;
+  while (studentTCdf(lo, df) > p) lo *= 2;
+  while (studentTCdf(hi, df) < p) hi *= 2;
+  for (let i = 0; i < 100 && hi - lo > 1e-10 * (1 + Math.abs(lo)); i++) {
+    const mid = (lo + hi) / 2;
+    if (studentTCdf(mid, df) < p) lo = mid; else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+// --- Two-Sample Tests ---
+
+export interface TwoSampleTest {
+  estimate: number; // mean(treated) - mean(control)
+  se: number;
+  df: number;
+  statistic: number;
+  pValue: number;   // Two-sided
+}
+
+const meanAndVariance = (values: number[]): { mean: number; variance: number } => {
+  const n = values.length;
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  const variance = values.reduce((a, b) => a + (b - mean) ** 2, 0) / (n - 1);
+  return { mean, variance };
+};
+
+// Welch's unequal-variance t-test of treated vs control; undefined with fewer than two values per group
+export const welchTTest = (treated: number[], control: number[]): TwoSampleTest | undefined => {
+  if (treated.length < 2 || control.length < 2) return undefined;
+  const t = meanAndVariance(treated);
+  const c = meanAndVariance(control);
+  const vt = t.variance / treated.length;
+  const vc = c.variance / control.length;
+  const se = Math.sqrt(vt + vc);
+  const estimate = t.mean - c.mean;
+  if (se === 0) return undefined;
+  const df = (vt + vc) ** 2 / (vt ** 2 / (treated.length - 1) + vc ** 2 / (control.length - 1));
+  const statistic = estimate / se;
+  return { estimate, se, df, statistic, pValue: 2 * (1 - studentTCdf(Math.abs(statistic), df)) };
+};
+
+// --- Multiplicity ---
+
+export type MultiplicityMethod = 'none' | 'bonferroni' | 'holm' | 'bh';
+
+export const MULTIPLICITY_LABELS: Record<MultiplicityMethod, string> = {
+  none: 'Unadjusted',
+  bonferroni: 'Bonferroni',
+  holm: 'Holm',
+  bh: 'Benjamini-Hochberg (FDR)',
+};
+
+/**
+ * Adjusted p-values (q-values) for a family of tests, returned in input order. Holm is the
+ * step-down and BH the step-up procedure; both are made monotone in the sorted order.
+ */
+export const adjustPValues = (pValues: number[], method: MultiplicityMethod): number[] => {
+  const m = pValues.length;
+  if (method === 'none' || m === 0) return [...pValues];
+  if (method === 'bonferroni') return pValues.map(p => Math.min(1, p * m));
+
+  const order = pValues.map((_, i) => i).sort((a, b) => pValues[a] - pValues[b]);
+  const adjusted = new Array<number>(m);
+  if (method === 'holm') {
+    let running = 0;
+    order.forEach((idx, rank) => {
+      running = Math.max(running, Math.min(1, (m - rank) * pValues[idx]));
+      adjusted[idx] = running;
+    });
+  } else {
+    let running = 1;
+    for (let rank = m - 1; rank >= 0; rank--) {
+      const idx = order[rank];
+      running = Math.min(running, (m / (rank + 1)) * pValues[idx]);
+      adjusted[idx] = running;
+    }
+  }
+  return adjusted;
+};
+
+// Conventional star markers for a (possibly adjusted) p-value
+export const significanceStars = (p: number | undefined): string => {
+  if (p === undefined || isNaN(p)) return '';
+  if (p < 0.001) return '***';
+  if (p < 0.01) return '**';
+  if (p < 0.05) return '*';
+  return '';
+};
+
+// --- Formatting ---
+
+export const formatPValue = (p: number | undefined): string => {
+  if (p === undefined || isNaN(p)) return '—';
+  if (p < 0.001) return '<0.001';
+  return p.toFixed(3);
+};
@@ -0,0 +1,95 @@
+import { ARM_PALETTE, CONTROL_ARM_COLOR, DEFAULT_ARMS } from '../constants';
+import { Arm, ArmDef, PatientData } from '../types';
+
+// --- Arm Inference ---
+
+const CONTROL_PATTERN = /placebo|control|vehicle|standard of care|\bsoc\b|\bpbo\b/i;
+const DOSE_PATTERN = /(\d+(?:\.\d+)?)\s*(?:mg\/kg|mg|µg|ug|mcg|g|iu)\b/i;
+
+export const isControlArmName = (name: string): boolean => CONTROL_PATTERN.test(name);
+
+// Extracts a nominal dose from labels such as "Active 10mg" or "Drug X 0.5 mg/kg"
+export const parseDoseFromName = (name: string): number | undefined => {
+  if (isControlArmName(name)) return 0;
+  const match = name.match(DOSE_PATTERN);
+  return match ? parseFloat(match[1]) : undefined;
+};
+
+// Controls first, then ascending dose, then alphabetical for undosed arms
+const compareArms = (a: ArmDef, b: ArmDef): number => {
+  if (a.isControl !== b.isControl) return a.isControl ? -1 : 1;
+  const da = a.dose ?? Number.POSITIVE_INFINITY;
+  const db = b.dose ?? Number.POSITIVE_INFINITY;
+  if (da !== db) return da - db;
+  return a.name.localeCompare(b.name);
+};
+
+export const inferArmDef = (name: Arm): ArmDef => {
+  const isControl = isControlArmName(name);
+  return {
+    name,
+    order: 0,
+    color: isControl ? CONTROL_ARM_COLOR : ARM_PALETTE[0],
+    dose: parseDoseFromName(name),
+    isControl,
+  };
+};
+
+// Simulated dose-ranging design: the placebo arm plus one active arm per distinct positive dose
+export const buildDoseArms = (doses: number[], drugName: string = 'Drug X'): ArmDef[] => {
+  const control = DEFAULT_ARMS.find(a => a.isControl) ?? inferArmDef('Placebo');
+  const unique = Array.from(new Set(doses.filter(d => Number.isFinite(d) && d > 0))).sort((a, b) => a - b);
+  return [
+    { ...control, order: 0 },
+    ...unique.map((dose, idx) => ({
+      name: `${drugName} ${dose}mg`,
+      order: idx + 1,
+      color: ARM_PALETTE[idx % ARM_PALETTE.length],
+      dose,
+      isControl: false,
+    })),
+  ];
+};
+
+// --- Registry ---
+
+/**
+ * Builds the study arm registry from the arms actually present in the data.
+ * Known definitions (e.g. from the simulation config) keep their color, dose and
+ * control flag; unknown arms are inferred from their label and given palette colors.
+ */
+export const buildArmRegistry = (data: PatientData[], knownArms: ArmDef[] = DEFAULT_ARMS): ArmDef[] => {
+  const names: Arm[] = [];
+  const seen = new Set<Arm>();
+  data.forEach(p => {
+    if (!seen.has(p.arm)) {
+      seen.add(p.arm);
+      names.push(p.arm);
+    }
+  });
+
+  if (names.length === 0) return [...knownArms].sort((a, b) => a.order - b.order);
+
+  const known = new Map(knownArms.map(a => [a.name, a]));
+  const usedColors = new Set(knownArms.filter(a => seen.has(a.name)).map(a => a.color));
+  const palette = ARM_PALETTE.filter(c => !usedColors.has(c));
+  let paletteIdx = 0;
+
+  const defs = names.map(name => {
+    const def = known.get(name);
+    return def ? { ...def } : inferArmDef(name);
+  });
+
+  const allKnown = defs.every(d => known.has(d.name));
+  const sorted = allKnown ? defs.sort((a, b) => a.order - b.order) : defs.sort(compareArms);
+
+  return sorted.map((d, idx) => {
+    const needsColor = !known.has(d.name) && !d.isControl;
+    const color = needsColor
+      ? (palette.length ? palette : ARM_PALETTE)[paletteIdx++ % (palette.length || ARM_PALETTE.length)]
+      : d.color;
+    return { ...d, color, order: idx };
+  });
+};
+
+export const getControlArm = (arms: ArmDef[]): ArmDef | undefined => arms.find(a => a.isControl);
@@ -0,0 +1,225 @@
+import { BiomarkerDef, Measurement, PatientData, Timepoint } from '../types';
+import { AncovaObservation, AncovaScale, fitAncova, getAncovaScale, modelResponse } from './ancova';
+import { listCovariates } from './covariates';
+import { invert, multiply, multiplyVector, transpose } from './linearAlgebra';
+import { fDistributionCdf } from './statistics';
+
+// --- Subgroup Analysis ---
+// Effect of one arm vs the reference arm within each level of a subgrouping variable, from the
+// baseline-adjusted ANCOVA fitted within the subgroup, plus an F-test of the arm × subgroup
+// interaction in one model over all levels (change ~ baseline + arm * subgroup).
+
+export interface SubgroupVariable {
+  key: string;
+  label: string;
+  levels: string[];
+  assign: (patient: PatientData) => string | undefined;
+}
+
+export interface SubgroupEstimate {
+  level: string;
+  nTreated: number;
+  nReference: number;
+  // Difference vs the reference arm on the reporting scale; undefined when not estimable
+  estimate?: number;
+  lower?: number;
+  upper?: number;
+  pValue?: number;
+}
+
+export interface SubgroupResult {
+  key: string;
+  label: string;
+  levels: SubgroupEstimate[];
+  interactionPValue?: number;
+  interactionDf?: number;
+}
+
+export interface SubgroupAnalysis {
+  treatedArm: string;
+  referenceArm: string;
+  scale: AncovaScale;
+  overall: SubgroupEstimate;
+  subgroups: SubgroupResult[];
+}
+
+// Categorical covariates with more levels than this (e.g. patient-level IDs) are not offered
+export const MAX_SUBGROUP_LEVELS = 8;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const formatCut = (v: number): string => (Number.isInteger(v) ? String(v) : v.toPrecision(3));
+
+// Two levels split at the median; undefined when ties put everyone on one side
+const medianSplit = (
+  key: string,
+  label: string,
+  values: number[],
+  valueOf: (p: PatientData) => number | undefined,
+  unit = ''
+): SubgroupVariable | undefined => {
+  if (values.length < 2) return undefined;
+  const cut = median(values);
+  if (!values.some(v => v < cut)) return undefined;
+  const suffix = unit ? ` ${unit}` : '';
+  const below = `< ${formatCut(cut)}${suffix}`;
+  const above = `≥ ${formatCut(cut)}${suffix}`;
+  return {
+    key,
+    label,
+    levels: [below, above],
+    assign: p => {
+      const v = valueOf(p);
+      return v === undefined ? undefined : v < cut ? below : above;
+    },
+  };
+};
+
+const baselineValue = (p: PatientData, biomarkerId: string, baselineVisit: Timepoint): number | undefined =>
+  p.measurements.find(m => m.biomarkerId === biomarkerId && m.timepoint === baselineVisit)?.value;
+
+/**
+ * Subgrouping variables available in the cohort: each covariate (numeric ones split at the
+ * median) and baseline severity of the analyzed biomarker (split at its median).
+ */
+export const buildSubgroupVariables = (data: PatientData[], biomarker: BiomarkerDef, baselineVisit: Timepoint): SubgroupVariable[] => {
+  const variables: SubgroupVariable[] = [];
+  listCovariates(data).forEach(info => {
+    if (info.type === 'categorical') {
+      if (info.levels.length < 2 || info.levels.length > MAX_SUBGROUP_LEVELS) return;
+      variables.push({
+        key: `covariate:${info.key}`,
+        label: info.label,
+        levels: info.levels,
+        assign: p => {
+          const v = p.covariates?.[info.key];
+          return v === undefined ? undefined : String(v);
+        },
+      });
+      return;
+    }
+    const valueOf = (p: PatientData) => {
+      const v = p.covariates?.[info.key];
+      return typeof v === 'number' ? v : undefined;
+    };
+    const values = data.map(valueOf).filter((v): v is number => v !== undefined);
+    const split = medianSplit(`covariate:${info.key}`, info.label, values, valueOf, info.unit);
+    if (split) variables.push(split);
+  });
+
+  const baselineOf = (p: PatientData) => baselineValue(p, biomarker.id, baselineVisit);
+  const baselines = data.map(baselineOf).filter((v): v is number => v !== undefined);
+  const severity = medianSplit('baseline', `Baseline ${biomarker.name}`, baselines, baselineOf, biomarker.unit);
+  if (severity) variables.push(severity);
+  return variables;
+};
+
+// Residual sum of squares of the least-squares fit; undefined when the design is singular
+const residualSumOfSquares = (X: number[][], y: number[]): number | undefined => {
+  const Xt = transpose(X);
+  const XtXInv = invert(multiply(Xt, X));
+  if (!XtXInv) return undefined;
+  const beta = multiplyVector(XtXInv, multiplyVector(Xt, y));
+  return X.reduce((s, row, i) => s + (y[i] - row.reduce((acc, x, j) => acc + x * beta[j], 0)) ** 2, 0);
+};
+
+// F-test of the arm × level terms; only levels with both arms enter the model
+const interactionTest = (
+  rows: { obs: AncovaObservation; level: string }[],
+  treatedArm: string
+): { pValue: number; df: number } | undefined => {
+  const levels = Array.from(new Set(rows.map(r => r.level))).filter(level =>
+    rows.some(r => r.level === level && r.obs.arm === treatedArm) && rows.some(r => r.level === level && r.obs.arm !== treatedArm)
+  );
+  if (levels.length < 2) return undefined;
+  const used = rows.filter(r => levels.includes(r.level));
+  const others = levels.slice(1);
+  const baselineMean = used.reduce((s, r) => s + r.obs.baseline, 0) / used.length;
+
+  const reduced = used.map(r => {
+    const trt = r.obs.arm === treatedArm ? 1 : 0;
+    return [1, trt, r.obs.baseline - baselineMean, ...others.map(l => (r.level === l ? 1 : 0))];
+  });
+  const full = reduced.map((row, i) => [...row, ...others.map(l => (used[i].level === l ? row[1] : 0))]);
+  const y = used.map(r => r.obs.response);
+
+  const dfFull = used.length - full[0].length;
+  if (dfFull < 1) return undefined;
+  const rssFull = residualSumOfSquares(full, y);
+  const rssReduced = residualSumOfSquares(reduced, y);
+  if (rssFull === undefined || rssReduced === undefined || rssFull <= 0) return undefined;
+
+  const df = others.length;
+  const f = Math.max(0, (rssReduced - rssFull) / df) / (rssFull / dfFull);
+  return { pValue: 1 - fDistributionCdf(f, df, dfFull), df };
+};
+
+export const analyzeSubgroups = (
+  data: PatientData[],
+  biomarker: BiomarkerDef,
+  baselineVisit: Timepoint,
+  timepoint: Timepoint,
+  isPercent: boolean,
+  treatedArm: string,
+  referenceArm: string,
+  variables: SubgroupVariable[],
+  level: number = 0.95
+): SubgroupAnalysis => {
+  const scale = getAncovaScale(biomarker, isPercent);
+
+  // One model-scale observation per patient in the two compared arms
+  const rows: { patient: PatientData; obs: AncovaObservation }[] = [];
+  data.forEach(p => {
+    if (p.arm !== treatedArm && p.arm !== referenceArm) return;
+    let baseline: number | undefined;
+    let followUp: Measurement | undefined;
+    p.measurements.forEach(m => {
+      if (m.biomarkerId !== biomarker.id) return;
+      if (m.timepoint === baselineVisit) baseline = m.value;
+      else if (m.timepoint === timepoint) followUp = m;
+    });
+    if (baseline === undefined || !followUp) return;
+    const row = modelResponse(baseline, followUp, isPercent, scale);
+    if (row) rows.push({ patient: p, obs: { arm: p.arm, ...row } });
+  });
+
+  const estimate = (label: string, observations: AncovaObservation[]): SubgroupEstimate => {
+    const nTreated = observations.filter(o => o.arm === treatedArm).length;
+    const contrast = fitAncova(observations, [referenceArm, treatedArm], referenceArm, scale, level)?.contrasts[0];
+    return {
+      level: label,
+      nTreated,
+      nReference: observations.length - nTreated,
+      estimate: contrast?.estimate,
+      lower: contrast?.lower,
+      upper: contrast?.upper,
+      pValue: contrast?.pValue,
+    };
+  };
+
+  const subgroups = variables.map(variable => {
+    const assigned = rows
+      .map(r => ({ obs: r.obs, level: variable.assign(r.patient) }))
+      .filter((r): r is { obs: AncovaObservation; level: string } => r.level !== undefined);
+    const interaction = interactionTest(assigned, treatedArm);
+    return {
+      key: variable.key,
+      label: variable.label,
+      levels: variable.levels.map(l => estimate(l, assigned.filter(r => r.level === l).map(r => r.obs))),
+      interactionPValue: interaction?.pValue,
+      interactionDf: interaction?.df,
+    };
+  });
+
+  return {
+    treatedArm,
+    referenceArm,
+    scale,
+    overall: estimate('All patients', rows.map(r => r.obs)),
+    subgroups,
+  };
+};
@@ -0,0 +1,105 @@
+// --- Effect Time Profiles ---
+// A time profile gives the fraction (0..1) of an arm's target effect reached at a study day.
+// Built-in profiles scale with the length of the treatment period; custom profiles are defined
+// in days since baseline so they keep their kinetics under any visit schedule.
+
+export type TimeProfileType = 'linear' | 'immediate' | 'delayed' | 'biphasic' | 'peak_drop' | 'custom';
+
+export interface ProfilePoint {
+  day: number;    // Days since baseline
+  effect: number; // Fraction of the target effect (0..1)
+}
+
+export interface CustomTimeProfile {
+  mode: 'piecewise' | 'parametric';
+  points: ProfilePoint[];   // Piecewise: linear interpolation from no effect at baseline
+  onsetDelay: number;       // Parametric: days before the effect starts building
+  onsetHalfLife: number;    // Parametric: days to reach half of the plateau
+  washoutStart?: number;    // Parametric: day the effect starts to wane (none = sustained plateau)
+  washoutHalfLife: number;  // Parametric: days for the effect to halve during washout
+}
+
+export const TIME_PROFILE_LABELS: Record<TimeProfileType, string> = {
+  linear: 'Linear',
+  immediate: 'Immediate',
+  delayed: 'Delayed',
+  biphasic: 'Biphasic',
+  peak_drop: 'Peak & Drop',
+  custom: 'Custom',
+};
+
+// Matches the built-in linear profile on the standard 24-week schedule
+export const DEFAULT_CUSTOM_PROFILE: CustomTimeProfile = {
+  mode: 'piecewise',
+  points: [
+    { day: 28, effect: 0.33 },
+    { day: 84, effect: 0.66 },
+    { day: 168, effect: 1.0 },
+  ],
+  onsetDelay: 0,
+  onsetHalfLife: 28,
+  washoutStart: undefined,
+  washoutHalfLife: 28,
+};
+
+// Effect multipliers at 1/6, 1/2 and the end of the treatment period (the Week 4/12/24
+// positions of the standard 24-week schedule)
+const PROFILE_ANCHORS = [4 / 24, 12 / 24, 1];
+
+const getTimeProfileMultipliers = (type: TimeProfileType): [number, number, number] => {
+  switch (type) {
+    case 'immediate': return [0.8, 0.9, 1.0];
+    case 'delayed':   return [0.05, 0.4, 1.0];
+    case 'biphasic':  return [0.7, 1.0, 0.2]; // Strong mid-term, then washout
+    case 'peak_drop': return [1.0, 0.5, 0.1]; // Peak early then drop
+    case 'linear':    
+    default:          return [0.33, 0.66, 1.0];
+  }
+};
+
+// Linear interpolation through (xs, ys), holding the last value beyond the final point
+const interpolate = (xs: number[], ys: number[], x: number): number => {
+  if (x <= xs[0]) return ys[0];
+  for (let i = 1; i < xs.length; i++) {
+    if (x <= xs[i]) {
+      const w = xs[i] > xs[i - 1] ? (x - xs[i - 1]) / (xs[i] - xs[i - 1]) : 1;
+      return ys[i - 1] + w * (ys[i] - ys[i - 1]);
+    }
+  }
+  return ys[ys.length - 1];
+};
+
+// Effect multiplier at any fraction (0..1) of the treatment period, interpolated linearly
+// between the profile anchors, starting from no effect at baseline
+export const getTimeProfileFactor = (type: TimeProfileType, fraction: number): number =>
+  interpolate([0, ...PROFILE_ANCHORS], [0, ...getTimeProfileMultipliers(type)], Math.min(1, Math.max(0, fraction)));
+
+// First-order onset toward a plateau of 1, followed by exponential washout
+const parametricEffect = (profile: CustomTimeProfile, t: number): number => {
+  const onset = (x: number) => (x <= profile.onsetDelay ? 0 : 1 - Math.pow(2, -(x - profile.onsetDelay) / Math.max(profile.onsetHalfLife, 1e-6)));
+  if (profile.washoutStart === undefined || t <= profile.washoutStart) return onset(t);
+  return onset(profile.washoutStart) * Math.pow(2, -(t - profile.washoutStart) / Math.max(profile.washoutHalfLife, 1e-6));
+};
+
+export const getCustomProfileFactor = (profile: CustomTimeProfile, daysSinceBaseline: number): number => {
+  const t = Math.max(0, daysSinceBaseline);
+  if (profile.mode === 'parametric') return parametricEffect(profile, t);
+  const points = [...profile.points].filter(p => p.day > 0).sort((a, b) => a.day - b.day);
+  return interpolate([0, ...points.map(p => p.day)], [0, ...points.map(p => p.effect)], t);
+};
+
+/**
+ * Effect multiplier at a study day. Built-in profiles are stretched over the treatment period
+ * (baseline to the final visit); custom profiles are evaluated directly in days since baseline.
+ */
+export const getEffectFactorAtDay = (
+  type: TimeProfileType,
+  custom: CustomTimeProfile,
+  day: number,
+  startDay: number,
+  endDay: number
+): number => {
+  if (type === 'custom') return getCustomProfileFactor(custom, day - startDay);
+  const fraction = endDay > startDay ? (day - startDay) / (endDay - startDay) : 1;
+  return getTimeProfileFactor(type, fraction);
+};
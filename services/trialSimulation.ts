@@ -0,0 +1,276 @@
+import { BiomarkerDef, PatientData } from '../types';
+import { generateSimulatedData, SimulationConfig } from './simulation';
+import { deriveSeed } from './random';
+import { getBaselineVisit, getFollowUpVisits } from './visitSchedule';
+import { getControlArm } from './studyArms';
+import { applyCensoringRule, CensoringRule } from './censoring';
+import { welchTTest } from './statistics';
+import { AncovaObservation, AncovaScale, backTransform, fitAncova, getAncovaScale, modelResponse } from './ancova';
+import { compareRanks, DEFAULT_BASELINE_STRATA } from './nonparametric';
+
+// --- Monte Carlo Trial Simulation ---
+// Reruns the dashboard simulator many times with the same configuration and analyses every
+// replicate, so power reflects the full data-generating model (responders, dose-response,
+// dropout, censoring) rather than a closed-form approximation.
+
+export type TrialEndpoint = 'change' | 'percent_change';
+
+export const TRIAL_ENDPOINT_LABELS: Record<TrialEndpoint, string> = {
+  change: 'Change from baseline',
+  percent_change: '% Change from baseline',
+};
+
+// Test applied to every replicate; the same methods as the dashboard's between-arm comparison
+export type TrialAnalysis = 'welch' | 'ancova' | 'wilcoxon' | 'van_elteren';
+
+export const TRIAL_ANALYSIS_LABELS: Record<TrialAnalysis, string> = {
+  welch: 'Welch t-test',
+  ancova: 'ANCOVA',
+  wilcoxon: 'Wilcoxon / Hodges-Lehmann',
+  van_elteren: 'van Elteren (baseline strata)',
+};
+
+// Written to exports and the methods note
+export const describeTrialAnalysis = (analysis: TrialAnalysis): string => {
+  switch (analysis) {
+    case 'ancova':      return 'ANCOVA of the endpoint on arm and baseline vs control';
+    case 'wilcoxon':    return 'Wilcoxon rank-sum test vs control (Hodges-Lehmann shift)';
+    case 'van_elteren': return `van Elteren test vs control stratified by baseline (${DEFAULT_BASELINE_STRATA} equal-count strata; Hodges-Lehmann shift)`;
+    case 'welch':
+    default:            return 'Welch t-test vs control';
+  }
+};
+
+export interface TrialSimulationSettings {
+  trials: number;
+  patientsPerTrial: number;
+  alpha: number;               // Two-sided significance level
+  endpoint: TrialEndpoint;
+  analysis: TrialAnalysis;
+  estimateTypeIError: boolean; // Also simulate every trial under the null (no drug effect)
+}
+
+export const DEFAULT_TRIAL_SETTINGS: TrialSimulationSettings = {
+  trials: 200,
+  patientsPerTrial: 600,
+  alpha: 0.05,
+  endpoint: 'percent_change',
+  analysis: 'welch',
+  estimateTypeIError: true,
+};
+
+export interface TrialSimulationRequest {
+  config: SimulationConfig;
+  biomarkers: BiomarkerDef[];
+  settings: TrialSimulationSettings;
+  censoringRule: CensoringRule;
+}
+
+// One active arm vs control, for one biomarker at one visit
+export interface TrialCellResult {
+  biomarkerId: string;
+  timepoint: string;
+  arm: string;
+  power: number;
+  typeIError?: number;
+  estimates: number[]; // Treatment difference per trial, on the endpoint's reporting scale
+  tested: number;      // Trials with enough data in both arms to run the test
+}
+
+export interface TrialSimulationResult {
+  settings: TrialSimulationSettings;
+  scenarioName: string;
+  controlArm: string;
+  cells: TrialCellResult[];
+  elapsedMs: number;
+}
+
+// --- Worker Protocol ---
+
+export type TrialWorkerRequest = { type: 'run'; request: TrialSimulationRequest };
+
+export type TrialWorkerResponse =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'result'; result: TrialSimulationResult }
+  | { type: 'error'; message: string };
+
+// --- Analysis ---
+
+interface CellTest {
+  estimate: number;
+  pValue: number;
+}
+
+/**
+ * Tests each active arm against control per biomarker and visit with the chosen analysis. All
+ * analyses work on the ANCOVA model scale: % change of skewed markers is the log ratio to
+ * baseline, reported as a ratio of geometric means (%).
+ */
+const analyzeTrial = (
+  data: PatientData[],
+  biomarkers: BiomarkerDef[],
+  baselineVisit: string,
+  timepoints: string[],
+  activeArms: string[],
+  controlArm: string,
+  endpoint: TrialEndpoint,
+  analysis: TrialAnalysis
+): Map<string, CellTest> => {
+  const isPercent = endpoint === 'percent_change';
+  const scales = new Map<string, AncovaScale>(biomarkers.map(b => [b.id, getAncovaScale(b, isPercent)]));
+  const armOrder = [controlArm, ...activeArms];
+
+  // One pass over the data: model-scale observations per biomarker and visit
+  const observations = new Map<string, AncovaObservation[]>();
+  data.forEach(p => {
+    const baselines = new Map<string, number>();
+    p.measurements.forEach(m => { if (m.timepoint === baselineVisit) baselines.set(m.biomarkerId, m.value); });
+    p.measurements.forEach(m => {
+      const baseline = baselines.get(m.biomarkerId);
+      const scale = scales.get(m.biomarkerId);
+      if (m.timepoint === baselineVisit || baseline === undefined || !scale) return;
+      const row = modelResponse(baseline, m, isPercent, scale);
+      if (!row) return;
+      const key = `${m.biomarkerId}|${m.timepoint}`;
+      if (!observations.has(key)) observations.set(key, []);
+      observations.get(key)!.push({ arm: p.arm, ...row });
+    });
+  });
+
+  const results = new Map<string, CellTest>();
+  biomarkers.forEach(b => timepoints.forEach(tp => {
+    const obs = observations.get(`${b.id}|${tp}`) ?? [];
+    const scale = scales.get(b.id)!;
+    const record = (arm: string, estimate: number, pValue: number) => results.set(`${b.id}|${tp}|${arm}`, { estimate, pValue });
+
+    if (analysis === 'welch') {
+      const control = obs.filter(o => o.arm === controlArm).map(o => o.response);
+      activeArms.forEach(arm => {
+        const test = welchTTest(obs.filter(o => o.arm === arm).map(o => o.response), control);
+        if (test) record(arm, backTransform(scale, test.estimate), test.pValue);
+      });
+      return;
+    }
+    const contrasts = analysis === 'ancova'
+      ? fitAncova(obs, armOrder, controlArm, scale)?.contrasts
+      : compareRanks(obs, armOrder, controlArm, scale, analysis)?.contrasts;
+    contrasts?.forEach(c => record(c.arm, c.estimate, c.pValue));
+  }));
+  return results;
+};
+
+/**
+ * Runs the Monte Carlo study. Each replicate uses its own seed derived from the configured one,
+ * so a run is reproducible. The null replicate reuses the same seed with no drug responders and
+ * no MNAR non-responder dropout (which would otherwise hit every active-arm patient), so active
+ * arms behave exactly like placebo. Trials where a cell cannot be tested (too few patients)
+ * count as non-significant.
+ */
+export const runTrialSimulation = (
+  request: TrialSimulationRequest,
+  onProgress?: (completed: number, total: number) => void
+): TrialSimulationResult => {
+  const started = Date.now();
+  const { config, biomarkers, settings, censoringRule } = request;
+  const control = getControlArm(config.arms);
+  if (!control) throw new Error('Trial simulation needs a control arm to compare against.');
+
+  const activeArms = config.arms.filter(a => !a.isControl).map(a => a.name);
+  const baselineVisit = getBaselineVisit(config.visits).label;
+  const timepoints = getFollowUpVisits(config.visits).map(v => v.label);
+  const nullConfig: SimulationConfig = {
+    ...config,
+    responderRate: 0,
+    missingData: { ...config.missingData, nonResponderDropoutRate: 0 },
+  };
+
+  const cells = new Map<string, TrialCellResult>();
+  const significant = new Map<string, number>();
+  const falsePositives = new Map<string, number>();
+  biomarkers.forEach(b => timepoints.forEach(tp => activeArms.forEach(arm => {
+    const key = `${b.id}|${tp}|${arm}`;
+    cells.set(key, { biomarkerId: b.id, timepoint: tp, arm, power: 0, estimates: [], tested: 0 });
+    significant.set(key, 0);
+    falsePositives.set(key, 0);
+  })));
+
+  const simulate = (cfg: SimulationConfig) => applyCensoringRule(
+    generateSimulatedData(settings.patientsPerTrial, biomarkers, cfg),
+    biomarkers,
+    censoringRule
+  );
+
+  const analyze = (data: PatientData[]) =>
+    analyzeTrial(data, biomarkers, baselineVisit, timepoints, activeArms, control.name, settings.endpoint, settings.analysis);
+
+  for (let i = 0; i < settings.trials; i++) {
+    const seed = deriveSeed(config.seed, `trial-${i}`);
+
+    const tests = analyze(simulate({ ...config, seed }));
+    tests.forEach((test, key) => {
+      const cell = cells.get(key);
+      if (!cell) return;
+      cell.estimates.push(test.estimate);
+      cell.tested++;
+      if (test.pValue < settings.alpha) significant.set(key, significant.get(key)! + 1);
+    });
+
+    if (settings.estimateTypeIError) {
+      const nullTests = analyze(simulate({ ...nullConfig, seed }));
+      nullTests.forEach((test, key) => {
+        if (test.pValue < settings.alpha && falsePositives.has(key)) falsePositives.set(key, falsePositives.get(key)! + 1);
+      });
+    }
+
+    onProgress?.(i + 1, settings.trials);
+  }
+
+  cells.forEach((cell, key) => {
+    cell.power = significant.get(key)! / settings.trials;
+    if (settings.estimateTypeIError) cell.typeIError = falsePositives.get(key)! / settings.trials;
+  });
+
+  return {
+    settings,
+    scenarioName: config.scenarioName,
+    controlArm: control.name,
+    cells: Array.from(cells.values()),
+    elapsedMs: Date.now() - started,
+  };
+};
+
+// --- Result Summaries ---
+
+export interface EstimateSummary {
+  mean: number;
+  sd: number;
+  lower: number; // 2.5th percentile
+  upper: number; // 97.5th percentile
+}
+
+const quantile = (sorted: number[], p: number): number => {
+  const pos = (sorted.length - 1) * p;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+export const summarizeEstimates = (estimates: number[]): EstimateSummary | undefined => {
+  const n = estimates.length;
+  if (n === 0) return undefined;
+  const mean = estimates.reduce((a, b) => a + b, 0) / n;
+  const sd = n > 1 ? Math.sqrt(estimates.reduce((a, b) => a + (b - mean) ** 2, 0) / (n - 1)) : 0;
+  const sorted = [...estimates].sort((a, b) => a - b);
+  return { mean, sd, lower: quantile(sorted, 0.025), upper: quantile(sorted, 0.975) };
+};
+
+// Equal-width histogram of the effect estimates, for the sampling distribution chart
+export const histogramEstimates = (estimates: number[], bins: number = 24): { x: number; count: number }[] => {
+  if (estimates.length === 0) return [];
+  const min = Math.min(...estimates);
+  const max = Math.max(...estimates);
+  const width = (max - min) / bins || 1;
+  const counts = new Array(bins).fill(0);
+  estimates.forEach(e => { counts[Math.min(bins - 1, Math.floor((e - min) / width))]++; });
+  return counts.map((count, i) => ({ x: min + (i + 0.5) * width, count }));
+};
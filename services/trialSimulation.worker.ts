@@ -0,0 +1,18 @@
+import { runTrialSimulation, TrialWorkerRequest, TrialWorkerResponse } from './trialSimulation';
+import { throttleProgress } from './workerProgress';
+
+// --- Trial Simulation Worker ---
+// Runs the Monte Carlo loop off the UI thread. Cancellation is done by the page terminating the worker.
+
+const ctx = self as unknown as Worker;
+const post = (message: TrialWorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = (event: MessageEvent<TrialWorkerRequest>) => {
+  if (event.data.type !== 'run') return;
+  try {
+    const result = runTrialSimulation(event.data.request, throttleProgress((completed, total) => post({ type: 'progress', completed, total })));
+    post({ type: 'result', result });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
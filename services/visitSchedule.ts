@@ -0,0 +1,92 @@
+import { BASELINE_VISIT, DEFAULT_VISIT_SCHEDULE } from '../constants';
+import { PatientData, Timepoint, VisitDef } from '../types';
+
+// --- Label Parsing ---
+
+const DAYS_PER_WEEK = 7;
+const DAYS_PER_MONTH = 28; // Protocol months (4-week cycles)
+
+/**
+ * Canonicalizes visit labels ("WEEK 12", "Wk12", "day 1", "UNSCHEDULED 1.01") and derives a
+ * nominal study day. Study Day 1 is the first dose (CDISC convention), so Week N is Day 7N + 1.
+ * Returns null for labels that do not correspond to an on-treatment visit (e.g. Screening).
+ */
+export const parseVisitLabel = (raw: string): VisitDef | null => {
+  const v = raw.trim().toUpperCase().replace(/[\s_\-]+/g, '');
+  if (!v) return null;
+
+  if (v === 'BASELINE' || v === 'DAY1' || v === 'D1') {
+    return { label: BASELINE_VISIT, day: 1, window: { start: -27, end: 1 }, isBaseline: true };
+  }
+  if (v.startsWith('UNSCHEDULED') || v.startsWith('UNSCH')) {
+    return { label: 'Unscheduled', isUnscheduled: true };
+  }
+
+  const match = v.match(/^(DAY|D|WEEK|WK|W|MONTH|M)(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+
+  const unit = match[1];
+  const n = parseFloat(match[2]);
+  const [label, day] = unit.startsWith('D')
+    ? [`Day ${n}`, n]
+    : unit.startsWith('W')
+      ? [`Week ${n}`, n * DAYS_PER_WEEK + 1]
+      : [`Month ${n}`, n * DAYS_PER_MONTH + 1];
+  return { label, day, window: defaultVisitWindow(day) };
+};
+
+// Returns the canonical label when the input is recognizable, otherwise the trimmed original
+export const normalizeVisitLabel = (raw: string): Timepoint => parseVisitLabel(raw)?.label ?? raw.trim();
+
+// Default visit window: ±10% of elapsed days, at least ±3 days
+export const defaultVisitWindow = (day: number): { start: number; end: number } => {
+  const halfWidth = Math.max(3, Math.round((day - 1) * 0.1));
+  return { start: day - halfWidth, end: day + halfWidth };
+};
+
+// --- Schedule ---
+
+/**
+ * Builds the visit schedule from the visit labels present in the data. Known visits
+ * (e.g. from the simulation config) keep their nominal day and window; other labels are
+ * parsed. Scheduled visits are ordered by nominal day, unscheduled/unparseable visits last.
+ */
+export const buildVisitSchedule = (data: PatientData[], knownVisits: VisitDef[] = DEFAULT_VISIT_SCHEDULE): VisitDef[] => {
+  const labels = new Set<Timepoint>();
+  data.forEach(p => p.measurements.forEach(m => labels.add(m.timepoint)));
+  if (labels.size === 0) return sortVisits(knownVisits);
+
+  const known = new Map(knownVisits.map(v => [v.label, v]));
+  const visits = Array.from(labels).map(label => {
+    const def = known.get(label) ?? parseVisitLabel(label);
+    return def ? { ...def, label } : { label, isUnscheduled: true };
+  });
+  return sortVisits(visits);
+};
+
+export const sortVisits = (visits: VisitDef[]): VisitDef[] =>
+  [...visits].sort((a, b) => {
+    const da = a.day ?? Number.POSITIVE_INFINITY;
+    const db = b.day ?? Number.POSITIVE_INFINITY;
+    if (da !== db) return da - db;
+    return a.label.localeCompare(b.label);
+  });
+
+// Visits with a nominal day, in chronological order (what the trend charts and AUC use)
+export const getScheduledVisits = (visits: VisitDef[]): VisitDef[] =>
+  sortVisits(visits).filter(v => !v.isUnscheduled && v.day !== undefined);
+
+export const getBaselineVisit = (visits: VisitDef[]): VisitDef =>
+  visits.find(v => v.isBaseline) ?? { label: BASELINE_VISIT, day: 1, isBaseline: true };
+
+export const getFollowUpVisits = (visits: VisitDef[]): VisitDef[] =>
+  getScheduledVisits(visits).filter(v => !v.isBaseline);
+
+export const getFinalVisit = (visits: VisitDef[]): VisitDef | undefined => {
+  const followUp = getFollowUpVisits(visits);
+  return followUp[followUp.length - 1];
+};
+
+// Elapsed time since baseline in weeks (used as the x-axis for AUC)
+export const weeksFromBaseline = (visit: VisitDef, baseline: VisitDef): number =>
+  ((visit.day ?? 0) - (baseline.day ?? 1)) / DAYS_PER_WEEK;
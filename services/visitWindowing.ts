@@ -0,0 +1,155 @@
+import { CensoredSide, Measurement, VisitDef } from '../types';
+import { getScheduledVisits } from './visitSchedule';
+
+// --- Types ---
+
+// How to resolve several samples of one biomarker falling in the same visit window
+export type MultiSampleRule = 'closest' | 'average' | 'last';
+
+export interface VisitWindowSettings {
+  visits: VisitDef[];
+  multiSampleRule: MultiSampleRule;
+}
+
+export interface DatedSample {
+  patientId: string;
+  biomarkerId: string;
+  studyDay: number;
+  value: number;
+  censored?: CensoredSide; // value holds the quantification limit
+}
+
+export interface OutOfWindowSample {
+  patientId: string;
+  biomarkerId: string;
+  studyDay: number;
+}
+
+export interface VisitWindowReport {
+  rule: MultiSampleRule;
+  samplesWindowed: number;
+  samplesAssigned: number;
+  multiSampleWindows: number;          // Patient/biomarker/visit cells that had >1 sample
+  outOfWindow: OutOfWindowSample[];
+}
+
+export const MULTI_SAMPLE_RULE_LABELS: Record<MultiSampleRule, string> = {
+  closest: 'Closest to target day',
+  average: 'Average of samples',
+  last: 'Last sample in window',
+};
+
+// --- Study Day Derivation ---
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Study day from ISO 8601 dates (CDISC --DY convention): the reference (first dose) date is
+ * Day 1 and there is no Day 0, so dates before the reference are negative.
+ */
+export const studyDayFromDates = (collectionDate: string, referenceDate: string): number | undefined => {
+  const c = Date.parse(collectionDate.slice(0, 10));
+  const r = Date.parse(referenceDate.slice(0, 10));
+  if (isNaN(c) || isNaN(r)) return undefined;
+  const diff = Math.round((c - r) / MS_PER_DAY);
+  return diff >= 0 ? diff + 1 : diff;
+};
+
+// --- Windowing ---
+
+// Picks the visit whose window contains the study day; overlapping windows go to the nearest target
+export const assignVisit = (studyDay: number, visits: VisitDef[]): VisitDef | null => {
+  let best: VisitDef | null = null;
+  getScheduledVisits(visits).forEach(v => {
+    if (!v.window || studyDay < v.window.start || studyDay > v.window.end) return;
+    if (!best || Math.abs(studyDay - v.day!) < Math.abs(studyDay - best.day!)) best = v;
+  });
+  return best;
+};
+
+type ResolvedSample = { value: number; studyDay: number; censored?: CensoredSide };
+
+const resolveSamples = (samples: DatedSample[], visit: VisitDef, rule: MultiSampleRule): ResolvedSample => {
+  if (samples.length === 1 || rule === 'closest') {
+    const chosen = samples.reduce((a, b) =>
+      Math.abs(b.studyDay - visit.day!) < Math.abs(a.studyDay - visit.day!) ? b : a);
+    return { value: chosen.value, studyDay: chosen.studyDay, censored: chosen.censored };
+  }
+  if (rule === 'last') {
+    const chosen = samples.reduce((a, b) => (b.studyDay >= a.studyDay ? b : a));
+    return { value: chosen.value, studyDay: chosen.studyDay, censored: chosen.censored };
+  }
+  // Censored results only enter the average when no quantified sample is available
+  const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+  const quantified = samples.filter(s => !s.censored);
+  const pool = quantified.length ? quantified : samples;
+  return {
+    value: mean(pool.map(s => s.value)),
+    studyDay: Math.round(mean(pool.map(s => s.studyDay))),
+    censored: quantified.length ? undefined : samples[0].censored,
+  };
+};
+
+/**
+ * Assigns dated samples to nominal visits using the configured windows.
+ * Returns the resulting measurements grouped by patient together with an import report.
+ */
+export const windowSamples = (
+  samples: DatedSample[],
+  settings: VisitWindowSettings
+): { measurementsByPatient: Map<string, Measurement[]>; report: VisitWindowReport } => {
+  const report: VisitWindowReport = {
+    rule: settings.multiSampleRule,
+    samplesWindowed: samples.length,
+    samplesAssigned: 0,
+    multiSampleWindows: 0,
+    outOfWindow: [],
+  };
+
+  // patient -> biomarker|visit -> samples
+  const cells = new Map<string, Map<string, { visit: VisitDef; samples: DatedSample[] }>>();
+
+  samples.forEach(sample => {
+    const visit = assignVisit(sample.studyDay, settings.visits);
+    if (!visit) {
+      report.outOfWindow.push({ patientId: sample.patientId, biomarkerId: sample.biomarkerId, studyDay: sample.studyDay });
+      return;
+    }
+    if (!cells.has(sample.patientId)) cells.set(sample.patientId, new Map());
+    const patientCells = cells.get(sample.patientId)!;
+    const key = `${sample.biomarkerId}|${visit.label}`;
+    if (!patientCells.has(key)) patientCells.set(key, { visit, samples: [] });
+    patientCells.get(key)!.samples.push(sample);
+    report.samplesAssigned++;
+  });
+
+  const measurementsByPatient = new Map<string, Measurement[]>();
+  cells.forEach((patientCells, patientId) => {
+    const measurements: Measurement[] = [];
+    patientCells.forEach(({ visit, samples: cellSamples }) => {
+      if (cellSamples.length > 1) report.multiSampleWindows++;
+      const { value, studyDay, censored } = resolveSamples(cellSamples, visit, settings.multiSampleRule);
+      const measurement: Measurement = { biomarkerId: cellSamples[0].biomarkerId, timepoint: visit.label, value, studyDay };
+      if (censored) measurement.censored = censored;
+      measurements.push(measurement);
+    });
+    measurementsByPatient.set(patientId, measurements);
+  });
+
+  return { measurementsByPatient, report };
+};
+
+// Human readable summary used in the upload confirmation dialog
+export const summarizeWindowReport = (report: VisitWindowReport): string => {
+  const lines = [
+    `Visit windowing (${MULTI_SAMPLE_RULE_LABELS[report.rule]}): ${report.samplesAssigned} of ${report.samplesWindowed} dated samples assigned to visits.`,
+  ];
+  if (report.multiSampleWindows) lines.push(`Windows with multiple samples resolved: ${report.multiSampleWindows}`);
+  if (report.outOfWindow.length) {
+    const preview = report.outOfWindow.slice(0, 5)
+      .map(s => `${s.patientId} ${s.biomarkerId} day ${s.studyDay}`).join('; ');
+    const more = report.outOfWindow.length > 5 ? ` (+${report.outOfWindow.length - 5} more)` : '';
+    lines.push(`Out-of-window samples excluded: ${report.outOfWindow.length} — ${preview}${more}`);
+  }
+  return lines.join('\n');
+};
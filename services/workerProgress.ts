@@ -0,0 +1,18 @@
+// --- Worker Progress ---
+// Shared by the worker entry points: progress is throttled so a fast run does not flood the
+// page with messages, but the final update always goes through.
+
+const PROGRESS_INTERVAL_MS = 100;
+
+export const throttleProgress = (
+  post: (completed: number, total: number) => void
+): ((completed: number, total: number) => void) => {
+  let lastPost = 0;
+  return (completed, total) => {
+    const now = Date.now();
+    if (completed === total || now - lastPost >= PROGRESS_INTERVAL_MS) {
+      lastPost = now;
+      post(completed, total);
+    }
+  };
+};
@@ -1,15 +1,24 @@
 
-export enum Arm {
-  PLACEBO = 'Placebo',
-  DRUG_1MG = 'Drug X 1mg',
-  DRUG_2MG = 'Drug X 2mg',
+// Arms are identified by their display name (e.g. 'Placebo', 'Active 10mg')
+export type Arm = string;
+
+export interface ArmDef {
+  name: Arm;
+  order: number;
+  color: string;
+  dose?: number;       // Nominal dose (units as labelled), undefined for non-dosed arms
+  isControl: boolean;  // Placebo / vehicle / standard-of-care comparator
 }
 
-export enum Timepoint {
-  BASELINE = 'Baseline',
-  WEEK_4 = 'Week 4',
-  WEEK_12 = 'Week 12',
-  WEEK_24 = 'Week 24',
+// Visits are identified by their label (e.g. 'Baseline', 'Week 2', 'Unscheduled')
+export type Timepoint = string;
+
+export interface VisitDef {
+  label: Timepoint;
+  day?: number;                            // Nominal study day (Day 1 = first dose); undefined if unscheduled
+  window?: { start: number; end: number }; // Allowed study-day range for the visit
+  isBaseline?: boolean;
+  isUnscheduled?: boolean;
 }
 
 export enum BiomarkerCategory {
@@ -20,6 +29,9 @@ export enum BiomarkerCategory {
   CUSTOM = 'Custom',
 }
 
+// Distribution family used to simulate and summarize a biomarker
+export type DistributionFamily = 'normal' | 'lognormal' | 'gamma';
+
 export interface BiomarkerDef {
   id: string;
   name: string;
@@ -27,18 +39,49 @@ export interface BiomarkerDef {
   unit: string;
   direction: 'lower_is_better' | 'higher_is_better';
   baselineMean?: number;
+  distribution?: DistributionFamily; // Defaults to 'normal'
+  lloq?: number; // Lower limit of quantification (assay units)
+  uloq?: number; // Upper limit of quantification
+}
+
+// Side of the quantification range a censored result fell outside
+export type CensoredSide = 'below' | 'above';
+
+// Patient-level simulation attributes, shared by every biomarker generated for the patient
+export interface PatientLatentTraits {
+  isResponder: boolean; // Responds to active treatment (placebo patients respond to placebo only)
+  sensitivity: number;  // Multiplier on the individual drug effect (log-normal, median 1)
+  severity: number;     // Baseline disease severity z-score; positive = worse
+}
+
+// Patient-level characteristic (age, sex, region, ...); numbers are continuous, strings categorical
+export type CovariateValue = number | string;
+
+export type CovariateType = 'numeric' | 'categorical';
+
+// Declared type of a covariate; undeclared covariates are typed from their values
+export interface CovariateDef {
+  key: string;
+  label: string;
+  type: CovariateType;
+  unit?: string;
 }
 
 export interface PatientData {
   patientId: string;
   arm: Arm;
   measurements: Measurement[];
+  covariates?: Record<string, CovariateValue>; // Keyed by covariate name, e.g. { age: 54, sex: 'F' }
+  latent?: PatientLatentTraits; // Only present for simulated cohorts
+  discontinuedAt?: Timepoint;   // First visit missed after study discontinuation (simulated dropout)
 }
 
 export interface Measurement {
   biomarkerId: string;
   timepoint: Timepoint;
   value: number;
+  studyDay?: number; // Actual study day of collection, when known
+  censored?: CensoredSide; // Result outside LLOQ/ULOQ; value holds the limit
   changeFromBaseline?: number; // Absolute change
   percentChange?: number; // % change
 }